@@ -14,6 +14,8 @@ import type {
   MeasurementSummary,
   FileEditDetail,
   FileMeasurement,
+  ResponseVerbosity,
+  VerbosityTokenEstimate,
 } from './types.js';
 
 // Token cost model constants (estimated overhead per MCP tool call)
@@ -21,20 +23,69 @@ import type {
 /** Tokens per individual Edit call (tool envelope + params + response) */
 const INDIVIDUAL_CALL_OVERHEAD = 150;
 
-/** Tokens per multi_edit call (tool envelope + file_path) */
-const MULTI_EDIT_BASE = 100;
+/** Tokens per multi_edit call (tool envelope + file_path), excluding the response */
+const MULTI_EDIT_BASE = 60;
 
-/** Tokens per edit within a multi_edit call */
-const MULTI_EDIT_PER_EDIT = 50;
+/** Tokens per edit within a multi_edit call, excluding the response */
+const MULTI_EDIT_PER_EDIT = 35;
 
-/** Tokens for a single multi_edit_files call */
-const MULTI_FILES_BASE = 100;
+/** Tokens for a single multi_edit_files call, excluding the response */
+const MULTI_FILES_BASE = 60;
 
-/** Tokens per file entry in multi_edit_files */
-const MULTI_FILES_PER_FILE = 80;
+/** Tokens per file entry in multi_edit_files, excluding the response */
+const MULTI_FILES_PER_FILE = 50;
 
-/** Tokens per edit within multi_edit_files */
-const MULTI_FILES_PER_EDIT = 50;
+/** Tokens per edit within multi_edit_files, excluding the response */
+const MULTI_FILES_PER_EDIT = 35;
+
+// Response cost by verbosity. At normal, a multi_edit call costs 100 + 50 per edit
+// and a multi_edit_files call 100 + 80 per file + 50 per edit, requests included.
+
+/** Response verbosity levels, cheapest first */
+const VERBOSITY_LEVELS: ResponseVerbosity[] = ['minimal', 'normal', 'full'];
+
+/** Response tokens per call: the one-line summary (minimal) or the response envelope */
+const RESPONSE_PER_CALL: Record<ResponseVerbosity, number> = { minimal: 15, normal: 40, full: 40 };
+
+/** Response tokens per file result in multi_edit_files (path and hash at minimal) */
+const RESPONSE_PER_FILE: Record<ResponseVerbosity, number> = { minimal: 10, normal: 30, full: 30 };
+
+/** Response tokens per edit: old_string preview, match counts and change location */
+const RESPONSE_PER_EDIT: Record<ResponseVerbosity, number> = { minimal: 0, normal: 15, full: 15 };
+
+/** Response tokens per edit for its diff hunk (full verbosity diffs every call) */
+const RESPONSE_PER_DIFF_HUNK: Record<ResponseVerbosity, number> = { minimal: 0, normal: 0, full: 70 };
+
+/** Response tokens per line of an edited file (full verbosity returns the final content) */
+const RESPONSE_PER_CONTENT_LINE: Record<ResponseVerbosity, number> = { minimal: 0, normal: 0, full: 10 };
+
+/**
+ * Tokens of one multi_edit call with edit_count edits on a file of line_count lines
+ */
+function multiEditCallTokens(edit_count: number, line_count: number, verbosity: ResponseVerbosity): number {
+  return MULTI_EDIT_BASE + RESPONSE_PER_CALL[verbosity]
+    + edit_count * (MULTI_EDIT_PER_EDIT + RESPONSE_PER_EDIT[verbosity] + RESPONSE_PER_DIFF_HUNK[verbosity])
+    + line_count * RESPONSE_PER_CONTENT_LINE[verbosity];
+}
+
+/**
+ * Tokens of one multi_edit_files call covering every file
+ */
+function multiFilesCallTokens(
+  files_edited: number,
+  total_edits: number,
+  total_lines: number,
+  verbosity: ResponseVerbosity,
+): number {
+  return MULTI_FILES_BASE + RESPONSE_PER_CALL[verbosity]
+    + files_edited * (MULTI_FILES_PER_FILE + RESPONSE_PER_FILE[verbosity])
+    + total_edits * (MULTI_FILES_PER_EDIT + RESPONSE_PER_EDIT[verbosity] + RESPONSE_PER_DIFF_HUNK[verbosity])
+    + total_lines * RESPONSE_PER_CONTENT_LINE[verbosity];
+}
+
+function savingsPct(baseline: number, tokens: number): number {
+  return baseline === 0 ? 0 : Math.round(((baseline - tokens) / baseline) * 100);
+}
 
 /**
  * Compute call count comparison across the three tool usage approaches.
@@ -76,48 +127,45 @@ export function computeCallComparison(files_edited: number, total_edits: number)
  *
  * Uses a simplified cost model based on MCP message overhead:
  * - Individual Edit: 150 tokens per call
- * - multi_edit: 100 base + 50 per edit, per file
- * - multi_edit_files: 100 base + 80 per file + 50 per edit
+ * - multi_edit: 100 base + 50 per edit, per file (at normal verbosity)
+ * - multi_edit_files: 100 base + 80 per file + 50 per edit (at normal verbosity)
+ *
+ * Responses are re-costed for each verbosity: minimal drops the per-edit
+ * results, full adds a diff hunk per edit and the final content of each file.
  *
  * @param files_edited - Number of distinct files edited
  * @param total_edits - Total number of individual edit operations
+ * @param total_lines - Total lines of the edited files (only full verbosity depends on it)
  * @returns TokenEstimate with token counts and percentage savings
  */
-export function estimateTokenSavings(files_edited: number, total_edits: number): TokenEstimate {
+export function estimateTokenSavings(files_edited: number, total_edits: number, total_lines = 0): TokenEstimate {
   const individual_tokens = total_edits * INDIVIDUAL_CALL_OVERHEAD;
 
-  let multi_edit_tokens: number;
-  if (files_edited === 0) {
-    multi_edit_tokens = 0;
-  } else {
-    const edits_per_file = Math.ceil(total_edits / files_edited);
-    multi_edit_tokens = files_edited * (MULTI_EDIT_BASE + edits_per_file * MULTI_EDIT_PER_EDIT);
-  }
-
-  let multi_edit_files_tokens: number;
-  if (files_edited === 0) {
-    multi_edit_files_tokens = 0;
-  } else {
-    multi_edit_files_tokens =
-      MULTI_FILES_BASE + files_edited * MULTI_FILES_PER_FILE + total_edits * MULTI_FILES_PER_EDIT;
-  }
-
-  const savings_vs_individual_pct =
-    individual_tokens === 0
-      ? 0
-      : Math.round(((individual_tokens - multi_edit_tokens) / individual_tokens) * 100);
-
-  const savings_multi_files_vs_individual_pct =
-    individual_tokens === 0
-      ? 0
-      : Math.round(((individual_tokens - multi_edit_files_tokens) / individual_tokens) * 100);
+  const by_verbosity = VERBOSITY_LEVELS.map((verbosity): VerbosityTokenEstimate => {
+    let multi_edit_tokens = 0;
+    let multi_edit_files_tokens = 0;
+    if (files_edited > 0) {
+      const edits_per_file = Math.ceil(total_edits / files_edited);
+      multi_edit_tokens = files_edited * multiEditCallTokens(edits_per_file, 0, verbosity)
+        + total_lines * RESPONSE_PER_CONTENT_LINE[verbosity];
+      multi_edit_files_tokens = multiFilesCallTokens(files_edited, total_edits, total_lines, verbosity);
+    }
+    return {
+      verbosity,
+      multi_edit_tokens,
+      multi_edit_files_tokens,
+      savings_vs_individual_pct: savingsPct(individual_tokens, multi_edit_tokens),
+    };
+  });
 
+  const normal = by_verbosity.find((estimate) => estimate.verbosity === 'normal')!;
   return {
     individual_tokens,
-    multi_edit_tokens,
-    multi_edit_files_tokens,
-    savings_vs_individual_pct,
-    savings_multi_files_vs_individual_pct,
+    multi_edit_tokens: normal.multi_edit_tokens,
+    multi_edit_files_tokens: normal.multi_edit_files_tokens,
+    savings_vs_individual_pct: normal.savings_vs_individual_pct,
+    savings_multi_files_vs_individual_pct: savingsPct(individual_tokens, normal.multi_edit_files_tokens),
+    by_verbosity,
   };
 }
 
@@ -125,12 +173,12 @@ export function estimateTokenSavings(files_edited: number, total_edits: number):
  * Compute per-file measurements for evidence reporting.
  *
  * For each file in a scenario, calculates the individual vs multi_edit
- * call counts and token costs, providing concrete per-file evidence.
+ * call counts and token costs (at normal verbosity), providing concrete per-file evidence.
  */
 export function computeFileMeasurements(file_details: FileEditDetail[]): FileMeasurement[] {
   return file_details.map((f) => {
     const individual_tokens = f.edit_count * INDIVIDUAL_CALL_OVERHEAD;
-    const multi_edit_tokens = MULTI_EDIT_BASE + f.edit_count * MULTI_EDIT_PER_EDIT;
+    const multi_edit_tokens = multiEditCallTokens(f.edit_count, f.line_count, 'normal');
     return {
       file_path: f.file_path,
       edit_count: f.edit_count,
@@ -139,10 +187,7 @@ export function computeFileMeasurements(file_details: FileEditDetail[]): FileMea
       individual_tokens,
       multi_edit_tokens,
       call_reduction_pct: f.edit_count <= 1 ? 0 : Math.round(((f.edit_count - 1) / f.edit_count) * 100),
-      token_savings_pct:
-        individual_tokens === 0
-          ? 0
-          : Math.round(((individual_tokens - multi_edit_tokens) / individual_tokens) * 100),
+      token_savings_pct: savingsPct(individual_tokens, multi_edit_tokens),
     };
   });
 }
@@ -165,7 +210,11 @@ export function computeMeasurements(results: ScenarioResult[]): MeasurementResul
     files_edited: r.files_edited,
     total_edits: r.total_edits,
     calls: computeCallComparison(r.files_edited, r.total_edits),
-    tokens: estimateTokenSavings(r.files_edited, r.total_edits),
+    tokens: estimateTokenSavings(
+      r.files_edited,
+      r.total_edits,
+      (r.file_details ?? []).reduce((sum, f) => sum + f.line_count, 0),
+    ),
     duration_ms: r.duration_ms,
     individual_duration_ms: r.individual_duration_ms,
     file_measurements: computeFileMeasurements(r.file_details ?? []),
@@ -190,6 +239,19 @@ export function computeMeasurements(results: ScenarioResult[]): MeasurementResul
       ? 0
       : Math.round(((sum_individual_tokens - sum_multi_edit_tokens) / sum_individual_tokens) * 100);
 
+  const overall_token_savings_pct_by_verbosity = Object.fromEntries(
+    VERBOSITY_LEVELS.map((verbosity) => [
+      verbosity,
+      savingsPct(
+        sum_individual_tokens,
+        scenarios.reduce(
+          (sum, s) => sum + s.tokens.by_verbosity.find((e) => e.verbosity === verbosity)!.multi_edit_tokens,
+          0,
+        ),
+      ),
+    ]),
+  ) as Record<ResponseVerbosity, number>;
+
   const summary: MeasurementSummary = {
     total_scenarios: scenarios.length,
     total_individual_calls,
@@ -197,6 +259,7 @@ export function computeMeasurements(results: ScenarioResult[]): MeasurementResul
     total_multi_edit_files_calls,
     overall_call_reduction_pct,
     overall_token_savings_pct,
+    overall_token_savings_pct_by_verbosity,
   };
 
   return {
@@ -204,6 +204,22 @@ function renderComparisonTables(measurement: MeasurementResult): string {
   );
   lines.push('');
 
+  // Table 3: Token usage by response verbosity (totals across scenarios)
+  lines.push('### Token Usage by Response Verbosity');
+  lines.push('');
+  lines.push('| Verbosity | multi_edit (tokens) | multi_edit_files (tokens) | Savings % (multi_edit vs individual) |');
+  lines.push('|-----------|--------------------:|--------------------------:|-------------------------------------:|');
+
+  for (const verbosity of ['minimal', 'normal', 'full'] as const) {
+    const estimates = scenarios.map((m) => m.tokens.by_verbosity.find((e) => e.verbosity === verbosity)!);
+    const multiEdit = estimates.reduce((sum, e) => sum + e.multi_edit_tokens, 0);
+    const multiFiles = estimates.reduce((sum, e) => sum + e.multi_edit_files_tokens, 0);
+    lines.push(
+      `| ${verbosity} | ${padNum(multiEdit, 1)} | ${padNum(multiFiles, 1)} | ${padNum(s.overall_token_savings_pct_by_verbosity[verbosity] + '%', 1)} |`,
+    );
+  }
+  lines.push('');
+
   return lines.join('\n');
 }
 
@@ -365,6 +381,17 @@ function renderMethodology(): string {
     '| multi_edit_files per file | 80 |',
     '| multi_edit_files per edit | 50 |',
     '',
+    'The batched figures include a response at the default `normal` verbosity. The other levels',
+    'change only the response part:',
+    '',
+    '| Response component | minimal | normal | full |',
+    '|--------------------|--------:|-------:|-----:|',
+    '| Per call | 15 | 40 | 40 |',
+    '| Per file (multi_edit_files) | 10 | 30 | 30 |',
+    '| Per edit (result and change location) | 0 | 15 | 15 |',
+    '| Per edit (diff hunk) | 0 | 0 | 70 |',
+    '| Per line of edited file (final content) | 0 | 0 | 10 |',
+    '',
     'These are comparative estimates, not exact token counts. The relative differences',
     'between approaches are more meaningful than absolute numbers.',
     '',
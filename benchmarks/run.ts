@@ -84,6 +84,8 @@ async function main(): Promise<void> {
   console.log('\nOverall:');
   console.log(`  Total call reduction: ${s.overall_call_reduction_pct}% (multi_edit vs individual Edit)`);
   console.log(`  Total token savings: ${s.overall_token_savings_pct}%`);
+  const byVerbosity = s.overall_token_savings_pct_by_verbosity;
+  console.log(`  By response verbosity: ${byVerbosity.minimal}% minimal, ${byVerbosity.normal}% normal, ${byVerbosity.full}% full`);
   console.log(`  Scenarios measured: ${s.total_scenarios}`);
   console.log(`\nMeasurement data written to: ${measurementPath}`);
 
@@ -161,6 +161,20 @@ export interface CallComparison {
   reduction_vs_multi_edit: number;
 }
 
+/** Response verbosity of multi_edit and multi_edit_files (mirrors the tools' verbosity option) */
+export type ResponseVerbosity = 'minimal' | 'normal' | 'full';
+
+/** Estimated token usage of the batched approaches at one response verbosity */
+export interface VerbosityTokenEstimate {
+  verbosity: ResponseVerbosity;
+  /** Estimated tokens for multi_edit approach */
+  multi_edit_tokens: number;
+  /** Estimated tokens for multi_edit_files approach */
+  multi_edit_files_tokens: number;
+  /** Percentage token savings: multi_edit vs individual */
+  savings_vs_individual_pct: number;
+}
+
 /** Estimated token usage across the three usage approaches */
 export interface TokenEstimate {
   /** Estimated tokens for individual Edit approach */
@@ -173,6 +187,8 @@ export interface TokenEstimate {
   savings_vs_individual_pct: number;
   /** Percentage: multi_edit_files vs individual */
   savings_multi_files_vs_individual_pct: number;
+  /** The same estimate at each response verbosity (the fields above are for normal) */
+  by_verbosity: VerbosityTokenEstimate[];
 }
 
 /** Measurement data for a single scenario run */
@@ -214,4 +230,6 @@ export interface MeasurementSummary {
   overall_call_reduction_pct: number;
   /** Overall percentage: multi_edit tokens vs individual tokens */
   overall_token_savings_pct: number;
+  /** Overall percentage: multi_edit tokens vs individual tokens, per response verbosity */
+  overall_token_savings_pct_by_verbosity: Record<ResponseVerbosity, number>;
 }
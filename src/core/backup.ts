@@ -0,0 +1,139 @@
+/**
+ * Backup strategy: where createBackup puts a copy of a file before it changes
+ *
+ * - sibling: rotated generations next to the file: `<file>.bak` is the newest, `<file>.1.bak` the one
+ *   before, up to MAX_SIBLING_BACKUPS copies
+ * - directory: timestamped generations in a tree under a backup directory that mirrors the project
+ * - none: no backup files (multi-file rollback keeps the original content in memory)
+ */
+
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { findContainingRoot } from './workspace.js';
+
+export type BackupStrategy = 'sibling' | 'directory' | 'none';
+
+const BACKUP_STRATEGIES: readonly BackupStrategy[] = ['sibling', 'directory', 'none'];
+
+/**
+ * Backup settings
+ */
+export interface BackupConfig {
+  /** Where backups go (default: sibling) */
+  strategy: BackupStrategy;
+  /** Base directory for the directory strategy */
+  directory: string;
+}
+
+/** Default base directory for the directory strategy */
+export const DEFAULT_BACKUP_DIRECTORY = path.join(
+  process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), '.cache'),
+  'mcp-multi-edit'
+);
+
+/** Sibling backup generations kept per file: `<file>.bak` and `<file>.1.bak` to `<file>.4.bak` */
+export const MAX_SIBLING_BACKUPS = 5;
+
+let config: BackupConfig = { strategy: 'sibling', directory: DEFAULT_BACKUP_DIRECTORY };
+
+/**
+ * Get the active backup settings
+ */
+export function getBackupConfig(): BackupConfig {
+  return config;
+}
+
+/**
+ * Replace parts of the active backup settings
+ */
+export function setBackupConfig(next: Partial<BackupConfig>): void {
+  config = {
+    strategy: next.strategy ?? config.strategy,
+    directory: path.resolve(next.directory ?? config.directory),
+  };
+}
+
+/**
+ * Parse --backup-strategy <sibling|directory|none> and --backup-dir <path> arguments
+ */
+export function parseBackupArgs(argv: string[]): Partial<BackupConfig> {
+  const parsed: Partial<BackupConfig> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.includes('=') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    if (flag !== '--backup-strategy' && flag !== '--backup-dir') {
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    if (flag === '--backup-dir') {
+      parsed.directory = value;
+    } else if ((BACKUP_STRATEGIES as readonly string[]).includes(value)) {
+      parsed.strategy = value as BackupStrategy;
+    } else {
+      throw new Error(`Invalid --backup-strategy "${value}": expected ${BACKUP_STRATEGIES.join(', ')}`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Format a timestamp for backup file names, e.g. 20261019T101530123Z
+ */
+export function formatBackupTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '');
+}
+
+/**
+ * Base path (without generation suffix and .bak) of a directory-strategy backup
+ *
+ * Files inside a workspace root are mirrored under `<directory>/<root name>-<hash>/`,
+ * where the hash of the root path keeps projects with the same name apart.
+ * Other files are mirrored by their absolute path under `<directory>/_absolute/`.
+ */
+export function getDirectoryBackupBase(filePath: string, date: Date): string {
+  const root = findContainingRoot(filePath);
+  const stamp = formatBackupTimestamp(date);
+
+  if (root !== undefined) {
+    const rootHash = crypto.createHash('sha256').update(root).digest('hex').slice(0, 8);
+    const project = `${path.basename(root) || 'root'}-${rootHash}`;
+    return path.join(config.directory, project, `${path.relative(root, filePath)}.${stamp}`);
+  }
+
+  return path.join(config.directory, '_absolute', `${filePath.replace(/^[/\\]+/, '')}.${stamp}`);
+}
+
+/**
+ * Path of a sibling-strategy backup generation: `<file>.bak` for the newest, then `<file>.<n>.bak`
+ */
+export function getSiblingBackupPath(filePath: string, generation: number): string {
+  return generation === 0 ? `${filePath}.bak` : `${filePath}.${generation}.bak`;
+}
+
+/**
+ * Highest sibling backup generation of a file among the names in its directory (-1: none)
+ */
+export function findLatestSiblingGeneration(names: string[], fileName: string): number {
+  let latest = -1;
+  for (const name of names) {
+    if (name === `${fileName}.bak`) {
+      latest = Math.max(latest, 0);
+      continue;
+    }
+    if (!name.startsWith(`${fileName}.`) || !name.endsWith('.bak')) {
+      continue;
+    }
+    const generation = name.slice(fileName.length + 1, -'.bak'.length);
+    if (/^[1-9]\d*$/.test(generation)) {
+      latest = Math.max(latest, Number(generation));
+    }
+  }
+  return latest;
+}
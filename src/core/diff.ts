@@ -0,0 +1,253 @@
+/**
+ * Line diff and unified-diff formatting for dry-run previews
+ *
+ * Lines are compared with Myers' O(ND) algorithm after trimming the common
+ * prefix and suffix, then grouped into `@@ -a,b +c,d @@` hunks with context.
+ * Each line keeps its terminator while diffing, so a missing final newline is
+ * a change like any other and is marked the way patch and git apply expect.
+ */
+
+import type { DiffFormat } from '../types/index.js';
+
+/** Default number of unchanged lines shown around each change */
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Above this edit distance the middle of the diff is reported as one block
+ * replacement; the Myers trace grows with the square of the distance.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** One line of a diff */
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  /** Line including its terminator ('\n', or none for a last line without one) */
+  text: string;
+}
+
+/**
+ * Paths and options for a unified diff
+ */
+export interface UnifiedDiffOptions {
+  /** Path shown for the original side (null: the file did not exist) */
+  old_path: string | null;
+  /** Path shown for the new side (null: the file was deleted) */
+  new_path: string | null;
+  /** Unchanged lines around each change (default 3) */
+  context_lines?: number;
+  /** unified: plain --- / +++ headers; git: a diff --git header that git apply accepts */
+  format?: DiffFormat;
+}
+
+/**
+ * Split content into lines that keep their '\n' (a last line without one stays bare)
+ */
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n').map(line => `${line}\n`);
+  if (content.endsWith('\n')) {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] = lines[lines.length - 1].slice(0, -1);
+  }
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers), after trimming the shared ends
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (text: string): DiffLine => ({ type: 'equal', text });
+  return [
+    ...a.slice(0, prefix).map(equal),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(equal),
+  ];
+}
+
+/**
+ * Myers' greedy algorithm with a trace of the furthest paths for backtracking
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffLine[] => [
+    ...a.map((text): DiffLine => ({ type: 'delete', text })),
+    ...b.map((text): DiffLine => ({ type: 'insert', text })),
+  ];
+  if (n === 0 || m === 0) {
+    return replaceAll();
+  }
+
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(offset, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, d);
+      }
+    }
+  }
+
+  return replaceAll();
+}
+
+/**
+ * Walk the trace back from (n, m) to (0, 0), collecting the edit script
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[], distance: number): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = distance; d > 0; d--) {
+    // trace[d] holds v[-d .. d + 1] as it was before step d
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      lines.push({ type: 'insert', text: b[--y] });
+    } else {
+      lines.push({ type: 'delete', text: a[--x] });
+    }
+  }
+  while (x > 0) {
+    lines.push({ type: 'equal', text: a[--x] });
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Hunk range: "start,count", with start on the line before an empty range
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start - 1},0`;
+  }
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Group a line diff into hunks with up to contextLines unchanged lines around each change
+ */
+function formatHunks(lines: DiffLine[], contextLines: number): string[] {
+  const output: string[] = [];
+  const changed = lines.flatMap((line, i) => line.type === 'equal' ? [] : [i]);
+
+  let next = 0;
+  while (next < changed.length) {
+    // Extend the hunk while the gap to the next change fits in the surrounding context
+    let last = next;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] - 1 <= 2 * contextLines) {
+      last++;
+    }
+    const start = Math.max(0, changed[next] - contextLines);
+    const end = Math.min(lines.length, changed[last] + contextLines + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== 'insert') oldLine++;
+      if (line.type !== 'delete') newLine++;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+
+    output.push(`@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`);
+    for (const line of hunk) {
+      const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+      if (line.text.endsWith('\n')) {
+        output.push(`${marker}${line.text.slice(0, -1)}`);
+      } else {
+        output.push(`${marker}${line.text}`, '\\ No newline at end of file');
+      }
+    }
+
+    next = last + 1;
+  }
+
+  return output;
+}
+
+/**
+ * Format the change from one content to another as a unified diff
+ *
+ * Returns an empty string when nothing changed (and the file was not moved).
+ * The git format prefixes paths with a/ and b/ and adds the diff --git,
+ * new file, deleted file and rename lines git apply needs; the caller passes
+ * paths relative to the repository.
+ */
+export function formatUnifiedDiff(
+  originalContent: string,
+  newContent: string,
+  options: UnifiedDiffOptions
+): string {
+  const { old_path, new_path } = options;
+  const contextLines = options.context_lines ?? DEFAULT_CONTEXT_LINES;
+  const moved = old_path !== null && new_path !== null && old_path !== new_path;
+
+  const hunks = originalContent === newContent
+    ? []
+    : formatHunks(diffLines(splitLines(originalContent), splitLines(newContent)), contextLines);
+  const created = old_path === null;
+  const deleted = new_path === null;
+  if (hunks.length === 0 && !moved && !created && !deleted) {
+    return '';
+  }
+
+  const output: string[] = [];
+  if (options.format === 'git') {
+    const headerOld = old_path ?? new_path!;
+    const headerNew = new_path ?? old_path!;
+    output.push(`diff --git a/${headerOld} b/${headerNew}`);
+    if (created) output.push('new file mode 100644');
+    if (deleted) output.push('deleted file mode 100644');
+    if (moved) output.push(`rename from ${old_path}`, `rename to ${new_path}`);
+    if (hunks.length > 0) {
+      output.push(
+        `--- ${created ? '/dev/null' : `a/${old_path}`}`,
+        `+++ ${deleted ? '/dev/null' : `b/${new_path}`}`
+      );
+    }
+  } else {
+    output.push(`--- ${old_path ?? '/dev/null'}`, `+++ ${new_path ?? '/dev/null'}`);
+  }
+
+  return [...output, ...hunks].join('\n') + '\n';
+}
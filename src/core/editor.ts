@@ -5,10 +5,43 @@
  */
 
 import * as fs from 'fs/promises';
+import type { Stats } from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { isUtf8 } from 'buffer';
-import type { EditOperation, EditResult, MultiEditResult } from '../types/index.js';
+import type {
+  EditChange,
+  EditFailure,
+  EditOp,
+  EditOperation,
+  EditResult,
+  ErrorCode,
+  FailedEdit,
+  FileEncoding,
+  FileFormat,
+  LineRange,
+  MatchMode,
+  MetadataIssue,
+  MultiEditResult,
+  WriteOutcome,
+} from '../types/index.js';
+import {
+  getBackupConfig,
+  getDirectoryBackupBase,
+  getSiblingBackupPath,
+  findLatestSiblingGeneration,
+  MAX_SIBLING_BACKUPS,
+} from './backup.js';
+import { recordEditHistory } from './history.js';
+import {
+  DEFAULT_ENCODING,
+  detectEncoding,
+  decodeText,
+  encodeText,
+  checkEncodable,
+} from './encoding.js';
+import type { EncodedText } from './encoding.js';
+import { classifyError, createCodedError, isCodedError } from './errors.js';
 
 /**
  * Get line number for a character index in content (1-based)
@@ -19,29 +52,50 @@ export function getLineNumber(content: string, charIndex: number): number {
 }
 
 /**
- * Find all match positions of a string in content
+ * Find every match of a string in content as [start, end) character spans
+ * Case-insensitive matching runs on the original text, so each span covers the
+ * matched characters even where lowercasing would change their length ("İ").
  * @param content - The content to search in
  * @param searchString - The string to find
  * @param caseInsensitive - Whether to match case-insensitively
- * @returns Array of character indices where matches start
  */
-export function findAllMatchPositions(
+export function findAllMatchSpans(
   content: string,
   searchString: string,
   caseInsensitive: boolean = false
-): number[] {
+): Array<{ start: number; end: number }> {
   if (!searchString) return [];
 
-  const positions: number[] = [];
-  const searchIn = caseInsensitive ? content.toLowerCase() : content;
-  const searchFor = caseInsensitive ? searchString.toLowerCase() : searchString;
+  if (caseInsensitive) {
+    const regex = new RegExp(escapeRegExp(searchString), 'gi');
+    return Array.from(content.matchAll(regex), match => {
+      const start = match.index ?? 0;
+      return { start, end: start + match[0].length };
+    });
+  }
 
+  const spans: Array<{ start: number; end: number }> = [];
   let pos = 0;
-  while ((pos = searchIn.indexOf(searchFor, pos)) !== -1) {
-    positions.push(pos);
-    pos += searchFor.length;
+  while ((pos = content.indexOf(searchString, pos)) !== -1) {
+    spans.push({ start: pos, end: pos + searchString.length });
+    pos += searchString.length;
   }
-  return positions;
+  return spans;
+}
+
+/**
+ * Find all match positions of a string in content
+ * @param content - The content to search in
+ * @param searchString - The string to find
+ * @param caseInsensitive - Whether to match case-insensitively
+ * @returns Array of character indices where matches start
+ */
+export function findAllMatchPositions(
+  content: string,
+  searchString: string,
+  caseInsensitive: boolean = false
+): number[] {
+  return findAllMatchSpans(content, searchString, caseInsensitive).map(span => span.start);
 }
 
 /**
@@ -56,6 +110,447 @@ export function getMatchLineNumbers(
   return positions.map(pos => getLineNumber(content, pos));
 }
 
+/**
+ * A located match of an edit in content, with the text that replaces it
+ */
+export interface MatchSpan {
+  /** Character index where the match starts */
+  start: number;
+  /** Character index just past the end of the match */
+  end: number;
+  /** Text to substitute for the matched span */
+  replacement: string;
+}
+
+/**
+ * Build the global RegExp for a regex-mode edit
+ * @throws SyntaxError if the pattern or flags are invalid
+ */
+export function buildEditRegex(
+  pattern: string,
+  flags: string = '',
+  caseInsensitive: boolean = false
+): RegExp {
+  let allFlags = flags.replace(/g/g, '') + 'g';
+  if (caseInsensitive && !allFlags.includes('i')) {
+    allFlags += 'i';
+  }
+  return new RegExp(pattern, allFlags);
+}
+
+/**
+ * Expand a String.prototype.replace-style template for a single regex match
+ *
+ * Supports $$, $&, $`, $', $1..$99 and $<name>. Unknown references are kept literally,
+ * matching the behaviour of String.prototype.replace.
+ */
+export function expandReplacement(template: string, match: RegExpMatchArray): string {
+  const input = match.input ?? '';
+  const index = match.index ?? 0;
+  const groupCount = match.length - 1;
+
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (ref === '`') return input.slice(0, index);
+    if (ref === "'") return input.slice(index + match[0].length);
+    if (name !== undefined) {
+      if (!match.groups) return token;
+      return match.groups[name] ?? '';
+    }
+    const twoDigit = parseInt(ref, 10);
+    if (ref.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+      return match[twoDigit] ?? '';
+    }
+    const oneDigit = parseInt(ref[0], 10);
+    if (oneDigit >= 1 && oneDigit <= groupCount) {
+      return (match[oneDigit] ?? '') + ref.slice(1);
+    }
+    return token;
+  });
+}
+
+/**
+ * Apply the casing style of matched text to a replacement
+ *
+ * Recognises UPPER, lower, Capitalized and camelCase-style (lowercase first letter) matches.
+ * Replacements for mixed-case matches keep their own casing after the first letter.
+ */
+export function matchCase(matched: string, replacement: string): string {
+  if (!replacement) return replacement;
+
+  const upper = matched.toUpperCase();
+  const lower = matched.toLowerCase();
+  if (upper === lower) {
+    // No cased letters to take a style from
+    return replacement;
+  }
+  if (matched === upper) {
+    return replacement.toUpperCase();
+  }
+  if (matched === lower) {
+    return replacement.toLowerCase();
+  }
+
+  const firstLetter = matched.match(/\p{L}/u)?.[0] ?? '';
+  const head = replacement[0];
+  const rest = replacement.slice(1);
+  return firstLetter === firstLetter.toUpperCase()
+    ? head.toUpperCase() + rest
+    : head.toLowerCase() + rest;
+}
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Leading horizontal whitespace of a line
+ */
+function leadingWhitespace(line: string): string {
+  return line.match(/^[ \t]*/)![0];
+}
+
+/**
+ * Build a RegExp source matching old_string with whitespace tolerance
+ *
+ * ignore_whitespace: interior whitespace runs match any whitespace run; leading and
+ * trailing runs tolerate extra spaces/tabs but keep their line breaks.
+ * ignore_indentation: each line's leading spaces/tabs may differ, everything else is exact.
+ */
+export function buildTolerantPattern(
+  oldString: string,
+  mode: Exclude<MatchMode, 'exact'>
+): string {
+  if (mode === 'ignore_indentation') {
+    const lines = oldString.split('\n');
+    return lines
+      .map((line, i) => {
+        if (i === lines.length - 1 && line === '') return '';
+        const indent = leadingWhitespace(line);
+        const body = escapeRegExp(line.slice(indent.length));
+        // A first line without indentation may start mid-line, so keep it anchored exactly
+        return i > 0 || indent.length > 0 ? `[ \\t]*${body}` : body;
+      })
+      .join('\n');
+  }
+
+  const parts = oldString.split(/(\s+)/);
+  return parts
+    .map((part, i) => {
+      if (i % 2 === 0) return escapeRegExp(part);
+
+      const newlines = (part.match(/\n/g) ?? []).length;
+      const isLeading = i === 1 && parts[0] === '';
+      const isTrailing = i === parts.length - 2 && parts[parts.length - 1] === '';
+      if (isLeading) {
+        return '(?:[ \\t]*\\r?\\n)'.repeat(newlines) + '[ \\t]*';
+      }
+      if (isTrailing) {
+        return newlines === 0
+          ? '[ \\t]*'
+          : '[ \\t]*' + '\\r?\\n[ \\t]*'.repeat(newlines - 1) + '\\r?\\n';
+      }
+      return '\\s+';
+    })
+    .join('');
+}
+
+/**
+ * Re-indent new_string from old_string's indentation to the indentation of the matched block
+ *
+ * The reference line is the least-indented non-blank line of old_string that starts at a
+ * line start. Lines of new_string carrying its indentation get the matched indentation instead.
+ */
+export function reindentReplacement(
+  newString: string,
+  oldString: string,
+  matched: string
+): string {
+  const oldLines = oldString.split('\n');
+  const matchedLines = matched.split('\n');
+  const firstLineIndented = /^[ \t]/.test(oldLines[0]);
+
+  let ref = -1;
+  for (let i = 0; i < oldLines.length && i < matchedLines.length; i++) {
+    if (oldLines[i].trim() === '' || (i === 0 && !firstLineIndented)) continue;
+    if (ref === -1 || leadingWhitespace(oldLines[i]).length < leadingWhitespace(oldLines[ref]).length) {
+      ref = i;
+    }
+  }
+  if (ref === -1) return newString;
+
+  const fromIndent = leadingWhitespace(oldLines[ref]);
+  const toIndent = leadingWhitespace(matchedLines[ref]);
+  if (fromIndent === toIndent) return newString;
+
+  return newString
+    .split('\n')
+    .map((line, i) => {
+      if (line.trim() === '' || (i === 0 && !firstLineIndented)) return line;
+      return line.startsWith(fromIndent) ? toIndent + line.slice(fromIndent.length) : line;
+    })
+    .join('\n');
+}
+
+/**
+* Find every match of an edit in content and report which match mode produced them
+ *
+ * Literal edits match old_string exactly (optionally case-insensitively). With a
+ * whitespace-tolerant match_mode, exact matching is tried first and the tolerant
+ * pattern is only used when it finds nothing; the exact original span is replaced.
+ * Regex edits treat old_string as a pattern and expand capture references in new_string.
+ * With preserve_case, matching is case-insensitive and each replacement follows the match's casing.
+ * Only matches inside bounds (the edit's line_range) count, including when deciding
+ * whether exact matching found anything.
+ *
+ * @param bounds - Offsets matches must lie within (see getLineRangeOffsets); default: the whole content
+ * @throws SyntaxError if a regex edit has an invalid pattern
+ */
+export function locateEdit(
+  content: string,
+  edit: EditOperation,
+  bounds?: { start: number; end: number }
+): { spans: MatchSpan[]; matchMode: MatchMode } {
+  const preserveCase = edit.preserve_case ?? false;
+  const caseInsensitive = (edit.case_insensitive ?? false) || preserveCase;
+  const finish = (matched: string, replacement: string) =>
+    preserveCase ? matchCase(matched, replacement) : replacement;
+  const inBounds = (start: number, end: number) =>
+    bounds === undefined || (start >= bounds.start && end <= bounds.end);
+
+  if (edit.regex) {
+    const regex = buildEditRegex(edit.old_string, edit.flags, caseInsensitive);
+    const spans: MatchSpan[] = [];
+    for (const match of content.matchAll(regex)) {
+      const start = match.index ?? 0;
+      if (!inBounds(start, start + match[0].length)) continue;
+      spans.push({
+        start,
+        end: start + match[0].length,
+        replacement: finish(match[0], expandReplacement(edit.new_string, match)),
+      });
+    }
+    return { spans, matchMode: 'exact' };
+  }
+
+  const exactSpans = findAllMatchSpans(content, edit.old_string, caseInsensitive)
+    .filter(({ start, end }) => inBounds(start, end))
+    .map(({ start, end }) => ({
+      start,
+      end,
+      replacement: finish(content.slice(start, end), edit.new_string),
+    }));
+
+  const mode = edit.match_mode ?? 'exact';
+  if (mode === 'exact' || exactSpans.length > 0) {
+    return { spans: exactSpans, matchMode: 'exact' };
+  }
+
+  const pattern = buildTolerantPattern(edit.old_string, mode);
+  const regex = new RegExp(pattern, caseInsensitive ? 'gi' : 'g');
+  const spans: MatchSpan[] = [];
+  for (const match of content.matchAll(regex)) {
+    const start = match.index ?? 0;
+    if (match[0].length === 0 || !inBounds(start, start + match[0].length)) continue;
+    const replacement = mode === 'ignore_indentation'
+      ? reindentReplacement(edit.new_string, edit.old_string, match[0])
+      : edit.new_string;
+    spans.push({ start, end: start + match[0].length, replacement: finish(match[0], replacement) });
+  }
+  return { spans, matchMode: mode };
+}
+
+/**
+ * Find every match of an edit in content (within bounds, when given)
+ *
+ * @throws SyntaxError if a regex edit has an invalid pattern
+ */
+export function findEditMatches(
+  content: string,
+  edit: EditOperation,
+  bounds?: { start: number; end: number }
+): MatchSpan[] {
+  return locateEdit(content, edit, bounds).spans;
+}
+
+/**
+ * Turn a located match into the span an operation writes
+ *
+ * Inserts become zero-width spans before or after the anchor carrying new_string;
+ * deletes replace the match with nothing.
+ */
+export function toOperationSpan(span: MatchSpan, op: EditOp): MatchSpan {
+  switch (op) {
+    case 'insert_before':
+      return { start: span.start, end: span.start, replacement: span.replacement };
+    case 'insert_after':
+      return { start: span.end, end: span.end, replacement: span.replacement };
+    case 'delete':
+      return { ...span, replacement: '' };
+    default:
+      return span;
+  }
+}
+
+/**
+ * Replace match spans in content, working from end to start to preserve positions
+ */
+export function applyMatchSpans(content: string, spans: MatchSpan[]): string {
+  let result = content;
+  for (let i = spans.length - 1; i >= 0; i--) {
+    const span = spans[i];
+    result = result.substring(0, span.start) + span.replacement + result.substring(span.end);
+  }
+  return result;
+}
+
+/**
+ * Move an offset in content to where it ends up after spans are applied
+ *
+ * An offset inside a replaced span moves to the start or end of its replacement,
+ * and text inserted exactly at the offset lands before a start and after an end,
+ * so a recorded change never grows to include a later edit's neighbouring text.
+ */
+export function mapOffsetThroughSpans(offset: number, spans: MatchSpan[], side: 'start' | 'end'): number {
+  let shift = 0;
+  for (const span of spans) {
+    const delta = span.replacement.length - (span.end - span.start);
+    if (offset < span.start) {
+      break;
+    }
+    if (offset === span.start) {
+      if (span.start === span.end && side === 'start') {
+        shift += delta;
+        continue;
+      }
+      break;
+    }
+    if (offset < span.end) {
+      return span.start + shift + (side === 'start' ? 0 : span.replacement.length);
+    }
+    shift += delta;
+  }
+  return offset + shift;
+}
+
+/**
+ * 1-based line and column of a character offset
+ */
+function offsetToLineColumn(content: string, offset: number): { line: number; column: number } {
+  return {
+    line: getLineNumber(content, offset),
+    column: offset - (content.lastIndexOf('\n', offset - 1) + 1) + 1,
+  };
+}
+
+/**
+ * Character offsets spanned by an inclusive 1-based line range
+ *
+ * The end offset includes the final line's newline, so a multi-line match ending in a
+ * newline still fits. Returns null when the range starts past the last line; an end
+ * past the last line is clamped.
+ */
+export function getLineRangeOffsets(
+  content: string,
+  range: LineRange
+): { start: number; end: number } | null {
+  let line = 1;
+  let start = range.start === 1 ? 0 : -1;
+  let end = content.length;
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] !== '\n') continue;
+    line++;
+    if (line === range.start) start = i + 1;
+    if (line === range.end + 1) {
+      end = i + 1;
+      break;
+    }
+  }
+
+  return start === -1 ? null : { start, end };
+}
+
+/**
+ * Choose which matches an edit replaces
+ *
+ * occurrence selects 1-based matches (negative counts from the end); line_hint selects the
+ * match nearest a line; otherwise a single match, or every match with replace_all.
+ * Returns an error description and code instead when the selection cannot be satisfied.
+ */
+export function selectMatchSpans(
+  content: string,
+  spans: MatchSpan[],
+  edit: EditOperation
+): { selected: MatchSpan[] } | { error: string; code: ErrorCode } {
+  const lineNumbers = () => spans.map(span => getLineNumber(content, span.start)).join(', ');
+
+  if (edit.occurrence !== undefined) {
+    const requested = Array.isArray(edit.occurrence) ? edit.occurrence : [edit.occurrence];
+    const indices = new Set<number>();
+    for (const occurrence of requested) {
+      const index = occurrence > 0 ? occurrence - 1 : spans.length + occurrence;
+      if (occurrence === 0 || index < 0 || index >= spans.length) {
+        return {
+          error: `occurrence ${occurrence} is out of range, found ${spans.length} matches at lines ${lineNumbers()}`,
+          code: 'OCCURRENCE_OUT_OF_RANGE',
+        };
+      }
+      indices.add(index);
+    }
+    return { selected: [...indices].sort((a, b) => a - b).map(i => spans[i]) };
+  }
+
+  if (edit.line_hint !== undefined) {
+    const hint = edit.line_hint;
+    const distances = spans.map(span => {
+      const startLine = getLineNumber(content, span.start);
+      const endLine = getLineNumber(content, Math.max(span.start, span.end - 1));
+      return hint < startLine ? startLine - hint : hint > endLine ? hint - endLine : 0;
+    });
+    const nearest = Math.min(...distances);
+    const candidates = spans.filter((_, i) => distances[i] === nearest);
+    if (candidates.length > 1) {
+      const lines = candidates.map(span => getLineNumber(content, span.start)).join(', ');
+      return {
+        error: `Found ${candidates.length} matches at lines ${lines} equally near line_hint ${hint}. Use occurrence to pick one.`,
+        code: 'AMBIGUOUS_MATCH',
+      };
+    }
+    return { selected: candidates };
+  }
+
+  if (spans.length > 1 && !edit.replace_all) {
+    return {
+      error: `Found ${spans.length} matches at lines ${lineNumbers()}. Use replace_all: true to replace all occurrences.`,
+      code: 'AMBIGUOUS_MATCH',
+    };
+  }
+
+  return { selected: edit.replace_all ? spans : spans.slice(0, 1) };
+}
+
+/**
+ * Describe a line range for error messages, noting when earlier edits shaped the line numbers
+ */
+function describeLineRange(range: LineRange, editIndex: number): string {
+  const basis = editIndex > 0
+    ? ` (counted after edit${editIndex > 1 ? `s 1-${editIndex}` : ' 1'} applied)`
+    : '';
+  return `line_range ${range.start}-${range.end}${basis}`;
+}
+
+/**
+ * Describe an edit's search target for error messages
+ */
+function describeSearch(edit: EditOperation): string {
+  return edit.regex ? `Pattern /${edit.old_string}/${edit.flags ?? ''}` : `"${edit.old_string}"`;
+}
+
 /**
  * Replace string with case-insensitive support
  */
@@ -70,27 +565,57 @@ export function replaceStringCaseAware(
     return { content, replacedCount: 0 };
   }
 
-  const positions = findAllMatchPositions(content, oldString, caseInsensitive);
-  if (positions.length === 0) {
+  const spans = findAllMatchSpans(content, oldString, caseInsensitive);
+  if (spans.length === 0) {
     return { content, replacedCount: 0 };
   }
 
   if (replaceAll) {
     // Replace all occurrences from end to start to preserve positions
     let result = content;
-    for (let i = positions.length - 1; i >= 0; i--) {
-      const pos = positions[i];
-      result = result.substring(0, pos) + newString + result.substring(pos + oldString.length);
+    for (let i = spans.length - 1; i >= 0; i--) {
+      const { start, end } = spans[i];
+      result = result.substring(0, start) + newString + result.substring(end);
     }
-    return { content: result, replacedCount: positions.length };
+    return { content: result, replacedCount: spans.length };
   } else {
     // Replace only first occurrence
-    const pos = positions[0];
-    const result = content.substring(0, pos) + newString + content.substring(pos + oldString.length);
+    const { start, end } = spans[0];
+    const result = content.substring(0, start) + newString + content.substring(end);
     return { content: result, replacedCount: 1 };
   }
 }
 
+const BOM = '\uFEFF';
+
+/**
+ * Detect a file's byte order mark and dominant line ending
+ * A file with more CRLF than bare LF line breaks is CRLF; anything else is LF.
+ */
+export function detectFileFormat(content: string): FileFormat {
+  const crlfCount = content.split('\r\n').length - 1;
+  const lfCount = content.split('\n').length - 1 - crlfCount;
+  return {
+    line_ending: crlfCount > lfCount ? 'crlf' : 'lf',
+    bom: content.startsWith(BOM),
+  };
+}
+
+/**
+ * Rewrite an edit's line breaks to the file's line ending
+ * Regex patterns are left alone (a pattern can use \r?\n itself).
+ */
+export function adaptEditToFormat(edit: EditOperation, format: FileFormat): EditOperation {
+  const convert = (text: string) => format.line_ending === 'crlf'
+    ? text.replace(/\r?\n/g, '\r\n')
+    : text.replace(/\r\n/g, '\n');
+  return {
+    ...edit,
+    old_string: edit.regex ? edit.old_string : convert(edit.old_string),
+    new_string: convert(edit.new_string),
+  };
+}
+
 /**
  * Apply multiple edits to content (in-memory, no file I/O)
  *
@@ -98,17 +623,59 @@ export function replaceStringCaseAware(
  * Uses sequential simulation - each edit is validated and applied
  * to the result of previous edits.
  *
+ * The file's format is kept: edits are matched and inserted with the file's
+ * dominant line ending, and a byte order mark stays in front of the content
+ * (prepend_file inserts after it). The detected format is reported as file_format.
+ *
  * @param filePath - Path to file (used for error messages)
  * @param content - File content to edit
  * @param edits - Array of edit operations
  * @param dryRun - If true, mark as dry run in result
+ * @param validateAll - If true, skip failing edits and report all of them instead of stopping at the first
  * @returns Result of the multi-edit operation
  */
 export function applyEditsToContent(
   filePath: string,
   content: string,
   edits: EditOperation[],
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  validateAll: boolean = false
+): MultiEditResult {
+  const format = detectFileFormat(content);
+  const body = format.bom ? content.slice(BOM.length) : content;
+
+  const result = applyEditsInSequence(
+    filePath,
+    body,
+    edits.map(edit => adaptEditToFormat(edit, format)),
+    dryRun,
+    validateAll
+  );
+
+  // Report edits as submitted, not with adapted line endings
+  result.results.forEach((editResult, i) => {
+    if (editResult.old_string !== '') {
+      editResult.old_string = edits[i].old_string;
+    }
+  });
+  if (format.bom && result.final_content !== undefined) {
+    result.final_content = BOM + result.final_content;
+  }
+  result.file_format = format;
+  return result;
+}
+
+/**
+ * Apply edits one after another to content without a BOM
+ * With validateAll a failing edit is recorded and skipped, so later edits see
+ * the content as changed by the edits that did apply.
+ */
+function applyEditsInSequence(
+  filePath: string,
+  content: string,
+  edits: EditOperation[],
+  dryRun: boolean,
+  validateAll: boolean
 ): MultiEditResult {
   // Handle empty edits array
   if (edits.length === 0) {
@@ -123,16 +690,64 @@ export function applyEditsToContent(
   }
 
   const results: EditResult[] = [];
+  const failedEdits: FailedEdit[] = [];
   let currentContent = content;
+  // Changed ranges as offsets into currentContent, shifted as later edits apply
+  let changedRanges: Array<{ edit_index: number; start: number; end: number }> = [];
+  const recordSpans = (editIndex: number, spans: MatchSpan[]) => {
+    changedRanges = changedRanges.map(range => {
+      const start = mapOffsetThroughSpans(range.start, spans, 'start');
+      return { ...range, start, end: Math.max(start, mapOffsetThroughSpans(range.end, spans, 'end')) };
+    });
+    let shift = 0;
+    for (const span of spans) {
+      const start = span.start + shift;
+      changedRanges.push({ edit_index: editIndex, start, end: start + span.replacement.length });
+      shift += span.replacement.length - (span.end - span.start);
+    }
+  };
+
+  // Fail the call at edit i, or with validateAll record the failure and go on (undefined)
+  const fail = (i: number, code: ErrorCode, reason: string, matches: number): MultiEditResult | undefined => {
+    const error = `Edit ${i + 1} of ${edits.length} failed: ${reason}`;
+    if (validateAll) {
+      failedEdits.push({ edit_index: i, code, message: error });
+      results.push({ old_string: edits[i].old_string, matches, replaced: 0, success: false, error });
+      return undefined;
+    }
+    return {
+      success: false,
+      file_path: filePath,
+      edits_applied: i,
+      results,
+      error,
+      failure: { code },
+      failed_edit_index: i,
+      dry_run: dryRun,
+      final_content: currentContent,
+    };
+  };
 
   // Process each edit sequentially
   for (let i = 0; i < edits.length; i++) {
     const edit = edits[i];
-    const totalEdits = edits.length;
-    const caseInsensitive = edit.case_insensitive ?? false;
 
-    // Check for no-op edit (old_string === new_string)
-    if (edit.old_string === edit.new_string) {
+    const op = edit.op ?? 'replace';
+
+    // prepend_file / append_file need no search
+    if (op === 'prepend_file' || op === 'append_file') {
+      const at = op === 'prepend_file' ? 0 : currentContent.length;
+      const edgeSpans = [{ start: at, end: at, replacement: edit.new_string }];
+      currentContent = applyMatchSpans(currentContent, edgeSpans);
+      recordSpans(i, edgeSpans);
+      results.push({ old_string: '', matches: 1, replaced: 1, success: true, op });
+      continue;
+    }
+
+    // Check for no-op edit (old_string === new_string); regex templates and
+    // case-insensitive matches may still change text
+    const exactLiteral = !edit.regex && !edit.case_insensitive && !edit.preserve_case;
+    if (op === 'replace' && exactLiteral && edit.old_string === edit.new_string) {
       results.push({
         old_string: edit.old_string,
         matches: findOccurrences(currentContent, edit.old_string),
@@ -142,59 +757,106 @@ export function applyEditsToContent(
       continue;
     }
 
-    // Find all match positions
-    const positions = findAllMatchPositions(currentContent, edit.old_string, caseInsensitive);
-    const matchCount = positions.length;
+    // Limit matches to line_range, counted in the content after earlier edits
+    const rangeLabel = edit.line_range ? describeLineRange(edit.line_range, i) : '';
+    let bounds: { start: number; end: number } | undefined;
+    if (edit.line_range) {
+      bounds = getLineRangeOffsets(currentContent, edit.line_range) ?? undefined;
+      if (!bounds) {
+        const lineCount = currentContent.split('\n').length;
+        const failed = fail(
+          i, 'INVALID_LINE_RANGE', `${rangeLabel} is beyond the end of the content (${lineCount} lines)`, 0
+        );
+        if (failed) return failed;
+        continue;
+      }
+    }
+
+    // Find all matches (inside line_range, before an exact match elsewhere can rule out match_mode)
+    let spans: MatchSpan[];
+    let matchMode: MatchMode;
+    try {
+      ({ spans, matchMode } = locateEdit(currentContent, edit, bounds));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const failed = fail(i, 'INVALID_REGEX', `Invalid regular expression /${edit.old_string}/: ${reason}`, 0);
+      if (failed) return failed;
+      continue;
+    }
+    const matchCount = spans.length;
 
     // Zero matches is an error
     if (matchCount === 0) {
-      return {
-        success: false,
-        file_path: filePath,
-        edits_applied: i,
-        results,
-        error: `Edit ${i + 1} of ${totalEdits} failed: "${edit.old_string}" not found in file`,
-        failed_edit_index: i,
-        dry_run: dryRun,
-        final_content: currentContent,
-      };
+      const where = edit.line_range ? `within ${rangeLabel}` : 'in file';
+      const failed = fail(i, 'MATCH_NOT_FOUND', `${describeSearch(edit)} not found ${where}`, 0);
+      if (failed) return failed;
+      continue;
     }
 
-    // Multiple matches without replace_all is an error
-    if (matchCount > 1 && !edit.replace_all) {
-      const lineNumbers = positions.map(pos => getLineNumber(currentContent, pos));
-      return {
-        success: false,
-        file_path: filePath,
-        edits_applied: i,
-        results,
-        error: `Edit ${i + 1} of ${totalEdits} failed: Found ${matchCount} matches at lines ${lineNumbers.join(', ')}. Use replace_all: true to replace all occurrences.`,
-        failed_edit_index: i,
-        dry_run: dryRun,
-        final_content: currentContent,
-      };
+    // Select the matches to replace (ambiguity and occurrence range checks)
+    const selection = selectMatchSpans(currentContent, spans, edit);
+    if ('error' in selection) {
+      const failed = fail(i, selection.code, selection.error, matchCount);
+      if (failed) return failed;
+      continue;
     }
 
     // Apply the edit
-    const { content: newContent, replacedCount } = replaceStringCaseAware(
-      currentContent,
-      edit.old_string,
-      edit.new_string,
-      edit.replace_all ?? false,
-      caseInsensitive
-    );
+    const appliedSpans = selection.selected.map(span => toOperationSpan(span, op));
+    const newContent = applyMatchSpans(currentContent, appliedSpans);
+    recordSpans(i, appliedSpans);
 
-    results.push({
+    const editResult: EditResult = {
       old_string: edit.old_string,
       matches: matchCount,
-      replaced: replacedCount,
+      replaced: appliedSpans.length,
       success: true,
-    });
+    };
+    if (op !== 'replace') {
+      editResult.op = op;
+    }
+    if (edit.match_mode && edit.match_mode !== 'exact') {
+      editResult.match_mode = matchMode;
+    }
+    if (edit.line_range) {
+      editResult.line_range = edit.line_range;
+    }
+    results.push(editResult);
 
     currentContent = newContent;
   }
 
+  if (failedEdits.length > 0) {
+    const [first] = failedEdits;
+    return {
+      success: false,
+      file_path: filePath,
+      edits_applied: results.filter(r => r.success).length,
+      results,
+      error: first.message,
+      failure: { code: first.code },
+      failed_edit_index: first.edit_index,
+      failed_edits: failedEdits,
+      dry_run: dryRun,
+      final_content: currentContent,
+    };
+  }
+
   // All edits succeeded
+  const changes = changedRanges
+    .map((range): EditChange => {
+      const start = offsetToLineColumn(currentContent, range.start);
+      const end = offsetToLineColumn(currentContent, range.end);
+      return {
+        edit_index: range.edit_index,
+        start_line: start.line,
+        start_column: start.column,
+        end_line: end.line,
+        end_column: end.column,
+      };
+    })
+    .sort((a, b) => a.edit_index - b.edit_index || a.start_line - b.start_line || a.start_column - b.start_column);
+
   return {
     success: true,
     file_path: filePath,
@@ -202,53 +864,288 @@ export function applyEditsToContent(
     results,
     dry_run: dryRun,
     final_content: currentContent,
+    changes,
+  };
+}
+
+/**
+ * Compute the SHA-256 digest of file content
+ *
+ * Strings are hashed as UTF-8; hash encodeText(content, encoding) for files in other encodings.
+ *
+ * @param content - File content or raw bytes
+ * @returns Lowercase hex digest
+ */
+export function computeSha256(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compare a file's hash and mtime against the expected_sha256 / expected_mtime the caller last saw
+ *
+ * @param current - SHA-256 of the file's bytes and its mtime in whole milliseconds
+ * @param expected - Values the caller passed; absent ones are not checked
+ * @returns One description per value that differs (empty when the file is as expected)
+ */
+export function findContentMismatches(
+  current: { sha256: string; mtime_ms: number },
+  expected: { expected_sha256?: string; expected_mtime?: string }
+): string[] {
+  const mismatches: string[] = [];
+  if (expected.expected_sha256 !== undefined &&
+      expected.expected_sha256.toLowerCase() !== current.sha256) {
+    mismatches.push(`sha256 is ${current.sha256}, expected ${expected.expected_sha256}`);
+  }
+  if (expected.expected_mtime !== undefined &&
+      Date.parse(expected.expected_mtime) !== current.mtime_ms) {
+    mismatches.push(`mtime is ${new Date(current.mtime_ms).toISOString()}, expected ${expected.expected_mtime}`);
+  }
+  return mismatches;
+}
+
+/**
+ * STALE_CONTENT failure for content that is not in the state the caller expected, if it is not
+ */
+export function checkContentState(
+  filePath: string,
+  current: { sha256: string; mtime_ms: number },
+  expected: { expected_sha256?: string; expected_mtime?: string }
+): { error: string; failure: EditFailure } | undefined {
+  const mismatches = findContentMismatches(current, expected);
+  if (mismatches.length === 0) {
+    return undefined;
+  }
+  return {
+    error: `File changed since it was read: ${filePath} (${mismatches.join('; ')})`,
+    failure: {
+      code: 'STALE_CONTENT',
+      context: { current_sha256: current.sha256, current_mtime: new Date(current.mtime_ms).toISOString() },
+    },
   };
 }
 
 /**
- * Read file and validate it contains valid UTF-8 encoding
+ * Read file and decode it, validating the encoding
+ *
+ * The bytes and mtime come from one open handle, so sha256 and mtime_ms
+ * describe exactly the content returned.
  *
  * @param filePath - Absolute path to the file
- * @returns File content as string
- * @throws Error with user-friendly message if file can't be read or isn't valid UTF-8
+ * @param encoding - Encoding of the file (default: UTF-16 by byte order mark, else UTF-8)
+ * @returns File content, the bytes and encoding it was decoded from, and the hash and mtime of those bytes
+ * @throws Error with user-friendly message if file can't be read, with code INVALID_ENCODING if it isn't valid in the encoding
  */
-export async function readFileValidated(filePath: string): Promise<string> {
-  const buffer = await fs.readFile(filePath);
-  if (!isUtf8(buffer)) {
-    throw new Error(`File contains invalid UTF-8 encoding: ${filePath}. Ensure the file is UTF-8 encoded.`);
+export async function readTextFile(
+  filePath: string,
+  encoding?: FileEncoding
+): Promise<{ content: string; bytes: Buffer; encoding: FileEncoding; sha256: string; mtime_ms: number }> {
+  let buffer: Buffer;
+  let stats: Stats;
+  const handle = await fs.open(filePath, 'r');
+  try {
+    stats = await handle.stat();
+    buffer = await handle.readFile();
+  } finally {
+    await handle.close();
+  }
+  const detected = detectEncoding(buffer, encoding);
+  const read = { bytes: buffer, encoding: detected, sha256: computeSha256(buffer), mtime_ms: Math.trunc(stats.mtimeMs) };
+
+  if (detected === 'utf-8') {
+    if (!isUtf8(buffer)) {
+      throw createCodedError(
+        'INVALID_ENCODING',
+        `File contains invalid UTF-8 encoding: ${filePath}. Ensure the file is UTF-8 encoded, or pass its encoding.`
+      );
+    }
+    return { content: buffer.toString('utf8'), ...read };
+  }
+
+  try {
+    return { content: decodeText(buffer, detected), ...read };
+  } catch {
+    throw createCodedError(
+      'INVALID_ENCODING',
+      `File contains invalid ${detected} encoding: ${filePath}. Check the encoding passed for the file.`
+    );
   }
-  return buffer.toString('utf8');
 }
 
 /**
- * Write file atomically using temp-file-then-rename pattern
+ * Read file and validate its encoding (UTF-8 unless given or detected by BOM)
  *
- * Creates a temp file in the same directory, writes content, then renames.
- * This ensures the file is never left in a partial state.
+ * @param filePath - Absolute path to the file
+ * @param encoding - Encoding of the file (default: UTF-16 by byte order mark, else UTF-8)
+ * @returns File content as string
+ * @throws Error with user-friendly message if file can't be read or isn't valid in the encoding
+ */
+export async function readFileValidated(filePath: string, encoding?: FileEncoding): Promise<string> {
+  return (await readTextFile(filePath, encoding)).content;
+}
+
+/**
+ * Write content to a temp file next to the target, without touching the target
+ *
+ * First half of atomicWrite: the returned temp path is later renamed over the
+ * target with commitStagedWrite, or removed with discardStagedWrite.
  *
  * @param filePath - Absolute path to the target file
  * @param content - Content to write
- * @throws Error if write or rename fails
+ * @param encoding - Encoding to write the content in (default: UTF-8)
+ * @param original - Text the content was edited from, whose bytes unchanged text keeps (see encodeText)
+ * @returns Path of the temp file
+ * @throws Error if the content cannot be encoded or the write fails (the temp file is cleaned up)
  */
-export async function atomicWrite(filePath: string, content: string): Promise<void> {
+export async function stageWrite(
+  filePath: string,
+  content: string,
+  encoding: FileEncoding = DEFAULT_ENCODING,
+  original?: EncodedText
+): Promise<string> {
+  const bytes = encodeText(content, encoding, filePath, original);
   const dir = path.dirname(filePath);
   const tempSuffix = crypto.randomBytes(6).toString('hex');
   const tempPath = path.join(dir, `.${path.basename(filePath)}.${tempSuffix}.tmp`);
 
   try {
-    await fs.writeFile(tempPath, content, 'utf8');
-    await fs.rename(tempPath, filePath);
+    await fs.writeFile(tempPath, bytes);
   } catch (error) {
-    // Clean up temp file on error
+    await discardStagedWrite(tempPath);
+    throw error;
+  }
+  return tempPath;
+}
+
+/**
+ * Give a staged temp file the owner and mode of the file it replaces
+ * Owner first: chown clears setuid/setgid bits, which chmod then restores.
+ */
+async function copyMetadata(tempPath: string, original: Stats): Promise<MetadataIssue[]> {
+  const issues: MetadataIssue[] = [];
+  const staged = await fs.stat(tempPath);
+
+  if (staged.uid !== original.uid || staged.gid !== original.gid) {
     try {
-      await fs.unlink(tempPath);
-    } catch {
-      // Ignore cleanup errors - temp file may not exist
+      await fs.chown(tempPath, original.uid, original.gid);
+    } catch (error) {
+      issues.push({ field: 'owner', error: formatMetadataError(error, `uid ${original.uid}, gid ${original.gid}`) });
+    }
+  }
+  try {
+    await fs.chmod(tempPath, original.mode & 0o7777);
+  } catch (error) {
+    issues.push({ field: 'mode', error: formatMetadataError(error, `mode ${(original.mode & 0o7777).toString(8)}`) });
+  }
+
+  return issues;
+}
+
+function formatMetadataError(error: unknown, wanted: string): string {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return `Could not keep ${wanted}: ${message}`;
+}
+
+/**
+ * Replace a file with a staged temp file (second half of atomicWrite)
+ *
+ * The temp file takes over the target's mode and, where permitted, its owner
+ * before the rename. A hard-linked target (nlink > 1) is overwritten in place
+ * instead, since a rename would split it from its other links; that write is
+ * not atomic, but the file keeps its inode and therefore all its metadata.
+ *
+ * @param tempPath - Temp file from stageWrite
+ * @param filePath - Absolute path to the target file (need not exist)
+ * @returns How the file was written and which metadata could not be kept
+ * @throws Error if the rename or in-place write fails
+ */
+export async function commitStagedWrite(tempPath: string, filePath: string): Promise<WriteOutcome> {
+  let original: Stats | undefined;
+  try {
+    original = await fs.stat(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
     }
+  }
+
+  if (original !== undefined && original.nlink > 1) {
+    await fs.writeFile(filePath, await fs.readFile(tempPath));
+    await discardStagedWrite(tempPath);
+    return { in_place: true, metadata_not_preserved: [] };
+  }
+
+  const issues = original !== undefined ? await copyMetadata(tempPath, original) : [];
+  await fs.rename(tempPath, filePath);
+  return { in_place: false, metadata_not_preserved: issues };
+}
+
+/**
+ * Remove a staged temp file that will not be committed
+ */
+export async function discardStagedWrite(tempPath: string): Promise<void> {
+  try {
+    await fs.unlink(tempPath);
+  } catch {
+    // Ignore cleanup errors - temp file may not exist
+  }
+}
+
+/**
+ * Write file atomically using temp-file-then-rename pattern
+ *
+ * Creates a temp file in the same directory, writes content, then renames.
+ * This ensures the file is never left in a partial state. Mode and owner are
+ * kept, and hard-linked files are overwritten in place (see commitStagedWrite).
+ *
+ * @param filePath - Absolute path to the target file
+ * @param content - Content to write
+ * @param encoding - Encoding to write the content in (default: UTF-8)
+ * @param original - Text the content was edited from, whose bytes unchanged text keeps (see encodeText)
+ * @returns How the file was written and which metadata could not be kept
+ * @throws Error if encoding, write or rename fails
+ */
+export async function atomicWrite(
+  filePath: string,
+  content: string,
+  encoding: FileEncoding = DEFAULT_ENCODING,
+  original?: EncodedText
+): Promise<WriteOutcome> {
+  const tempPath = await stageWrite(filePath, content, encoding, original);
+  try {
+    return await commitStagedWrite(tempPath, filePath);
+  } catch (error) {
+    // Clean up temp file on error
+    await discardStagedWrite(tempPath);
     throw error;
   }
 }
 
+/**
+ * Delete a file from disk
+ *
+ * Used by multi-file transactions for delete entries and for removing
+ * created files during rollback.
+ *
+ * @param filePath - Absolute path to the file to delete
+ * @throws Error if unlink fails
+ */
+export async function deleteFile(filePath: string): Promise<void> {
+  await fs.unlink(filePath);
+}
+
+/**
+ * Move a file to a new path with a single rename
+ *
+ * Keeps the file's inode, so permissions and ownership travel with it.
+ *
+ * @param fromPath - Absolute path of the file to move
+ * @param toPath - Absolute destination path (must not exist)
+ * @throws Error if rename fails (including EXDEV across file systems)
+ */
+export async function moveFile(fromPath: string, toPath: string): Promise<void> {
+  await fs.rename(fromPath, toPath);
+}
+
 /**
  * Format file operation errors into user-friendly messages with recovery hints
  *
@@ -276,22 +1173,122 @@ export function formatFileError(error: unknown, filePath: string): string {
   return `Unknown file error: ${filePath}`;
 }
 
+/**
+ * Run one step of a backup, turning a failure into a BACKUP_FAILED error that
+ * names the path the step was working on.
+ */
+async function backupStep<T>(backupPath: string, step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    throw createCodedError('BACKUP_FAILED', formatBackupError(error, backupPath));
+  }
+}
+
+/**
+ * Write a sibling backup as `<file>.bak`, after shifting the older generations
+ * one number up (`<file>.bak` -> `<file>.1.bak` -> ...) and dropping the oldest
+ * beyond MAX_SIBLING_BACKUPS. The new copy is written to a temp file first, so a
+ * failed write leaves the existing generations untouched.
+ */
+async function rotateSiblingBackup(filePath: string, bytes: Buffer, mode: number): Promise<string> {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.bak.${crypto.randomBytes(6).toString('hex')}.tmp`);
+  await backupStep(tempPath, async () => {
+    try {
+      await fs.writeFile(tempPath, bytes, { flag: 'wx' });
+      await fs.chmod(tempPath, mode);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  });
+
+  try {
+    const latest = findLatestSiblingGeneration(await backupStep(dir, () => fs.readdir(dir)), path.basename(filePath));
+    for (let generation = latest; generation >= MAX_SIBLING_BACKUPS - 1; generation--) {
+      const oldest = getSiblingBackupPath(filePath, generation);
+      await backupStep(oldest, () => fs.rm(oldest, { force: true }));
+    }
+    for (let generation = Math.min(latest, MAX_SIBLING_BACKUPS - 2); generation >= 0; generation--) {
+      const from = getSiblingBackupPath(filePath, generation);
+      const to = getSiblingBackupPath(filePath, generation + 1);
+      await backupStep(to, async () => {
+        try {
+          await fs.rename(from, to);
+        } catch (error) {
+          // A gap in the numbering (or a generation rotated away concurrently)
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      });
+    }
+
+    const backupPath = getSiblingBackupPath(filePath, 0);
+    await backupStep(backupPath, () => fs.rename(tempPath, backupPath));
+    return backupPath;
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
 /**
  * Create a backup (.bak) file preserving original content and permissions
  *
+ * Follows the configured backup strategy: the newest of rotated generations next
+ * to the file (sibling: `<file>.bak`, then `<file>.1.bak`, ...), a new timestamped
+ * generation in the backup directory (directory), or nothing (none).
+ *
  * @param filePath - Absolute path to the original file
  * @param content - Original file content to back up
- * @returns Path to the backup file
- * @throws Error if stat, write, or chmod fails
+ * @param encoding - Encoding of the original file, kept in the backup (default: UTF-8)
+ * @param original - The content with the bytes it was read from, copied exactly into the backup
+ * @returns Path to the backup file, or undefined when the strategy is none
+ * @throws CodedError (BACKUP_FAILED) naming the path that could not be read, created, written or renamed
  */
 export async function createBackup(
   filePath: string,
-  content: string
-): Promise<string> {
-  const backupPath = `${filePath}.bak`;
-  const stats = await fs.stat(filePath);
-  await fs.writeFile(backupPath, content, 'utf8');
-  await fs.chmod(backupPath, stats.mode & 0o7777);
+  content: string,
+  encoding: FileEncoding = DEFAULT_ENCODING,
+  original?: EncodedText
+): Promise<string | undefined> {
+  const { strategy } = getBackupConfig();
+  if (strategy === 'none') {
+    return undefined;
+  }
+
+  const stats = await backupStep(filePath, () => fs.stat(filePath));
+  const bytes = encodeText(content, encoding, filePath, original);
+  if (strategy === 'sibling') {
+    return rotateSiblingBackup(filePath, bytes, stats.mode & 0o7777);
+  }
+
+  const base = getDirectoryBackupBase(filePath, new Date());
+  await backupStep(path.dirname(base), () => fs.mkdir(path.dirname(base), { recursive: true }));
+
+  // Exclusive create so two backups in the same millisecond become separate generations
+  let backupPath = `${base}.bak`;
+  for (let generation = 1; ; generation++) {
+    const created = await backupStep(backupPath, async () => {
+      try {
+        await fs.writeFile(backupPath, bytes, { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        return false;
+      }
+    });
+    if (created) {
+      break;
+    }
+    backupPath = `${base}-${generation}.bak`;
+  }
+
+  await backupStep(backupPath, () => fs.chmod(backupPath, stats.mode & 0o7777));
   return backupPath;
 }
 
@@ -319,6 +1316,18 @@ export function formatBackupError(error: unknown, backupPath: string): string {
   return `Backup failed: Unknown error on ${backupPath}`;
 }
 
+/**
+ * Note on a result how its file was written, when that was not a plain rename with all metadata kept
+ */
+export function applyWriteOutcome(result: MultiEditResult, outcome: WriteOutcome): void {
+  if (outcome.in_place) {
+    result.written_in_place = true;
+  }
+  if (outcome.metadata_not_preserved.length > 0) {
+    result.metadata_not_preserved = outcome.metadata_not_preserved;
+  }
+}
+
 /**
  * Apply multiple edits to a file atomically
  *
@@ -326,18 +1335,29 @@ export function formatBackupError(error: unknown, backupPath: string): string {
  * @param edits - Array of edit operations
  * @param dryRun - If true, preview changes without applying
  * @param backup - If true, create .bak file before editing (default: true)
+ * @param encoding - Encoding of the file (default: UTF-16 by byte order mark, else UTF-8)
+ * @param validateAll - If true, try every edit and report all failures (nothing is written if any fail)
+ * @param expected - expected_sha256 / expected_mtime checked against the bytes actually edited
  * @returns Result of the multi-edit operation
  */
 export async function applyEdits(
   filePath: string,
   edits: EditOperation[],
   dryRun: boolean = false,
-  backup: boolean = true
+  backup: boolean = true,
+  encoding?: FileEncoding,
+  validateAll: boolean = false,
+  expected: { expected_sha256?: string; expected_mtime?: string } = {}
 ): Promise<MultiEditResult> {
   // 1. Read file content
   let content: string;
+  let fileEncoding: FileEncoding;
+  let original: EncodedText;
+  let current: { sha256: string; mtime_ms: number };
   try {
-    content = await readFileValidated(filePath);
+    let bytes: Buffer;
+    ({ content, bytes, encoding: fileEncoding, ...current } = await readTextFile(filePath, encoding));
+    original = { content, bytes };
   } catch (error) {
     return {
       success: false,
@@ -345,54 +1365,91 @@ export async function applyEdits(
       edits_applied: 0,
       results: [],
       error: formatFileError(error, filePath),
+      failure: { code: classifyError(error, filePath).error_code },
       dry_run: dryRun,
     };
   }
 
-  // 2. Create backup BEFORE any edits (if requested)
+  // The content about to be edited must be the one the caller last saw
+  const stale = checkContentState(filePath, current, expected);
+  if (stale) {
+    return { success: false, file_path: filePath, edits_applied: 0, results: [], ...stale, dry_run: dryRun };
+  }
+
+  // 2. Apply edits in memory, refusing characters the file's encoding cannot store
+  const result = applyEditsToContent(filePath, content, edits, dryRun, validateAll);
+  result.file_format = { ...result.file_format!, encoding: fileEncoding };
+  const unrepresentable = result.success
+    ? checkEncodable(result.final_content!, fileEncoding, filePath)
+    : undefined;
+  if (unrepresentable !== undefined) {
+    result.success = false;
+    result.error = unrepresentable;
+    result.failure = { code: 'UNREPRESENTABLE_CHARACTER' };
+  }
+
+  // 3. If edits failed or dry run, return (nothing is written, so nothing is backed up)
+  if (!result.success) {
+    return result;
+  }
+  if (dryRun) {
+    result.sha256 = current.sha256;
+    return result;
+  }
+
+  // 4. Create backup of the original content, now that the file will be written (if requested)
   let backupPath: string | undefined;
   if (backup) {
     try {
-      backupPath = await createBackup(filePath, content);
+      backupPath = await createBackup(filePath, content, fileEncoding, original);
     } catch (error) {
       return {
         success: false,
         file_path: filePath,
         edits_applied: 0,
         results: [],
-        error: formatBackupError(error, `${filePath}.bak`),
+        error: isCodedError(error) ? error.message : formatBackupError(error, filePath),
+        failure: { code: 'BACKUP_FAILED' },
         dry_run: dryRun,
       };
     }
   }
 
-  // 3. Apply edits in memory
-  const result = applyEditsToContent(filePath, content, edits, dryRun);
-
-  // 4. Attach backup_path to result (success OR failure)
+  // 5. Attach backup_path to result
   if (backupPath) {
     result.backup_path = backupPath;
   }
 
-  // 5. If edits failed or dry run, return (backup already created, path attached)
-  if (!result.success || dryRun) {
-    return result;
-  }
-
-  // 6. Write result atomically
+  // 6. Write result atomically, keeping the file's metadata
   try {
-    await atomicWrite(filePath, result.final_content!);
+    applyWriteOutcome(result, await atomicWrite(filePath, result.final_content!, fileEncoding, original));
   } catch (error) {
-    /* v8 ignore next 5 -- Defensive: atomicWrite uses temp-file-then-rename; failure here requires
+    /* v8 ignore next 6 -- Defensive: atomicWrite uses temp-file-then-rename; failure here requires
        fs.writeFile or fs.rename to throw after in-memory edits succeed. Cannot mock non-configurable
        ESM fs/promises imports in tests. Equivalent path tested via tool handler error paths. */
     return {
       ...result,
       success: false,
       error: formatFileError(error, filePath),
+      failure: { code: classifyError(error, filePath).error_code },
     };
   }
 
+  result.sha256 = computeSha256(encodeText(result.final_content!, fileEncoding, filePath, original));
+
+  // 7. Record the edit so undo_edit can revert it
+  const historyWarning = await recordEditHistory('multi_edit', [{
+    file_path: filePath,
+    operation: 'edit',
+    before_sha256: current.sha256,
+    after_sha256: result.sha256,
+    ...(backupPath !== undefined ? { backup_path: backupPath } : {}),
+    ...(fileEncoding !== DEFAULT_ENCODING ? { encoding: fileEncoding } : {}),
+  }]);
+  if (historyWarning !== undefined) {
+    result.history_warning = historyWarning;
+  }
+
   return result;
 }
 
@@ -0,0 +1,288 @@
+/**
+ * Text encodings for reading and writing edited files
+ *
+ * Files are decoded to strings for matching and encoded back to the bytes of
+ * their original encoding on write. UTF-16 files are recognised by their byte
+ * order mark; other non-UTF-8 encodings must be passed explicitly. A BOM stays
+ * in the decoded string, so it is written back like any other character.
+ */
+
+import type { FileEncoding } from '../types/index.js';
+import { createCodedError } from './errors.js';
+import type { CodedError } from './errors.js';
+import { splitLines, diffLines } from './diff.js';
+
+/**
+ * Decoded text together with the bytes it was decoded from
+ */
+export interface EncodedText {
+  content: string;
+  bytes: Buffer;
+}
+
+/** Default encoding of files without a UTF-16 byte order mark */
+export const DEFAULT_ENCODING: FileEncoding = 'utf-8';
+
+/**
+ * Pick the encoding of file bytes: the explicit one, else UTF-16 by BOM, else UTF-8
+ */
+export function detectEncoding(buffer: Buffer, encoding?: FileEncoding): FileEncoding {
+  if (encoding !== undefined) {
+    return encoding;
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return DEFAULT_ENCODING;
+}
+
+/**
+ * Decode file bytes, keeping any byte order mark as a leading U+FEFF
+ *
+ * @throws TypeError if the bytes are not valid in the encoding
+ */
+export function decodeText(buffer: Buffer, encoding: FileEncoding): string {
+  if (encoding === 'latin1') {
+    // TextDecoder treats latin1 as windows-1252; Buffer decodes true ISO-8859-1
+    return buffer.toString('latin1');
+  }
+  return new TextDecoder(encoding, { fatal: true, ignoreBOM: true }).decode(buffer);
+}
+
+/** Unicode character -> Shift-JIS bytes, built on first use from the decoder */
+let shiftJisTable: Map<string, Buffer> | undefined;
+
+function getShiftJisTable(): Map<string, Buffer> {
+  if (shiftJisTable !== undefined) {
+    return shiftJisTable;
+  }
+
+  const table = new Map<string, Buffer>();
+  const decoder = new TextDecoder('shift_jis', { fatal: true });
+  const add = (bytes: number[]) => {
+    let char: string;
+    try {
+      char = decoder.decode(Buffer.from(bytes));
+    } catch {
+      return;
+    }
+    // Several byte sequences decode to the same character; the first one wins (see encodeText)
+    if (char.length === 1 && !table.has(char)) {
+      table.set(char, Buffer.from(bytes));
+    }
+  };
+
+  for (let byte = 0x00; byte <= 0xff; byte++) {
+    add([byte]);
+  }
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead > 0x9f && lead < 0xe0) continue;
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail !== 0x7f) add([lead, trail]);
+    }
+  }
+
+  shiftJisTable = table;
+  return table;
+}
+
+/**
+ * Index of the first character that the encoding cannot represent, or -1
+ */
+export function findUnrepresentableCharacter(content: string, encoding: FileEncoding): number {
+  if (encoding === 'latin1') {
+    return content.search(/[^\u0000-\u00ff]/);
+  }
+  if (encoding === 'shift_jis') {
+    const table = getShiftJisTable();
+    for (let i = 0; i < content.length; i++) {
+      if (!table.has(content[i])) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Describe the first unrepresentable character of content, or undefined if it can be encoded
+ */
+export function checkEncodable(
+  content: string,
+  encoding: FileEncoding,
+  filePath: string
+): string | undefined {
+  const index = findUnrepresentableCharacter(content, encoding);
+  return index === -1 ? undefined : describeUnrepresentable(content, index, encoding, filePath);
+}
+
+/** Message naming the unrepresentable character at index, with its line and offset */
+function describeUnrepresentable(content: string, index: number, encoding: FileEncoding, filePath: string): string {
+  const char = String.fromCodePoint(content.codePointAt(index)!);
+  const codePoint = char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+  const line = content.slice(0, index).split('\n').length;
+  return `Character U+${codePoint} "${char}" at line ${line} (offset ${index}) cannot be encoded in ${encoding}: ${filePath}. ` +
+    `Use characters that ${encoding} can represent, or convert the file to UTF-8.`;
+}
+
+/**
+ * Error thrown by encodeText for a character the encoding cannot represent
+ */
+export type UnrepresentableCharacterError = CodedError & {
+  code: 'UNREPRESENTABLE_CHARACTER';
+  /** The character, as a full code point */
+  character: string;
+  /** Offset of the character in the content, in UTF-16 code units */
+  offset: number;
+};
+
+/**
+ * Encode content without regard to the bytes it was read from
+ */
+function encodeAll(content: string, encoding: FileEncoding): Buffer {
+  switch (encoding) {
+    case 'utf-8':
+      return Buffer.from(content, 'utf8');
+    case 'latin1':
+      return Buffer.from(content, 'latin1');
+    case 'utf-16le':
+      return Buffer.from(content, 'utf16le');
+    case 'utf-16be':
+      return Buffer.from(content, 'utf16le').swap16();
+    case 'shift_jis': {
+      const table = getShiftJisTable();
+      return Buffer.concat(Array.from(content, char => table.get(char)!));
+    }
+  }
+}
+
+/**
+ * Split bytes after each LF, like splitLines (a Shift-JIS trail byte is never 0x0A)
+ */
+function splitByteLines(bytes: Buffer): Buffer[] {
+  const lines: Buffer[] = [];
+  let start = 0;
+  for (let end = bytes.indexOf(0x0a); end !== -1; end = bytes.indexOf(0x0a, start)) {
+    lines.push(bytes.subarray(start, end + 1));
+    start = end + 1;
+  }
+  if (start < bytes.length) {
+    lines.push(bytes.subarray(start));
+  }
+  return lines;
+}
+
+/**
+ * Byte offset of each character of valid Shift-JIS bytes, plus the end offset
+ */
+function shiftJisCharOffsets(bytes: Buffer): number[] {
+  const offsets: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    offsets.push(i);
+    const lead = bytes[i];
+    i += (lead >= 0x81 && lead <= 0x9f) || (lead >= 0xe0 && lead <= 0xfc) ? 2 : 1;
+  }
+  offsets.push(bytes.length);
+  return offsets;
+}
+
+/**
+ * Encode a changed stretch of Shift-JIS text, keeping the original bytes of its unchanged start and end
+ */
+function spliceShiftJis(before: string, beforeBytes: Buffer, after: string): Buffer {
+  const offsets = shiftJisCharOffsets(beforeBytes);
+  if (offsets.length !== before.length + 1) {
+    return encodeAll(after, 'shift_jis');
+  }
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return Buffer.concat([
+    beforeBytes.subarray(0, offsets[prefix]),
+    encodeAll(after.slice(prefix, after.length - suffix), 'shift_jis'),
+    beforeBytes.subarray(offsets[before.length - suffix]),
+  ]);
+}
+
+/**
+ * Encode edited Shift-JIS content, keeping the original bytes of all text the edit left alone
+ */
+function encodeShiftJisEdit(content: string, original: EncodedText): Buffer {
+  const beforeLines = splitLines(original.content);
+  const beforeBytes = splitByteLines(original.bytes);
+  if (beforeLines.length !== beforeBytes.length) {
+    return encodeAll(content, 'shift_jis');
+  }
+
+  const chunks: Buffer[] = [];
+  let line = 0;
+  let removed: string[] = [];
+  let removedBytes: Buffer[] = [];
+  let added: string[] = [];
+  const flushChange = () => {
+    if (removed.length > 0 || added.length > 0) {
+      chunks.push(spliceShiftJis(removed.join(''), Buffer.concat(removedBytes), added.join('')));
+      removed = [];
+      removedBytes = [];
+      added = [];
+    }
+  };
+
+  for (const entry of diffLines(beforeLines, splitLines(content))) {
+    if (entry.type === 'equal') {
+      flushChange();
+      chunks.push(beforeBytes[line++]);
+    } else if (entry.type === 'delete') {
+      removed.push(entry.text);
+      removedBytes.push(beforeBytes[line++]);
+    } else {
+      added.push(entry.text);
+    }
+  }
+  flushChange();
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Encode content to the bytes written to disk
+ *
+ * Pass the text the content was edited from, with its bytes, to keep the bytes
+ * of everything the edit left unchanged. Shift-JIS decodes some characters from
+ * several byte sequences (the NEC and IBM extensions), and encoding them afresh
+ * would pick one and rewrite text nobody edited. The other encodings round-trip
+ * exactly, so they are always encoded afresh.
+ *
+ * @throws UnrepresentableCharacterError if a character cannot be represented (never replaced silently)
+ */
+export function encodeText(
+  content: string,
+  encoding: FileEncoding,
+  filePath = 'content',
+  original?: EncodedText
+): Buffer {
+  const index = findUnrepresentableCharacter(content, encoding);
+  if (index !== -1) {
+    const error = createCodedError('UNREPRESENTABLE_CHARACTER', describeUnrepresentable(content, index, encoding, filePath));
+    const details = { character: String.fromCodePoint(content.codePointAt(index)!), offset: index };
+    throw Object.assign(error, { code: 'UNREPRESENTABLE_CHARACTER', ...details }) as UnrepresentableCharacterError;
+  }
+
+  if (encoding === 'shift_jis' && original !== undefined) {
+    return encodeShiftJisEdit(content, original);
+  }
+  return encodeAll(content, encoding);
+}
@@ -11,7 +11,52 @@ import type {
   ErrorContext,
   EditStatusEntry,
   MatchLocation,
+  ValidationError,
 } from '../types/index.js';
+import { findClosestMatch } from './similarity.js';
+
+/**
+ * Every error code, keyed so that a code missing here fails to compile
+ */
+const ERROR_CODE_KEYS: Record<ErrorCode, true> = {
+  VALIDATION_FAILED: true,
+  RELATIVE_PATH: true,
+  PATH_TRAVERSAL: true,
+  EMPTY_EDITS: true,
+  EMPTY_OLD_STRING: true,
+  DUPLICATE_OLD_STRING: true,
+  DUPLICATE_FILE_PATH: true,
+  INVALID_REGEX: true,
+  MATCH_NOT_FOUND: true,
+  AMBIGUOUS_MATCH: true,
+  OCCURRENCE_OUT_OF_RANGE: true,
+  INVALID_LINE_RANGE: true,
+  STALE_CONTENT: true,
+  UNREPRESENTABLE_CHARACTER: true,
+  FILE_NOT_FOUND: true,
+  FILE_ALREADY_EXISTS: true,
+  PERMISSION_DENIED: true,
+  OPERATION_NOT_PERMITTED: true,
+  FILE_ACCESS_ERROR: true,
+  INVALID_ENCODING: true,
+  DISK_FULL: true,
+  READ_ONLY_FS: true,
+  SYMLINK_LOOP: true,
+  BACKUP_FAILED: true,
+  WRITE_FAILED: true,
+  PATH_OUTSIDE_WORKSPACE: true,
+  PATH_DENIED: true,
+  UNDO_CONFLICT: true,
+  UNDO_UNAVAILABLE: true,
+  UNKNOWN_ERROR: true,
+  NOT_IMPLEMENTED: true,
+  UNKNOWN_TOOL: true,
+};
+
+/**
+ * All error codes, for the error_code enum of the tools' output schemas
+ */
+export const ERROR_CODES = Object.keys(ERROR_CODE_KEYS) as ErrorCode[];
 
 /**
  * Set of error codes that are retryable (user can fix input and retry)
@@ -24,8 +69,14 @@ export const RETRYABLE_CODES: Set<ErrorCode> = new Set([
   'EMPTY_OLD_STRING',
   'DUPLICATE_OLD_STRING',
   'DUPLICATE_FILE_PATH',
+  'INVALID_REGEX',
   'MATCH_NOT_FOUND',
   'AMBIGUOUS_MATCH',
+  'OCCURRENCE_OUT_OF_RANGE',
+  'INVALID_LINE_RANGE',
+  'STALE_CONTENT',
+  'UNREPRESENTABLE_CHARACTER',
+  'UNDO_CONFLICT',
 ]);
 
 /**
@@ -35,6 +86,29 @@ export function isRetryable(code: ErrorCode): boolean {
   return RETRYABLE_CODES.has(code);
 }
 
+/**
+ * An error thrown with the error code it is reported under
+ */
+export type CodedError = Error & { code: ErrorCode };
+
+/**
+ * Create an error that classifyError reports under its own code
+ */
+export function createCodedError(code: ErrorCode, message: string): CodedError {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Whether a value is an error carrying one of our error codes
+ */
+export function isCodedError(error: unknown): error is CodedError {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as NodeJS.ErrnoException).code;
+  return code !== undefined && Object.hasOwn(ERROR_CODE_KEYS, code);
+}
+
 /**
  * Classify a caught error into an error code and message
  */
@@ -42,6 +116,9 @@ export function classifyError(
   error: unknown,
   filePath?: string
 ): { error_code: ErrorCode; message: string } {
+  if (isCodedError(error)) {
+    return { error_code: error.code, message: error.message };
+  }
   if (error instanceof Error) {
     const nodeError = error as NodeJS.ErrnoException;
     const code = nodeError.code;
@@ -62,12 +139,6 @@ export function classifyError(
       return { error_code: 'SYMLINK_LOOP', message: error.message };
     }
 
-    // Check message for encoding issues
-    const msg = error.message.toLowerCase();
-    if (msg.includes('utf-8') || msg.includes('utf8') || msg.includes('encoding')) {
-      return { error_code: 'INVALID_ENCODING', message: error.message };
-    }
-
     return { error_code: 'UNKNOWN_ERROR', message: error.message };
   }
 
@@ -85,18 +156,42 @@ export function getRecoveryHints(errorCode: ErrorCode): string[] {
   switch (errorCode) {
     case 'MATCH_NOT_FOUND':
       return [
-        'Check for whitespace differences between old_string and file content',
+        'Check for whitespace differences between old_string and file content, or set match_mode to ignore_whitespace or ignore_indentation',
         'Re-read the file to see its current content before retrying',
       ];
     case 'AMBIGUOUS_MATCH':
       return [
-        'Use replace_all: true to replace all occurrences',
+        'Use replace_all: true to replace all occurrences, or occurrence / line_hint to pick one from match_locations',
         'Make old_string more specific to match only the intended location',
       ];
+    case 'OCCURRENCE_OUT_OF_RANGE':
+      return [
+        'Pick an occurrence between 1 and the number of matches (or -1 for the last)',
+        'Use match_locations to choose the intended match',
+      ];
+    case 'INVALID_LINE_RANGE':
+      return [
+        'line_range is counted against the content after earlier edits in the same call',
+        'Re-read the file or adjust line_range for lines added or removed by earlier edits',
+      ];
+    case 'STALE_CONTENT':
+      return [
+        'The file changed after it was read; re-read it and rebuild the edits against its current content',
+        'Pass the sha256 from the new read (or context.current_sha256) as expected_sha256',
+      ];
     case 'FILE_NOT_FOUND':
       return ['Check that the file path is correct and the file exists'];
+    case 'FILE_ALREADY_EXISTS':
+      return [
+        'Use edits instead of create to change an existing file',
+        'Choose a path that does not exist yet',
+      ];
     case 'PERMISSION_DENIED':
       return ['Check file permissions or run with appropriate access'];
+    case 'OPERATION_NOT_PERMITTED':
+      return ['Check file permissions and ownership'];
+    case 'FILE_ACCESS_ERROR':
+      return ['Check the file path and the system error in the message'];
     case 'VALIDATION_FAILED':
       return ['Check input format matches the tool schema'];
     case 'RELATIVE_PATH':
@@ -117,8 +212,21 @@ export function getRecoveryHints(errorCode: ErrorCode): string[] {
         'Remove duplicate file paths from the files array',
         'Each file should appear only once',
       ];
+    case 'INVALID_REGEX':
+      return [
+        'Check the old_string pattern is a valid JavaScript regular expression',
+        'Escape special characters or set regex: false for literal matching',
+      ];
     case 'INVALID_ENCODING':
-      return ['Ensure the file uses UTF-8 encoding'];
+      return [
+        'Pass encoding (latin1, utf-16le, utf-16be or shift_jis) for files that are not UTF-8',
+        'UTF-16 files are detected automatically only when they start with a byte order mark',
+      ];
+    case 'UNREPRESENTABLE_CHARACTER':
+      return [
+        'new_string contains a character that the file\'s encoding cannot store; it is never replaced silently',
+        'Use a character the encoding supports (or an escape the file format allows), or convert the file to UTF-8',
+      ];
     case 'DISK_FULL':
       return ['Free up disk space and retry'];
     case 'READ_ONLY_FS':
@@ -129,6 +237,20 @@ export function getRecoveryHints(errorCode: ErrorCode): string[] {
       return ['Check write permissions for the backup file location', 'Use backup: false to skip backup creation'];
     case 'WRITE_FAILED':
       return ['Check write permissions for the target file'];
+    case 'PATH_OUTSIDE_WORKSPACE':
+      return ['Only files under the configured workspace roots can be edited (symlinks are resolved first)'];
+    case 'PATH_DENIED':
+      return ['The path matches a deny glob of the workspace policy and cannot be edited'];
+    case 'UNDO_CONFLICT':
+      return [
+        'The files changed after the edit; undoing it would discard those later changes',
+        'Re-read the files listed in context.conflicts, or pass force: true to undo anyway',
+      ];
+    case 'UNDO_UNAVAILABLE':
+      return [
+        'Undo restores content from backups: edits made with backup: false or --backup-strategy none cannot be undone, nor edits whose backup was deleted or changed',
+        'Use list_edit_history to see which edits are recorded',
+      ];
     case 'UNKNOWN_TOOL':
       return ['Check the tool name matches a supported tool'];
     case 'NOT_IMPLEMENTED':
@@ -140,11 +262,14 @@ export function getRecoveryHints(errorCode: ErrorCode): string[] {
 
 /**
  * Extract file context for match-not-found errors
- * Returns 10-15 lines of raw content, no line numbers
+ * Returns 10-15 lines of raw content, no line numbers, around the region most
+ * similar to searchString (reported as closest_match) when there is one. Pass
+ * findClosest = false for regex patterns, which fuzzy matching cannot compare.
  */
 export function extractFileContext(
   fileContent: string,
-  searchString: string
+  searchString: string,
+  findClosest = true
 ): ErrorContext {
   if (!fileContent || fileContent.length === 0) {
     return {};
@@ -152,6 +277,13 @@ export function extractFileContext(
 
   const lines = fileContent.split('\n');
 
+  const closestMatch = findClosest ? findClosestMatch(fileContent, searchString) : undefined;
+  if (closestMatch) {
+    const startLine = Math.max(0, closestMatch.lines.start - 8);
+    const endLine = Math.min(lines.length, closestMatch.lines.end + 7);
+    return { snippet: lines.slice(startLine, endLine).join('\n'), closest_match: closestMatch };
+  }
+
   // Try partial match with progressively shorter prefixes
   const prefixLengths = [20, 10, 5];
   for (const prefixLen of prefixLengths) {
@@ -277,6 +409,46 @@ export function createErrorEnvelope(opts: {
   return envelope;
 }
 
+/**
+ * Validation error codes that become the envelope's own error_code when every
+ * validation error has that code, instead of being folded into VALIDATION_FAILED
+ */
+const STANDALONE_VALIDATION_CODES: Set<string> = new Set([
+  'STALE_CONTENT',
+  'PATH_OUTSIDE_WORKSPACE',
+  'PATH_DENIED',
+]);
+
+/**
+ * Create the envelope for failed input validation
+ * Stale-content and workspace-policy rejections keep their own code so clients can
+ * tell "re-read the file" or "not allowed" apart from "fix the input"
+ */
+export function createValidationErrorEnvelope(
+  errors: ValidationError[],
+  message: string
+): ErrorEnvelope {
+  const recoveryHints = errors.map(e => `${e.code}: ${e.message} (${e.recovery_hint})`);
+
+  const code = errors[0]?.code;
+  if (code !== undefined && STANDALONE_VALIDATION_CODES.has(code) && errors.every(e => e.code === code)) {
+    return createErrorEnvelope({
+      error_code: code as ErrorCode,
+      message: errors.length === 1
+        ? errors[0].message
+        : `${errors[0].message} (and ${errors.length - 1} more)`,
+      recovery_hints: recoveryHints,
+      context: errors.length === 1 ? errors[0].context : undefined,
+    });
+  }
+
+  return createErrorEnvelope({
+    error_code: 'VALIDATION_FAILED',
+    message,
+    recovery_hints: recoveryHints,
+  });
+}
+
 /**
  * Build per-edit status array
  * Only lists failed/skipped edits - absence means success
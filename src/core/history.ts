@@ -0,0 +1,216 @@
+/**
+ * Edit history journal for undo_edit and list_edit_history
+ *
+ * Every successful multi_edit / multi_edit_files call appends one entry with the
+ * before/after SHA-256 of each file and the backup holding its previous content.
+ * The journal is a JSON Lines file (oldest entry first) that survives restarts.
+ * It is shared by every project using the same journal file, so the tools only
+ * see the entries whose files are all inside the current workspace. Every change
+ * to it (append, trim, removal) runs under a lock file, so server processes
+ * sharing the journal never write back entries read before another one appended.
+ */
+
+import fs from 'fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import type { EditHistoryEntry, HistoryFileRecord } from '../types/index.js';
+import { checkWorkspacePolicy } from './workspace.js';
+
+/** Entries kept in the journal; older ones are dropped when it grows past this */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** How long to wait between attempts to take the journal lock */
+const LOCK_RETRY_MS = 10;
+
+/** A lock held longer than this was left by a process that died holding it */
+const LOCK_STALE_MS = 10_000;
+
+/** Default journal location, in the same cache directory as directory-strategy backups */
+export const DEFAULT_HISTORY_FILE = path.join(
+  process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), '.cache'),
+  'mcp-multi-edit',
+  'history.jsonl'
+);
+
+/**
+ * Edit history settings
+ */
+export interface HistoryConfig {
+  /** Path of the journal file */
+  file: string;
+}
+
+let config: HistoryConfig = { file: DEFAULT_HISTORY_FILE };
+
+/**
+ * Get the active edit history settings
+ */
+export function getHistoryConfig(): HistoryConfig {
+  return config;
+}
+
+/**
+ * Replace parts of the active edit history settings
+ */
+export function setHistoryConfig(next: Partial<HistoryConfig>): void {
+  config = {
+    file: path.resolve(next.file ?? config.file),
+  };
+}
+
+/**
+ * Parse the --history-file <path> argument
+ */
+export function parseHistoryArgs(argv: string[]): Partial<HistoryConfig> {
+  const parsed: Partial<HistoryConfig> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.includes('=') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    if (flag !== '--history-file') {
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    parsed.file = value;
+  }
+
+  return parsed;
+}
+
+/**
+ * Read all journal entries, oldest first
+ * A missing journal is an empty history; unparseable lines (e.g. a torn append) are skipped.
+ */
+export async function readEditHistory(): Promise<EditHistoryEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(config.file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: EditHistoryEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as EditHistoryEntry);
+    } catch {
+      // Skip lines that are not valid JSON
+    }
+  }
+  return entries;
+}
+
+/**
+ * Whether every file an entry touched is allowed by the current workspace policy
+ * Entries from other projects (outside the roots) or on denied paths are left alone.
+ */
+export function isEntryInWorkspace(entry: EditHistoryEntry): boolean {
+  return entry.files.every(record =>
+    checkWorkspacePolicy(record.file_path) === null &&
+    (record.moved_to === undefined || checkWorkspacePolicy(record.moved_to) === null)
+  );
+}
+
+/**
+ * Run fn while holding the journal lock (`<journal>.lock`, created exclusively)
+ */
+async function withHistoryLock<T>(fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${config.file}.lock`;
+  await fs.mkdir(path.dirname(config.file), { recursive: true });
+  for (;;) {
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    const stats = await fs.stat(lockPath).catch(() => undefined);
+    if (stats !== undefined && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Replace the journal with these entries (temp file then rename); hold the lock
+ */
+async function writeEditHistory(entries: EditHistoryEntry[]): Promise<void> {
+  const tempPath = `${config.file}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+  await fs.rename(tempPath, config.file);
+}
+
+/**
+ * Remove entries by id, re-reading the journal under the lock so entries
+ * appended meanwhile are kept
+ *
+ * @returns The entries left in the journal
+ */
+export async function removeEditHistoryEntries(ids: string[]): Promise<EditHistoryEntry[]> {
+  return withHistoryLock(async () => {
+    const entries = await readEditHistory();
+    const remaining = entries.filter(entry => !ids.includes(entry.id));
+    if (remaining.length < entries.length) {
+      await writeEditHistory(remaining);
+    }
+    return remaining;
+  });
+}
+
+/**
+ * Append an entry for a completed edit
+ *
+ * The edit is already on disk, so a journal failure is not turned into a tool
+ * error; it is logged and returned as a warning for the tool result instead,
+ * since the edit cannot be undone.
+ *
+ * @returns A warning when the entry could not be recorded, else undefined
+ */
+export async function recordEditHistory(
+  tool: EditHistoryEntry['tool'],
+  files: HistoryFileRecord[]
+): Promise<string | undefined> {
+  const entry: EditHistoryEntry = {
+    id: crypto.randomUUID(),
+    tool,
+    timestamp: new Date().toISOString(),
+    files,
+  };
+
+  try {
+    await withHistoryLock(async () => {
+      await fs.appendFile(config.file, `${JSON.stringify(entry)}\n`, 'utf8');
+
+      const entries = await readEditHistory();
+      if (entries.length > MAX_HISTORY_ENTRIES) {
+        await writeEditHistory(entries.slice(-MAX_HISTORY_ENTRIES));
+      }
+    });
+    return undefined;
+  } catch (error) {
+    console.error('Failed to record edit history:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return `Edit history not recorded, so undo_edit cannot revert this edit: ${message}`;
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Write-ahead journal for multi_edit_files transactions
+ *
+ * The transaction's journal is started before any temp file is staged, and each
+ * staged temp file is journaled once written. Before a file is changed, its
+ * original bytes (and where it will be moved) are appended to the journal and
+ * flushed to disk. The journal is
+ * removed once the transaction commits or has been rolled back in-process, so a
+ * journal left on disk means the server died mid-transaction. On the next start,
+ * recoverTransactions rolls such transactions back from their journals. A
+ * journal is also kept when an in-process rollback fails, so the next start can
+ * retry it.
+ */
+
+import fs from 'fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { atomicWrite, deleteFile, moveFile, computeSha256 } from './editor.js';
+import { DEFAULT_ENCODING, decodeText } from './encoding.js';
+import type { FileEncoding, RollbackDetail, RollbackReport } from '../types/index.js';
+
+/** Default journal directory, in the same cache directory as the edit history */
+export const DEFAULT_JOURNAL_DIRECTORY = path.join(
+  process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), '.cache'),
+  'mcp-multi-edit',
+  'transactions'
+);
+
+let journalDirectory = DEFAULT_JOURNAL_DIRECTORY;
+
+/**
+ * Get the directory transaction journals are written to
+ */
+export function getJournalDirectory(): string {
+  return journalDirectory;
+}
+
+/**
+ * Change the directory transaction journals are written to
+ */
+export function setJournalDirectory(directory: string): void {
+  journalDirectory = path.resolve(directory);
+}
+
+/** First journal line: who owns the transaction */
+interface JournalHeader {
+  type: 'begin';
+  id: string;
+  pid: number;
+  host: string;
+  started_at: string;
+}
+
+/** Journal line written once a temp file holding new content is staged */
+interface JournalStagedRecord {
+  type: 'staged';
+  staged_path: string;
+}
+
+/** Journal line written before a file is changed */
+export interface JournalFileRecord {
+  file_path: string;
+  /** Where the file is being moved, for move entries */
+  moved_to?: string;
+  /** Bytes before the change, base64-encoded; absent for a file being created */
+  original_bytes?: string;
+  /** Encoding of the original bytes, when not UTF-8 */
+  encoding?: FileEncoding;
+  /** SHA-256 of the content being committed; absent for a file being deleted */
+  committed_sha256?: string;
+}
+
+/**
+ * Outcome of rolling back one interrupted transaction
+ */
+export interface RecoveredTransaction {
+  transaction_id: string;
+  started_at: string;
+  rollback: RollbackReport;
+}
+
+/**
+ * Get the path of a transaction's journal
+ */
+export function getTransactionJournalPath(transactionId: string): string {
+  return path.join(journalDirectory, `${transactionId}.jsonl`);
+}
+
+/**
+ * Append a line and flush it to disk before returning
+ */
+async function appendDurably(filePath: string, value: object): Promise<void> {
+  const handle = await fs.open(filePath, 'a', 0o600);
+  try {
+    await handle.appendFile(`${JSON.stringify(value)}\n`, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Start a transaction journal, returning the transaction id
+ */
+export async function beginTransaction(): Promise<string> {
+  const header: JournalHeader = {
+    type: 'begin',
+    id: crypto.randomUUID(),
+    pid: process.pid,
+    host: os.hostname(),
+    started_at: new Date().toISOString(),
+  };
+  await fs.mkdir(journalDirectory, { recursive: true });
+  await appendDurably(getTransactionJournalPath(header.id), header);
+  return header.id;
+}
+
+/**
+ * Record that a file is about to be changed (call before writing, deleting or moving it)
+ */
+export async function journalFileChange(transactionId: string, record: JournalFileRecord): Promise<void> {
+  await appendDurably(getTransactionJournalPath(transactionId), { type: 'file', ...record });
+}
+
+/**
+ * Record a staged temp file, so recovery removes it if the transaction never commits it
+ */
+export async function journalStagedWrite(transactionId: string, stagedPath: string): Promise<void> {
+  const record: JournalStagedRecord = { type: 'staged', staged_path: stagedPath };
+  await appendDurably(getTransactionJournalPath(transactionId), record);
+}
+
+/**
+ * Remove a transaction journal once the transaction committed or was rolled back
+ */
+export async function endTransaction(transactionId: string): Promise<void> {
+  await fs.rm(getTransactionJournalPath(transactionId), { force: true });
+}
+
+/**
+ * Whether the process that owns a journal may still be running
+ * Journals from other hosts (a shared cache directory) are never touched.
+ */
+function isOwnerAlive(header: JournalHeader): boolean {
+  if (header.host !== os.hostname()) {
+    return true;
+  }
+  try {
+    process.kill(header.pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * SHA-256 of a file's bytes, or undefined when it does not exist
+ */
+async function hashFile(filePath: string): Promise<string | undefined> {
+  try {
+    return computeSha256(await fs.readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Put one journaled file back to its state before the transaction
+ * The server may have died before, during or after changing the file, so each
+ * step only runs if the file is not already in the state it produces. A file
+ * that is in neither its original nor its committed state was changed after
+ * the transaction and is left alone.
+ */
+async function restoreJournaledFile(record: JournalFileRecord): Promise<RollbackDetail> {
+  const { file_path, moved_to, original_bytes, encoding = DEFAULT_ENCODING, committed_sha256 } = record;
+
+  if (original_bytes === undefined) {
+    const current = await hashFile(file_path);
+    if (current === undefined) {
+      return { file_path, status: 'removed' };
+    }
+    if (current !== committed_sha256) {
+      return { file_path, status: 'skipped', error: 'File changed since the transaction; left as is' };
+    }
+    await deleteFile(file_path);
+    return { file_path, status: 'removed' };
+  }
+
+  const movedBack = moved_to !== undefined &&
+    !(await fileExists(file_path)) && await fileExists(moved_to);
+  const current = await hashFile(movedBack ? moved_to : file_path);
+  const bytes = Buffer.from(original_bytes, 'base64');
+  const originalSha256 = computeSha256(bytes);
+  // A deleted file is committed once absent; anything else must hold the original or committed bytes
+  const unchanged = current === undefined
+    ? committed_sha256 === undefined
+    : current === originalSha256 || current === committed_sha256;
+  if (!unchanged) {
+    return {
+      file_path,
+      status: 'skipped',
+      ...(movedBack ? { moved_from: moved_to } : {}),
+      error: 'File changed since the transaction; left as is',
+    };
+  }
+
+  if (movedBack) {
+    await moveFile(moved_to, file_path);
+  }
+  // Written back from the journaled bytes, so text is restored byte for byte
+  const original = { content: decodeText(bytes, encoding), bytes };
+  await atomicWrite(file_path, original.content, encoding, original);
+  return movedBack
+    ? { file_path, status: 'moved_back', moved_from: moved_to }
+    : { file_path, status: 'restored' };
+}
+
+/**
+ * Roll back every transaction whose server died before it finished
+ *
+ * Files are restored in reverse order from the journal, staged temp files that
+ * were never committed are removed, then the journal is removed. Files changed
+ * since the transaction are skipped. Journals owned by a running process are
+ * left alone, and a journal whose rollback fails is kept so the next start tries again.
+ */
+export async function recoverTransactions(): Promise<RecoveredTransaction[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(journalDirectory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const recovered: RecoveredTransaction[] = [];
+  for (const name of names.filter(candidate => candidate.endsWith('.jsonl'))) {
+    const filePath = path.join(journalDirectory, name);
+    // A torn last line means the server died while journaling, before touching that file
+    const entries = (await fs.readFile(filePath, 'utf8'))
+      .split('\n')
+      .flatMap((line): Array<JournalHeader | JournalStagedRecord | (JournalFileRecord & { type: 'file' })> => {
+        try {
+          return line.trim() === '' ? [] : [JSON.parse(line)];
+        } catch {
+          return [];
+        }
+      });
+
+    const header = entries[0]?.type === 'begin' ? entries[0] as JournalHeader : undefined;
+    if (header === undefined) {
+      // Died while starting the transaction: no file was changed
+      await fs.rm(filePath, { force: true });
+      continue;
+    }
+    if (isOwnerAlive(header)) {
+      continue;
+    }
+
+    const records = entries.slice(1).flatMap(entry => {
+      if (entry.type !== 'file') {
+        return [];
+      }
+      const { type: _type, ...record } = entry;
+      return [record as JournalFileRecord];
+    });
+
+    const stagedPaths = entries.flatMap(entry => entry.type === 'staged' ? [entry.staged_path] : []);
+
+    const details: RollbackDetail[] = [];
+    for (let i = records.length - 1; i >= 0; i--) {
+      try {
+        details.push(await restoreJournaledFile(records[i]));
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : 'Unknown rollback error';
+        details.push({ file_path: records[i].file_path, status: 'failed', error: errMsg });
+      }
+    }
+
+    // A committed temp file was renamed over its target, so only uncommitted ones remain
+    let notCommitted = 0;
+    for (const stagedPath of stagedPaths) {
+      if (await fileExists(stagedPath)) {
+        await fs.rm(stagedPath, { force: true });
+        notCommitted++;
+      }
+    }
+
+    const failed = details.filter(detail => detail.status === 'failed').length;
+    const skipped = details.filter(detail => detail.status === 'skipped').length;
+    if (failed === 0) {
+      await fs.rm(filePath, { force: true });
+    }
+    recovered.push({
+      transaction_id: header.id,
+      started_at: header.started_at,
+      rollback: {
+        files_rolled_back: details.length - failed - skipped,
+        files_failed_rollback: failed,
+        ...(notCommitted > 0 ? { files_not_committed: notCommitted } : {}),
+        details,
+      },
+    });
+  }
+
+  return recovered;
+}
@@ -2,9 +2,34 @@
  * Result formatting and reporting
  */
 
-import type { MultiEditResult, MultiEditFilesResult, ErrorEnvelope, ErrorCode, ErrorContext } from '../types/index.js';
+import path from 'node:path';
+import type {
+  DiffFormat,
+  EditChange,
+  FileOperation,
+  MultiEditResult,
+  MultiEditFilesResult,
+  MultiEditFilesErrorEnvelope,
+  UndoEditResult,
+  UndoEditErrorEnvelope,
+  ListEditHistoryResult,
+  ErrorEnvelope,
+  ErrorCode,
+  ErrorContext,
+  EditStatusEntry,
+  FailedEdit,
+  EditOperation,
+  EditOp,
+  FileFormat,
+  LineRange,
+  MetadataIssue,
+  MatchMode,
+  Verbosity,
+} from '../types/index.js';
 import { createErrorEnvelope, extractFileContext, extractMatchLocations, buildEditStatus } from './errors.js';
-import { findAllMatchPositions } from './editor.js';
+import { findEditMatches, detectFileFormat, adaptEditToFormat, getLineRangeOffsets } from './editor.js';
+import { formatUnifiedDiff } from './diff.js';
+import { findContainingRoot } from './workspace.js';
 
 /**
  * Response types for MCP formatting
@@ -15,16 +40,63 @@ export interface SuccessResponse {
   edits_applied: number;
   dry_run: boolean;
   message?: string;           // Dry-run messaging
-  diff_preview?: string;      // Line-by-line diff for dry-run
+  diff_preview?: string;      // Unified diff for dry-run
   edits: Array<{
+    op?: EditOp;                // Present for operations other than replace
     old_string: string;
     matched: boolean;
     occurrences_replaced: number;
+    match_mode?: MatchMode;     // Present when a whitespace-tolerant mode was requested
+    line_range?: LineRange;     // Present when the search was limited to a line range
   }>;
+  line_range_note?: string;     // Explains line_range numbering when any edit used one
+  changes?: EditChange[];       // Where each edit landed in the edited file (1-based line/column)
+  sha256?: string;              // Hash of the file on disk, for chaining expected_sha256
+  file_format?: FileFormat;     // Detected line ending and BOM, kept on write
+  written_in_place?: boolean;   // Hard-linked file overwritten in place instead of renamed
+  metadata_not_preserved?: MetadataIssue[]; // Mode/owner the write could not keep
   backup_path?: string;
+  history_warning?: string;     // The edit was not recorded, so undo_edit cannot revert it
   final_content?: string;
 }
 
+/**
+ * multi_edit success response at minimal verbosity
+ */
+export interface MinimalSuccessResponse {
+  success: true;
+  file_path: string;
+  edits_applied: number;
+  dry_run: boolean;
+  summary_line: string;         // e.g. "ok: 3 edits, 5 replacements, lines 12-40"
+  sha256?: string;
+  history_warning?: string;
+  final_content?: string;       // Only with include_content
+}
+
+/**
+ * multi_edit_files success response at minimal verbosity
+ */
+export interface MinimalFilesSuccessResponse {
+  success: true;
+  files_edited: number;
+  dry_run: boolean;
+  summary_line: string;         // e.g. "ok: 2 files, 3 edits, 5 replacements"
+  history_warning?: string;
+  file_results: Array<{
+    file_path: string;
+    moved_to?: string;
+    sha256?: string;
+    final_content?: string;     // Only with include_content
+  }>;
+}
+
+/**
+ * Explanation attached to responses whose edits used line_range
+ */
+export const LINE_RANGE_NOTE =
+  'line_range values were resolved against the content as modified by earlier edits in the same call, not the original file';
+
 /**
  * Create success result for multi_edit_files
  * Populates top-level summary with file and edit counts
@@ -35,6 +107,7 @@ export function createFilesSuccessResult(
 ): MultiEditFilesResult {
   const filesSucceeded = fileResults.filter(r => r.success).length;
   const totalEdits = fileResults.reduce((sum, r) => sum + r.edits_applied, 0);
+  const usedLineRange = fileResults.some(fr => fr.results.some(r => r.line_range));
   return {
     success: true,
     files_edited: fileResults.length,
@@ -46,29 +119,355 @@ export function createFilesSuccessResult(
       total_edits: totalEdits,
     },
     dry_run: dryRun,
+    ...(usedLineRange && { line_range_note: LINE_RANGE_NOTE }),
   };
 }
 
 /**
  * Format multi_edit_files result for MCP response
- * Strips final_content from each file result when includeContent is false
+ * Strips final_content from each file result unless includeContent is set or
+ * verbosity is full; minimal keeps one line plus each file's path and hash
  */
 export function formatMultiEditFilesResponse(
   result: MultiEditFilesResult,
-  includeContent: boolean = false
-): string {
-  if (!includeContent) {
-    // Strip final_content from each file result before serializing
-    const stripped = {
+  includeContent: boolean = false,
+  verbosity: Verbosity = 'normal'
+): MultiEditFilesResult | MinimalFilesSuccessResponse {
+  if (verbosity === 'minimal') {
+    const replacements = result.file_results
+      .reduce((sum, fr) => sum + fr.results.reduce((count, r) => count + r.replaced, 0), 0);
+    return {
+      success: true,
+      files_edited: result.files_edited,
+      dry_run: result.dry_run,
+      summary_line: `${result.dry_run ? 'dry run ' : ''}ok: ${plural(result.files_edited, 'file')}, ` +
+        `${plural(result.summary?.total_edits ?? 0, 'edit')}, ${plural(replacements, 'replacement')}`,
+      file_results: result.file_results.map(fr => ({
+        file_path: fr.file_path,
+        ...(fr.moved_to !== undefined && { moved_to: fr.moved_to }),
+        ...(fr.sha256 !== undefined && { sha256: fr.sha256 }),
+        ...(includeContent && fr.final_content !== undefined && { final_content: fr.final_content }),
+      })),
+      ...(result.history_warning !== undefined && { history_warning: result.history_warning }),
+    };
+  }
+
+  if (!includeContent && verbosity !== 'full') {
+    return {
       ...result,
       file_results: result.file_results.map(fr => {
         const { final_content, ...rest } = fr;
         return rest;
       }),
     };
-    return JSON.stringify(stripped, null, 2);
   }
-  return JSON.stringify(result, null, 2);
+  return result;
+}
+
+/**
+ * MCP tool result: the response as validated structuredContent, summarized in a text block
+ * (a type alias, so it satisfies the SDK's index-signature result type)
+ */
+export type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: Record<string, unknown>;
+  isError: boolean;
+};
+
+/**
+ * Wrap a tool response and its text summary into an MCP tool result
+ */
+export function createToolResult(
+  response:
+    | SuccessResponse
+    | MinimalSuccessResponse
+    | MultiEditFilesResult
+    | MinimalFilesSuccessResponse
+    | UndoEditResult
+    | ListEditHistoryResult
+    | ErrorEnvelope,
+  summary: string
+): ToolResult {
+  return {
+    content: [{ type: 'text', text: summary }],
+    structuredContent: { ...response },
+    isError: !response.success,
+  };
+}
+
+/** A file result of multi_edit_files, with its dry-run fields */
+type FileResultResponse = MultiEditResult & { diff_preview?: string };
+
+/**
+ * Lines touched by each change, as "4" or "4-6" (an end at column 1 stops on the line before)
+ */
+function describeChangedLines(changes: EditChange[] | undefined): string | undefined {
+  if (!changes || changes.length === 0) {
+    return undefined;
+  }
+  const ranges = changes.map(change => {
+    const endLine = change.end_column === 1 && change.end_line > change.start_line
+      ? change.end_line - 1
+      : change.end_line;
+    return endLine === change.start_line ? `${change.start_line}` : `${change.start_line}-${endLine}`;
+  });
+  return [...new Set(ranges)].join(', ');
+}
+
+/**
+ * First to last changed line, as "line 4" or "lines 4-40"
+ */
+function describeChangedSpan(changes: EditChange[] | undefined): string | undefined {
+  if (!changes || changes.length === 0) {
+    return undefined;
+  }
+  const first = Math.min(...changes.map(change => change.start_line));
+  const last = Math.max(...changes.map(change =>
+    change.end_column === 1 && change.end_line > change.start_line ? change.end_line - 1 : change.end_line
+  ));
+  return describeLineRange({ start: first, end: last });
+}
+
+/**
+ * A line range as "line 4" or "lines 4-40"
+ */
+function describeLineRange(range: LineRange): string {
+  return range.start === range.end ? `line ${range.start}` : `lines ${range.start}-${range.end}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Append included final content to a summary, under a heading naming the file when several are listed
+ */
+function withFinalContent(summary: string, finalContent: string | undefined, filePath?: string): string {
+  if (finalContent === undefined) {
+    return summary;
+  }
+  return [summary, '', filePath ? `Final content of ${filePath}:` : 'Final content:', finalContent].join('\n');
+}
+
+/**
+ * Append the warning for an edit missing from the edit history to a summary
+ */
+function withHistoryWarning(summary: string, warning: string | undefined): string {
+  return warning === undefined ? summary : `${summary}\nWarning: ${warning}`;
+}
+
+/**
+ * Edits that failed, from the per-edit status (more than one only with validate_all)
+ */
+function failedEntries(editStatus: EditStatusEntry[] | undefined): EditStatusEntry[] {
+  return editStatus?.filter(entry => entry.status === 'failed') ?? [];
+}
+
+/**
+ * Error envelope at minimal verbosity: no context or per-edit status, only the first hint
+ * Several failed edits (validate_all) keep their index and code.
+ */
+export function trimErrorEnvelope(envelope: ErrorEnvelope): ErrorEnvelope {
+  const { context: _context, edit_status: _editStatus, ...rest } = envelope;
+  const failed = failedEntries(envelope.edit_status);
+  return {
+    ...rest,
+    recovery_hints: envelope.recovery_hints.slice(0, 1),
+    ...(failed.length > 1 && {
+      edit_status: failed.map(({ edit_index, status, error_code }) => ({ edit_index, status, error_code })),
+    }),
+  };
+}
+
+/**
+ * Compact text summary of an error envelope: code, message and recovery hints
+ * Minimal verbosity gives only the code and first hint; full adds the file snippet.
+ */
+export function summarizeErrorEnvelope(
+  envelope: ErrorEnvelope | MultiEditFilesErrorEnvelope,
+  verbosity: Verbosity = 'normal'
+): string {
+  const failed = failedEntries(envelope.edit_status);
+  if (verbosity === 'minimal') {
+    if (failed.length > 1) {
+      return `${failed.length} edits failed: ` +
+        failed.map(entry => `${entry.error_code} (edit ${entry.edit_index + 1})`).join(', ');
+    }
+    const where = envelope.edit_index !== undefined ? ` (edit ${envelope.edit_index + 1})` : '';
+    return `${envelope.error_code}${where}: ${envelope.recovery_hints[0] ?? envelope.message}`;
+  }
+
+  const lines = [`${envelope.error_code}: ${envelope.message}`];
+  if (failed.length > 1) {
+    lines.push('Failed edits:', ...failed.map(entry => {
+      const closestMatch = entry.context?.closest_match;
+      const closest = closestMatch
+        ? ` (closest match at ${describeLineRange(closestMatch.lines)}, ${Math.round(closestMatch.similarity * 100)}% similar)`
+        : '';
+      return `  ${entry.error_code}: ${entry.message}${closest}`;
+    }));
+  }
+
+  const matchLocations = envelope.context?.match_locations;
+  if (matchLocations && matchLocations.length > 0) {
+    lines.push(`Matches at lines ${matchLocations.map(location => location.line).join(', ')}`);
+  }
+  const closestMatch = envelope.context?.closest_match;
+  if (closestMatch) {
+    lines.push(
+      `Closest match at ${describeLineRange(closestMatch.lines)} ` +
+      `(${Math.round(closestMatch.similarity * 100)}% similar): ${closestMatch.differences.join('; ')}`
+    );
+  }
+  if ('failed_phase' in envelope) {
+    const rollback = envelope.rollback;
+    lines.push(rollback
+      ? `Failed in the ${envelope.failed_phase} phase; ${plural(rollback.files_rolled_back, 'file')} rolled back, ` +
+        `${rollback.files_failed_rollback} failed to roll back` +
+        (rollback.journal_path !== undefined ? ` (journal kept at ${rollback.journal_path})` : '')
+      : `Failed in the ${envelope.failed_phase} phase; no file was changed`);
+  }
+  if (envelope.backup_path) {
+    lines.push(`Backup: ${envelope.backup_path}`);
+  }
+  lines.push(...envelope.recovery_hints.map(hint => `- ${hint}`));
+  if (verbosity === 'full' && closestMatch) {
+    lines.push('', 'Difference from the closest match ([-old_string-]{+file+}):', closestMatch.diff);
+  }
+  if (verbosity === 'full' && envelope.context?.snippet) {
+    lines.push('', 'File content near the edit:', envelope.context.snippet);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compact text summary of a multi_edit response (the full response is the structuredContent)
+ */
+export function summarizeMultiEditResponse(
+  response: SuccessResponse | MinimalSuccessResponse | ErrorEnvelope,
+  verbosity: Verbosity = 'normal'
+): string {
+  if (!response.success) {
+    return summarizeErrorEnvelope(response, verbosity);
+  }
+  if ('summary_line' in response) {
+    return withFinalContent(withHistoryWarning(response.summary_line, response.history_warning), response.final_content);
+  }
+
+  const edits = plural(response.edits_applied, 'edit');
+  const lines = [response.dry_run
+    ? `DRY RUN - ${edits} would apply to ${response.file_path}; no changes made`
+    : `Applied ${edits} to ${response.file_path}`];
+
+  const changedLines = describeChangedLines(response.changes);
+  if (changedLines) {
+    lines.push(`Changed lines: ${changedLines}`);
+  }
+  if (response.sha256) {
+    lines.push(`sha256: ${response.sha256}`);
+  }
+  if (response.backup_path) {
+    lines.push(`Backup: ${response.backup_path}`);
+  }
+  if (response.written_in_place) {
+    lines.push('Written in place to keep hard links');
+  }
+  for (const issue of response.metadata_not_preserved ?? []) {
+    lines.push(`Not preserved: ${issue.field} (${issue.error})`);
+  }
+  if (response.line_range_note) {
+    lines.push(`Note: ${response.line_range_note}`);
+  }
+  if (response.diff_preview) {
+    lines.push('', response.diff_preview);
+  }
+
+  return withFinalContent(withHistoryWarning(lines.join('\n'), response.history_warning), response.final_content);
+}
+
+/**
+ * Compact text summary of a multi_edit_files response, one line per file
+ */
+export function summarizeMultiEditFilesResponse(
+  response: MultiEditFilesResult | MinimalFilesSuccessResponse | ErrorEnvelope | MultiEditFilesErrorEnvelope,
+  verbosity: Verbosity = 'normal'
+): string {
+  if (!('file_results' in response)) {
+    return summarizeErrorEnvelope(response, verbosity);
+  }
+  if ('summary_line' in response) {
+    return response.file_results.reduce(
+      (text, fr) => withFinalContent(text, fr.final_content, fr.moved_to ?? fr.file_path),
+      withHistoryWarning(response.summary_line, response.history_warning)
+    );
+  }
+
+  const files = plural(response.files_edited, 'file');
+  const edits = plural(response.summary?.total_edits ?? 0, 'edit');
+  const lines = [response.dry_run
+    ? `DRY RUN - ${files} and ${edits} would change; no changes made`
+    : `Changed ${files} with ${edits}`];
+
+  for (const result of response.file_results) {
+    const action = result.file_operation === 'create' ? 'created'
+      : result.file_operation === 'delete' ? 'deleted'
+      : result.file_operation === 'move' ? `moved to ${result.moved_to}`
+      : undefined;
+    const details = [
+      ...(action ? [action] : []),
+      ...(result.edits_applied > 0 || !action ? [plural(result.edits_applied, 'edit')] : []),
+    ];
+    const changedLines = describeChangedLines(result.changes);
+    if (changedLines) {
+      details.push(`lines ${changedLines}`);
+    }
+    lines.push(`- ${result.file_path}: ${details.join(', ')}`);
+  }
+  if (response.line_range_note) {
+    lines.push(`Note: ${response.line_range_note}`);
+  }
+  for (const result of response.file_results as FileResultResponse[]) {
+    if (result.diff_preview) {
+      lines.push('', result.diff_preview);
+    }
+  }
+
+  return response.file_results.reduce(
+    (text, fr) => withFinalContent(text, fr.final_content, fr.moved_to ?? fr.file_path),
+    withHistoryWarning(lines.join('\n'), response.history_warning)
+  );
+}
+
+/**
+ * Text summary of an undo_edit response: each reverted call and how its files were put back
+ */
+export function summarizeUndoEditResponse(response: UndoEditResult | UndoEditErrorEnvelope): string {
+  const lines = response.success
+    ? [`Undid ${plural(response.edits_undone, 'edit')}; ${response.history_remaining} left in history`]
+    : [summarizeErrorEnvelope(response)];
+  for (const edit of response.undone ?? []) {
+    lines.push(`- ${edit.tool} at ${edit.timestamp}:`);
+    for (const file of edit.files) {
+      const from = file.moved_from !== undefined ? ` from ${file.moved_from}` : '';
+      lines.push(`  - ${file.file_path}: ${file.status.replace('_', ' ')}${from}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Text summary of a list_edit_history response: one line per call with the files it changed
+ */
+export function summarizeListEditHistoryResponse(response: ListEditHistoryResult): string {
+  const lines = [response.entries.length < response.total_entries
+    ? `Latest ${response.entries.length} of ${plural(response.total_entries, 'edit')} in history`
+    : `${plural(response.total_entries, 'edit')} in history`];
+  for (const entry of response.entries) {
+    const files = entry.files.map(file => file.operation === 'edit' ? file.file_path : `${file.file_path} (${file.operation})`);
+    lines.push(`- ${entry.timestamp} ${entry.tool} [${entry.id}]: ${files.join(', ')}`);
+  }
+  return lines.join('\n');
 }
 
 /**
@@ -82,42 +481,113 @@ export function truncateForDisplay(str: string, maxLen: number): string {
 }
 
 /**
- * Classify error code from an error message string
+ * Start positions of an edit's matches inside its line_range, or none if its pattern cannot be compiled
  */
-function classifyErrorFromMessage(errorMessage: string): ErrorCode {
-  const lower = errorMessage.toLowerCase();
-
-  if (lower.includes('not found')) {
-    return 'MATCH_NOT_FOUND';
+function findMatchStarts(content: string, edit: EditOperation): number[] {
+  const bounds = edit.line_range ? getLineRangeOffsets(content, edit.line_range) : undefined;
+  if (bounds === null) {
+    return [];
   }
-  if (lower.includes('matches at lines') || lower.includes('occurrences found')) {
-    return 'AMBIGUOUS_MATCH';
+  try {
+    return findEditMatches(content, edit, bounds).map(span => span.start);
+  } catch {
+    return [];
   }
-  if (lower.includes('permission denied') || lower.includes('eacces')) {
-    return 'PERMISSION_DENIED';
+}
+
+/**
+ * Context for a failed edit: snippet and closest match when it was not found,
+ * every match location (inside its line_range) when it was ambiguous or its occurrence out of range
+ */
+function buildFailureContext(
+  errorCode: ErrorCode,
+  failedEdit: ({ old_string: string } & Partial<EditOperation>) | undefined,
+  fileContent: string | undefined
+): ErrorContext | undefined {
+  if (!failedEdit || !fileContent) {
+    return undefined;
   }
-  if (lower.includes('utf-8') || lower.includes('encoding')) {
-    return 'INVALID_ENCODING';
+
+  if (errorCode === 'MATCH_NOT_FOUND') {
+    return extractFileContext(fileContent, failedEdit.old_string, !failedEdit.regex);
   }
-  if (lower.includes('backup failed')) {
-    return 'BACKUP_FAILED';
+  if (errorCode === 'AMBIGUOUS_MATCH' || errorCode === 'OCCURRENCE_OUT_OF_RANGE') {
+    // Re-find match positions with the edit's own match options and the file's line ending
+    const positions = findMatchStarts(
+      fileContent,
+      adaptEditToFormat({ new_string: '', ...failedEdit }, detectFileFormat(fileContent))
+    );
+    if (positions.length > 0) {
+      return extractMatchLocations(fileContent, failedEdit.old_string, positions);
+    }
   }
+  return undefined;
+}
 
-  return 'UNKNOWN_ERROR';
+/**
+ * Per-edit status of a validate_all run: every failed edit with its own code and context
+ * Edits not listed applied cleanly (nothing is written while any edit fails).
+ */
+export function buildFailedEditsStatus(
+  failedEdits: FailedEdit[],
+  edits: Array<{ old_string: string } & Partial<EditOperation>>,
+  fileContent?: string
+): EditStatusEntry[] {
+  return failedEdits.map(failed => {
+    const edit = edits[failed.edit_index];
+    const entry: EditStatusEntry = {
+      edit_index: failed.edit_index,
+      status: 'failed',
+      error_code: failed.code,
+      message: failed.message,
+      old_string_preview: edit?.old_string.slice(0, 40),
+    };
+    const context = buildFailureContext(failed.code, edit, fileContent);
+    if (context && Object.keys(context).length > 0) {
+      entry.context = context;
+    }
+    return entry;
+  });
 }
 
 /**
  * Format multi_edit result for MCP response
- * Returns structured response object per CONTEXT.md decisions
+ * Returns structured response object per CONTEXT.md decisions; verbosity
+ * minimal reduces it to one summary line, full adds final content and a diff
  */
 export function formatMultiEditResponse(
   result: MultiEditResult,
   includeContent: boolean,
   totalEdits: number,
   fileContent?: string,
-  originalContent?: string,  // For dry-run diff generation
-  edits?: Array<{ old_string: string }>
-): SuccessResponse | ErrorEnvelope {
+  originalContent?: string,  // Content before the edits, for diff generation
+  edits?: Array<{ old_string: string } & Partial<EditOperation>>,
+  diffOptions: DiffPreviewOptions = {},
+  verbosity: Verbosity = 'normal'
+): SuccessResponse | MinimalSuccessResponse | ErrorEnvelope {
+  if (result.success && verbosity === 'minimal') {
+    const replacements = result.results.reduce((sum, r) => sum + r.replaced, 0);
+    const span = describeChangedSpan(result.changes);
+    const response: MinimalSuccessResponse = {
+      success: true,
+      file_path: result.file_path,
+      edits_applied: result.edits_applied,
+      dry_run: result.dry_run,
+      summary_line: `${result.dry_run ? 'dry run ' : ''}ok: ${plural(result.edits_applied, 'edit')}, ` +
+        `${plural(replacements, 'replacement')}${span ? `, ${span}` : ''}`,
+    };
+    if (result.sha256) {
+      response.sha256 = result.sha256;
+    }
+    if (result.history_warning) {
+      response.history_warning = result.history_warning;
+    }
+    if (includeContent && result.final_content !== undefined) {
+      response.final_content = result.final_content;
+    }
+    return response;
+  }
+
   if (result.success) {
     const response: SuccessResponse = {
       success: true,
@@ -125,31 +595,63 @@ export function formatMultiEditResponse(
       edits_applied: result.edits_applied,
       dry_run: result.dry_run,
       edits: result.results.map(r => ({
+        ...(r.op && { op: r.op }),
         old_string: truncateForDisplay(r.old_string, 50),
         matched: r.success,
         occurrences_replaced: r.replaced,
+        ...(r.match_mode && { match_mode: r.match_mode }),
+        ...(r.line_range && { line_range: r.line_range }),
       })),
     };
 
-    // Add dry-run specific fields
+    if (result.results.some(r => r.line_range)) {
+      response.line_range_note = LINE_RANGE_NOTE;
+    }
+
+    if (result.changes) {
+      response.changes = result.changes;
+    }
+
     if (result.dry_run) {
       response.message = 'DRY RUN - No changes made to file';
-      // Generate diff preview if we have both original and final content
-      if (originalContent && result.final_content) {
-        response.diff_preview = generateDiffPreview(
-          originalContent,
-          result.final_content,
-          result.file_path
-        );
-      }
+    }
+
+    // Diff preview for dry runs, and for every call at full verbosity
+    if ((result.dry_run || verbosity === 'full') && originalContent && result.final_content) {
+      response.diff_preview = generateDiffPreview(
+        originalContent,
+        result.final_content,
+        result.file_path,
+        diffOptions
+      );
+    }
+
+    if (result.sha256) {
+      response.sha256 = result.sha256;
+    }
+
+    if (result.file_format) {
+      response.file_format = result.file_format;
+    }
+
+    if (result.written_in_place) {
+      response.written_in_place = true;
+    }
+
+    if (result.metadata_not_preserved) {
+      response.metadata_not_preserved = result.metadata_not_preserved;
     }
 
     if (result.backup_path) {
       response.backup_path = result.backup_path;
     }
 
+    if (result.history_warning) {
+      response.history_warning = result.history_warning;
+    }
+
     // Only include final_content when explicitly requested
-    if (includeContent && result.final_content) {
+    if ((includeContent || verbosity === 'full') && result.final_content) {
       response.final_content = result.final_content;
     }
 
@@ -160,82 +662,80 @@ export function formatMultiEditResponse(
   const failedIndex = result.failed_edit_index ?? 0;
   const rawError = result.error || 'Unknown error';
   const errorMessage = `Edit ${failedIndex + 1} of ${totalEdits} failed: ${rawError}`;
-  const errorCode = classifyErrorFromMessage(rawError);
-
-  // Build context based on error type
-  let context: ErrorContext | undefined;
+  const errorCode = result.failure?.code ?? 'UNKNOWN_ERROR';
 
-  if (errorCode === 'MATCH_NOT_FOUND' && fileContent) {
-    const failedEdit = result.results[failedIndex];
-    if (failedEdit) {
-      context = extractFileContext(fileContent, failedEdit.old_string);
-    }
-  } else if (errorCode === 'AMBIGUOUS_MATCH' && fileContent) {
-    const failedEdit = result.results[failedIndex];
-    if (failedEdit) {
-      // Re-find match positions using editor's findAllMatchPositions
-      const positions = findAllMatchPositions(fileContent, failedEdit.old_string);
-      if (positions.length > 0) {
-        context = extractMatchLocations(fileContent, failedEdit.old_string, positions);
-      }
-    }
-  }
+  // Prefer the submitted edit (carries match options); fall back to the recorded result
+  const failedEdit = edits?.[failedIndex] ?? result.results[failedIndex];
+  const context = result.failure?.context ?? buildFailureContext(errorCode, failedEdit, fileContent);
 
-  // Build per-edit status when original edits array is provided
+  // Build per-edit status when original edits array is provided; validate_all lists every failure
   let editStatus = undefined;
-  if (edits && edits.length > 0) {
+  if (result.failed_edits) {
+    editStatus = buildFailedEditsStatus(result.failed_edits, edits ?? result.results, fileContent);
+  } else if (edits && edits.length > 0) {
     editStatus = buildEditStatus(edits, failedIndex, errorCode, rawError);
   }
 
-  return createErrorEnvelope({
+  const failedCount = result.failed_edits?.length ?? 1;
+  const envelope = createErrorEnvelope({
     error_code: errorCode,
-    message: errorMessage,
+    message: failedCount > 1
+      ? `${failedCount} of ${totalEdits} edits failed ` +
+        `(edits ${result.failed_edits!.map(failed => failed.edit_index + 1).join(', ')}). ${rawError}`
+      : errorMessage,
     file_path: result.file_path,
     edit_index: failedIndex,
     context,
     edit_status: editStatus,
     backup_path: result.backup_path,
   });
+  return verbosity === 'minimal' ? trimErrorEnvelope(envelope) : envelope;
+}
+
+/**
+ * Options for dry-run diff previews
+ */
+export interface DiffPreviewOptions {
+  /** Unchanged lines around each change (default 3) */
+  context_lines?: number;
+  /** unified (absolute paths) or git (paths relative to the workspace root, for git apply; unified outside every root) */
+  format?: DiffFormat;
+  /** create / delete diff against /dev/null; move shows the new path */
+  file_operation?: FileOperation;
+  /** Destination of a moved file */
+  moved_to?: string;
+}
+
+/**
+ * Path of a file inside a workspace root as git apply sees it: relative to the root, with / separators
+ */
+function toGitPath(filePath: string): string {
+  return path.relative(findContainingRoot(filePath)!, filePath).split(path.sep).join('/');
 }
 
 /**
  * Generate diff preview for dry run
- * Shows line-by-line changes with line numbers for easier reference
+ * A unified diff with @@ hunks, or 'No changes' when the content and path stay the same.
+ * The git format needs a workspace root to make paths relative to, so a file outside
+ * every root (or any file when no roots are configured) gets the unified format instead.
  */
 export function generateDiffPreview(
   originalContent: string,
   newContent: string,
-  filePath: string
+  filePath: string,
+  options: DiffPreviewOptions = {}
 ): string {
-  // Handle no-change case
-  if (originalContent === newContent) {
-    return 'No changes';
-  }
-
-  // Simple diff - show changed lines with line numbers
-  const originalLines = originalContent.split('\n');
-  const newLines = newContent.split('\n');
+  const paths = options.moved_to !== undefined ? [filePath, options.moved_to] : [filePath];
+  const format = options.format === 'git' && paths.every(p => findContainingRoot(p) !== undefined)
+    ? 'git'
+    : 'unified';
+  const displayPath = format === 'git' ? toGitPath : (p: string) => p;
 
-  const changes: string[] = [];
-  changes.push(`--- ${filePath} (original)`);
-  changes.push(`+++ ${filePath} (modified)`);
-
-  // Simple line-by-line comparison with line numbers
-  const maxLines = Math.max(originalLines.length, newLines.length);
-  for (let i = 0; i < maxLines; i++) {
-    const origLine = originalLines[i];
-    const newLine = newLines[i];
-    const lineNum = i + 1; // 1-indexed line numbers
-
-    if (origLine !== newLine) {
-      if (origLine !== undefined) {
-        changes.push(`L${lineNum}: - ${origLine}`);
-      }
-      if (newLine !== undefined) {
-        changes.push(`L${lineNum}: + ${newLine}`);
-      }
-    }
-  }
-
-  return changes.join('\n');
+  const diff = formatUnifiedDiff(originalContent, newContent, {
+    old_path: options.file_operation === 'create' ? null : displayPath(filePath),
+    new_path: options.file_operation === 'delete' ? null : displayPath(options.moved_to ?? filePath),
+    context_lines: options.context_lines,
+    format,
+  });
+  return diff === '' ? 'No changes' : diff;
 }
@@ -0,0 +1,250 @@
+/**
+ * Fuzzy search for the region of a file closest to an old_string that was not found
+ *
+ * Candidate regions are windows of whole lines about as long as old_string,
+ * ranked cheaply by the character bigrams they share with it. The best few are
+ * diffed against old_string character by character, trimmed to the part that
+ * lines up with it, and scored like difflib's ratio: twice the matching
+ * characters over the combined length.
+ */
+
+import { diffLines } from './diff.js';
+import type { DiffLine } from './diff.js';
+import type { ClosestMatch } from '../types/index.js';
+
+/** Below this similarity the closest region is not reported */
+export const MIN_SIMILARITY = 0.6;
+
+/** Windows diffed character by character after the bigram ranking */
+const MAX_CANDIDATES = 5;
+
+/** Longest old_string searched for; longer ones get no closest match */
+const MAX_SEARCH_LENGTH = 10000;
+
+/** Most differences listed in closest_match.differences */
+const MAX_DIFFERENCES = 5;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const WORD_CHAR = /[\w$]/;
+
+/** A window of whole lines and its bigram score */
+interface Candidate {
+  start: number;
+  size: number;
+  score: number;
+}
+
+/**
+ * Character bigrams of a line, each packed into one number
+ */
+function bigrams(line: string): number[] {
+  const grams: number[] = [];
+  for (let i = 0; i + 1 < line.length; i++) {
+    grams.push(line.charCodeAt(i) * 0x10000 + line.charCodeAt(i + 1));
+  }
+  return grams;
+}
+
+/**
+ * Score every window of `size` lines by the Dice coefficient of its bigrams with the target
+ * The window slides one line at a time, updating the shared count incrementally.
+ */
+function rankWindows(
+  lineGrams: number[][],
+  target: Map<number, number>,
+  targetTotal: number,
+  size: number
+): Candidate[] {
+  const candidates: Candidate[] = [];
+  const counts = new Map<number, number>();
+  let shared = 0;
+  let total = 0;
+
+  const add = (gram: number) => {
+    const count = counts.get(gram) ?? 0;
+    if (count < (target.get(gram) ?? 0)) shared++;
+    counts.set(gram, count + 1);
+    total++;
+  };
+  const remove = (gram: number) => {
+    const count = counts.get(gram)! - 1;
+    if (count < (target.get(gram) ?? 0)) shared--;
+    counts.set(gram, count);
+    total--;
+  };
+
+  for (let end = 0; end < lineGrams.length; end++) {
+    lineGrams[end].forEach(add);
+    const start = end - size + 1;
+    if (start < 0) continue;
+    if (shared > 0) {
+      candidates.push({ start, size, score: (2 * shared) / (targetTotal + total) });
+    }
+    lineGrams[start].forEach(remove);
+  }
+
+  return candidates;
+}
+
+/**
+ * Describe one changed stretch of the diff, widened to whole words for identifiers
+ */
+function describeDifference(
+  search: string[],
+  region: string[],
+  searchAt: number,
+  regionAt: number,
+  deleted: string,
+  inserted: string
+): string {
+  if (/^\s*$/.test(deleted + inserted)) {
+    return 'whitespace';
+  }
+  if (/^['"`]+$/.test(deleted) && /^['"`]+$/.test(inserted)) {
+    return `quote style: ${deleted} in old_string, ${inserted} in the file`;
+  }
+
+  const word = (chars: string[], from: number, length: number): string => {
+    let start = from;
+    let end = from + length;
+    while (start > 0 && WORD_CHAR.test(chars[start - 1])) start--;
+    while (end < chars.length && WORD_CHAR.test(chars[end])) end++;
+    return chars.slice(start, end).join('');
+  };
+  const searchWord = word(search, searchAt, Array.from(deleted).length);
+  const regionWord = word(region, regionAt, Array.from(inserted).length);
+  if (IDENTIFIER.test(searchWord) && IDENTIFIER.test(regionWord) && searchWord !== regionWord) {
+    return searchWord.toLowerCase() === regionWord.toLowerCase()
+      ? `case: "${searchWord}" in old_string, "${regionWord}" in the file`
+      : `identifier: "${searchWord}" in old_string, "${regionWord}" in the file`;
+  }
+
+  if (deleted === '') {
+    return `only in the file: "${inserted}"`;
+  }
+  if (inserted === '') {
+    return `only in old_string: "${deleted}"`;
+  }
+  return `"${deleted}" in old_string, "${inserted}" in the file`;
+}
+
+/**
+ * Inline character diff ([-only in old_string-]{+only in the file+}) and what differs
+ */
+function describeDiff(search: string[], region: string[], diff: DiffLine[]): { diff: string; differences: string[] } {
+  const parts: string[] = [];
+  const differences = new Set<string>();
+  let searchAt = 0;
+  let regionAt = 0;
+
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type === 'equal') {
+      parts.push(diff[i].text);
+      searchAt++;
+      regionAt++;
+      i++;
+      continue;
+    }
+
+    let deleted = '';
+    let inserted = '';
+    while (i < diff.length && diff[i].type !== 'equal') {
+      if (diff[i].type === 'delete') deleted += diff[i].text;
+      else inserted += diff[i].text;
+      i++;
+    }
+    if (deleted !== '') parts.push(`[-${deleted}-]`);
+    if (inserted !== '') parts.push(`{+${inserted}+}`);
+
+    differences.add(describeDifference(search, region, searchAt, regionAt, deleted, inserted));
+    searchAt += Array.from(deleted).length;
+    regionAt += Array.from(inserted).length;
+  }
+
+  return { diff: parts.join(''), differences: [...differences].slice(0, MAX_DIFFERENCES) };
+}
+
+/**
+ * Diff old_string against a window, trimming file text before and after the part that lines up
+ */
+function compareWindow(
+  search: string[],
+  lines: string[],
+  candidate: Candidate
+): ClosestMatch | undefined {
+  const window = Array.from(lines.slice(candidate.start, candidate.start + candidate.size).join('\n'));
+  if (window.length > Math.max(10 * search.length, 1000)) {
+    return undefined;
+  }
+
+  const diff = diffLines(search, window);
+  let first = 0;
+  while (first < diff.length && diff[first].type === 'insert') first++;
+  let last = diff.length;
+  while (last > first && diff[last - 1].type === 'insert') last--;
+  const trimmed = diff.slice(first, last);
+
+  const leading = diff.slice(0, first).map(entry => entry.text).join('');
+  const region = trimmed.filter(entry => entry.type !== 'delete').map(entry => entry.text);
+  const equal = trimmed.filter(entry => entry.type === 'equal').length;
+  const similarity = (2 * equal) / (search.length + region.length);
+  if (region.length === 0 || similarity < MIN_SIMILARITY) {
+    return undefined;
+  }
+
+  const text = region.join('');
+  const startLine = candidate.start + 1 + leading.split('\n').length - 1;
+  return {
+    lines: { start: startLine, end: startLine + text.split('\n').length - 1 },
+    similarity: Math.round(similarity * 100) / 100,
+    text,
+    ...describeDiff(search, region, trimmed),
+  };
+}
+
+/**
+ * Find the region of content most similar to a string that does not occur in it
+ *
+ * Returns undefined when nothing reaches MIN_SIMILARITY. The region's text is
+ * taken from the file, so it can be used as old_string as is (Windows line
+ * endings are compared and reported as '\n', the way edits are written).
+ */
+export function findClosestMatch(content: string, searchString: string): ClosestMatch | undefined {
+  if (searchString.trim().length < 3 || searchString.length > MAX_SEARCH_LENGTH) {
+    return undefined;
+  }
+
+  const normalized = searchString.includes('\r') ? content : content.replace(/\r\n/g, '\n');
+  const lines = normalized.replace(/^\uFEFF/, '').split('\n');
+  const searchLines = searchString.split('\n');
+
+  const target = new Map<number, number>();
+  let targetTotal = 0;
+  for (const gram of searchLines.flatMap(bigrams)) {
+    target.set(gram, (target.get(gram) ?? 0) + 1);
+    targetTotal++;
+  }
+  if (targetTotal === 0) {
+    return undefined;
+  }
+
+  // old_string may have gained or lost a line against the file
+  const lineGrams = lines.map(bigrams);
+  const sizes = [searchLines.length, searchLines.length - 1, searchLines.length + 1]
+    .filter(size => size >= 1 && size <= lines.length);
+  const candidates = sizes
+    .flatMap(size => rankWindows(lineGrams, target, targetTotal, size))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+
+  const search = Array.from(searchString);
+  let best: ClosestMatch | undefined;
+  for (const candidate of candidates) {
+    const match = compareWindow(search, lines, candidate);
+    if (match && (best === undefined || match.similarity > best.similarity)) {
+      best = match;
+    }
+  }
+  return best;
+}
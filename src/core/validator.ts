@@ -5,18 +5,144 @@
 import { z } from 'zod';
 import path from 'node:path';
 import fs from 'node:fs/promises';
-import type { ValidationError, ValidationResult, MultiEditInput, MultiEditFilesInput } from '../types/index.js';
+import type {
+  ValidationError,
+  ValidationResult,
+  MultiEditInput,
+  MultiEditFilesInput,
+  FileEditEntry,
+  EditOp,
+  LineRange,
+} from '../types/index.js';
 import { truncateForDisplay } from './reporter.js';
+import { buildEditRegex, computeSha256, findContentMismatches } from './editor.js';
+import { checkWorkspacePolicy } from './workspace.js';
 
 /**
- * Schema for a single edit operation
+ * Schema for a 1-based occurrence index (negative counts from the end)
+ */
+const OccurrenceSchema = z.number().int().refine(
+  n => n !== 0,
+  'occurrence is 1-based; use -1 for the last match'
+);
+
+/**
+ * Schema for an inclusive 1-based line range
+ */
+const LineRangeSchema = z.object({
+  start: z.number().int().min(1, 'line_range.start is a 1-based line number'),
+  end: z.number().int().min(1, 'line_range.end is a 1-based line number'),
+}).refine(range => range.end >= range.start, {
+  message: 'line_range.end must not be before line_range.start',
+  path: ['end'],
+});
+
+/**
+ * Match options shared by every operation that searches for old_string
  */
-export const EditOperationSchema = z.object({
+const MatchOptionsShape = {
+  replace_all: z.boolean().optional().default(false),
+  case_insensitive: z.boolean().optional().default(false),
+  preserve_case: z.boolean().optional().default(false),
+  regex: z.boolean().optional().default(false),
+  flags: z.string().regex(/^[gimsu]*$/, 'flags may only contain g, i, m, s, u').optional(),
+  match_mode: z.enum(['exact', 'ignore_whitespace', 'ignore_indentation']).optional().default('exact'),
+  occurrence: z.union([OccurrenceSchema, z.array(OccurrenceSchema).min(1)]).optional(),
+  line_hint: z.number().int().min(1, 'line_hint is a 1-based line number').optional(),
+  line_range: LineRangeSchema.optional(),
+};
+
+/**
+ * Schema for a replace operation (the default when op is omitted)
+ */
+export const ReplaceEditSchema = z.object({
+  op: z.literal('replace'),
   old_string: z.string().min(1, 'old_string cannot be empty'),
   new_string: z.string(),
-  replace_all: z.boolean().optional().default(false),
+  ...MatchOptionsShape,
+});
+
+/**
+ * Schema for insert_before / insert_after: old_string is the anchor, new_string is inserted
+ */
+export const InsertEditSchema = z.object({
+  op: z.enum(['insert_before', 'insert_after']),
+  old_string: z.string().min(1, 'old_string cannot be empty'),
+  new_string: z.string().min(1, 'new_string is the text to insert and cannot be empty'),
+  ...MatchOptionsShape,
+});
+
+/**
+ * Schema for a delete operation: removes the matched old_string
+ */
+export const DeleteEditSchema = z.object({
+  op: z.literal('delete'),
+  old_string: z.string().min(1, 'old_string cannot be empty'),
+  new_string: z.literal('', {
+    errorMap: () => ({ message: 'new_string must be omitted or empty for delete' }),
+  }).optional().default(''),
+  ...MatchOptionsShape,
+});
+
+/**
+ * Schema for prepend_file / append_file: new_string is added at the start or end of the file
+ */
+export const FileEdgeEditSchema = z.object({
+  op: z.enum(['prepend_file', 'append_file']),
+  old_string: z.literal('', {
+    errorMap: () => ({ message: 'old_string must be omitted for prepend_file and append_file' }),
+  }).optional().default(''),
+  new_string: z.string().min(1, 'new_string is the text to add and cannot be empty'),
 });
 
+/**
+ * Schema for a single edit operation
+ * Edits without an op are replace operations, so existing payloads keep working.
+ */
+export const EditOperationSchema = z.preprocess(
+  (value) => (
+    value !== null && typeof value === 'object' && !('op' in value)
+      ? { ...value, op: 'replace' }
+      : value
+  ),
+  z.discriminatedUnion('op', [
+    ReplaceEditSchema,
+    InsertEditSchema,
+    DeleteEditSchema,
+    FileEdgeEditSchema,
+  ])
+);
+
+/**
+ * Optimistic concurrency fields shared by multi_edit and multi_edit_files entries
+ */
+const ExpectedSha256Schema = z.string().regex(
+  /^[0-9a-fA-F]{64}$/,
+  'expected_sha256 must be a 64-character hex SHA-256 digest'
+);
+const ExpectedMtimeSchema = z.string().datetime({
+  offset: true,
+  message: 'expected_mtime must be an ISO 8601 timestamp',
+});
+
+/**
+ * Schema for a file's character encoding
+ */
+const EncodingSchema = z.enum(['utf-8', 'latin1', 'utf-16le', 'utf-16be', 'shift_jis']);
+
+/**
+ * Dry-run diff options shared by multi_edit and multi_edit_files
+ */
+const DiffOptionsShape = {
+  diff_context_lines: z.number().int().min(0, 'diff_context_lines cannot be negative').optional().default(3),
+  diff_format: z.enum(['unified', 'git']).optional().default('unified'),
+};
+
+/**
+ * Schema for the response verbosity
+ */
+const VerbositySchema = z.enum(['minimal', 'normal', 'full']).optional().default('normal');
+
 /**
  * Schema for multi_edit input
  */
@@ -24,8 +150,14 @@ export const MultiEditInputSchema = z.object({
   file_path: z.string().min(1, 'file_path is required'),
   edits: z.array(EditOperationSchema).min(1, 'At least one edit is required'),
   dry_run: z.boolean().optional().default(false),
+  validate_all: z.boolean().optional().default(false),
   backup: z.boolean().optional().default(true),
   include_content: z.boolean().optional().default(false),
+  expected_sha256: ExpectedSha256Schema.optional(),
+  expected_mtime: ExpectedMtimeSchema.optional(),
+  encoding: EncodingSchema.optional(),
+  verbosity: VerbositySchema,
+  ...DiffOptionsShape,
 });
 
 /**
@@ -35,12 +167,48 @@ export const MultiEditFilesInputSchema = z.object({
   files: z.array(
     z.object({
       file_path: z.string().min(1),
-      edits: z.array(EditOperationSchema).min(1),
-    })
+      edits: z.array(EditOperationSchema).min(1).optional(),
+      create: z.object({ content: z.string() }).optional(),
+      delete: z.literal(true).optional(),
+      move_to: z.string().min(1).optional(),
+      expected_sha256: ExpectedSha256Schema.optional(),
+      expected_mtime: ExpectedMtimeSchema.optional(),
+      encoding: EncodingSchema.optional(),
+    }).refine(
+      (file) => file.create === undefined ||
+        (file.expected_sha256 === undefined && file.expected_mtime === undefined),
+      { message: 'expected_sha256 and expected_mtime do not apply to create entries', path: ['create'] }
+    ).refine(
+      (file) => file.move_to === undefined
+        ? [file.edits, file.create, file.delete].filter(v => v !== undefined).length === 1
+        : file.create === undefined && file.delete === undefined,
+      {
+        message: 'Each file needs exactly one of edits, create or delete (move_to combines only with edits)',
+        path: ['edits'],
+      }
+    )
   ).min(1, 'At least one file is required'),
   dry_run: z.boolean().optional().default(false),
+  validate_all: z.boolean().optional().default(false),
   backup: z.boolean().optional().default(true),
   include_content: z.boolean().optional().default(false),
+  verbosity: VerbositySchema,
+  ...DiffOptionsShape,
+});
+
+/**
+ * Schema for undo_edit input
+ */
+export const UndoEditInputSchema = z.object({
+  count: z.number().int().min(1, 'count must be at least 1').optional().default(1),
+  force: z.boolean().optional().default(false),
+});
+
+/**
+ * Schema for list_edit_history input
+ */
+export const ListEditHistoryInputSchema = z.object({
+  limit: z.number().int().min(1, 'limit must be at least 1').optional().default(10),
 });
 
 /**
@@ -57,6 +225,20 @@ export function validateMultiEditFilesInput(input: unknown) {
   return MultiEditFilesInputSchema.safeParse(input);
 }
 
+/**
+ * Validate undo_edit input
+ */
+export function validateUndoEditInput(input: unknown) {
+  return UndoEditInputSchema.safeParse(input ?? {});
+}
+
+/**
+ * Validate list_edit_history input
+ */
+export function validateListEditHistoryInput(input: unknown) {
+  return ListEditHistoryInputSchema.safeParse(input ?? {});
+}
+
 /**
  * Check if file path is absolute
  * @deprecated Use validatePath for comprehensive path validation
@@ -96,15 +278,16 @@ export function validatePath(filePath: string): ValidationError | null {
 
 /**
  * Validate that a file exists and is accessible
- * Uses fs.realpath which resolves symlinks and checks existence
+ * Uses fs.realpath which resolves symlinks and checks existence,
+ * then applies the workspace policy (roots and deny globs) to the resolved path
  * Returns resolved path on success, ValidationError on failure
  */
 export async function validateFileExists(
   filePath: string
 ): Promise<{ resolvedPath: string } | ValidationError> {
+  let resolvedPath: string;
   try {
-    const resolvedPath = await fs.realpath(filePath);
-    return { resolvedPath };
+    resolvedPath = await fs.realpath(filePath);
   } catch (error) {
     const nodeError = error as NodeJS.ErrnoException;
     const code = nodeError.code || 'UNKNOWN';
@@ -147,6 +330,80 @@ export async function validateFileExists(
         };
     }
   }
+
+  return checkWorkspacePolicy(resolvedPath) ?? { resolvedPath };
+}
+
+/**
+ * Check that a file to be created does not exist yet and that its parent directory does
+ * Symlinks in the parent directory are resolved so the returned path is comparable
+ * with the resolved paths of existing files, and the workspace policy is applied to it
+ */
+export async function validateFileAbsent(
+  filePath: string
+): Promise<{ resolvedPath: string } | ValidationError> {
+  // lstat so that a dangling symlink also counts as existing
+  const exists = await fs.lstat(filePath).then(() => true, () => false);
+  if (exists) {
+    return {
+      code: 'FILE_ALREADY_EXISTS',
+      message: `File already exists: "${truncateForDisplay(filePath, 50)}"`,
+      path: ['file_path'],
+      recovery_hint: 'Use edits to change an existing file, or choose a new path',
+    };
+  }
+
+  const parent = await validateFileExists(path.dirname(filePath));
+  if ('code' in parent) {
+    if (parent.code === 'FILE_NOT_FOUND') {
+      return {
+        ...parent,
+        message: `Parent directory does not exist: "${truncateForDisplay(path.dirname(filePath), 50)}"`,
+        recovery_hint: 'Create files only in existing directories',
+      };
+    }
+    return parent;
+  }
+
+  const resolvedPath = path.join(parent.resolvedPath, path.basename(filePath));
+  return checkWorkspacePolicy(resolvedPath) ?? { resolvedPath };
+}
+
+/**
+ * Check a file against the expected_sha256 / expected_mtime the caller last saw
+ * Returns STALE_CONTENT with the current values in context when either differs.
+ * This early check rejects stale calls before any work; the edit checks again
+ * against the bytes it reads, so a write in between is still caught.
+ */
+export async function checkExpectedContent(
+  filePath: string,
+  expected: { expected_sha256?: string; expected_mtime?: string }
+): Promise<ValidationError | null> {
+  if (expected.expected_sha256 === undefined && expected.expected_mtime === undefined) {
+    return null;
+  }
+
+  let current: { sha256: string; mtime_ms: number };
+  try {
+    const [buffer, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+    current = { sha256: computeSha256(buffer), mtime_ms: Math.trunc(stats.mtimeMs) };
+  } catch {
+    // Unreadable files are reported when the edit reads them
+    return null;
+  }
+
+  const mismatches = findContentMismatches(current, expected);
+  if (mismatches.length === 0) {
+    return null;
+  }
+
+  return {
+    code: 'STALE_CONTENT',
+    message: `File changed since it was read: "${truncateForDisplay(filePath, 50)}" (${mismatches.join('; ')})`,
+    path: ['file_path'],
+    recovery_hint: 'Re-read the file and rebuild the edits against its current content',
+    context: { current_sha256: current.sha256, current_mtime: new Date(current.mtime_ms).toISOString() },
+  };
 }
 
 /**
@@ -175,29 +432,92 @@ export function detectOverlappingEdits(
   return [...new Set(conflicts)];
 }
 
+/**
+ * Key under which two edits count as duplicates: the same op on the same old_string with the same match selectors
+ */
+function duplicateKey(edit: {
+  old_string: string;
+  op?: EditOp;
+  occurrence?: number | number[];
+  line_hint?: number;
+  line_range?: LineRange;
+}): string {
+  const range = edit.line_range ? [edit.line_range.start, edit.line_range.end] : null;
+  return JSON.stringify([
+    edit.op ?? 'replace',
+    edit.old_string,
+    edit.occurrence ?? null,
+    edit.line_hint ?? null,
+    range,
+  ]);
+}
+
 /**
  * Detect duplicate old_strings in edits array
+ * Edits that reuse an old_string with a different op (insert_before and
+ * insert_after on one anchor) or with different occurrence, line_hint or
+ * line_range selectors are not duplicates.
  * Returns ValidationError[] for any duplicates found
  */
 export function detectDuplicateOldStrings(
-  edits: Array<{ old_string: string; new_string: string }>
+  edits: Array<{
+    old_string: string;
+    new_string: string;
+    op?: EditOp;
+    occurrence?: number | number[];
+    line_hint?: number;
+    line_range?: LineRange;
+  }>
 ): ValidationError[] {
   const errors: ValidationError[] = [];
-  const seen = new Map<string, number>(); // old_string -> first occurrence index
+  const seen = new Map<string, number>(); // duplicate key -> first occurrence index
 
   for (let i = 0; i < edits.length; i++) {
+    // prepend_file / append_file do not search, so they have no old_string to compare
+    if (edits[i].op === 'prepend_file' || edits[i].op === 'append_file') continue;
+
     const oldString = edits[i].old_string;
-    const firstIndex = seen.get(oldString);
+    const key = duplicateKey(edits[i]);
+    const firstIndex = seen.get(key);
 
     if (firstIndex !== undefined) {
       errors.push({
         code: 'DUPLICATE_OLD_STRING',
         message: `Edit ${i + 1} of ${edits.length} has duplicate old_string: "${truncateForDisplay(oldString, 30)}" (first seen at edit ${firstIndex + 1})`,
         path: ['edits', String(i), 'old_string'],
-        recovery_hint: 'Each edit must have a unique old_string. Combine edits or make old_strings more specific.',
+        recovery_hint: 'Each edit must have a unique old_string. Combine edits, make old_strings more specific, or select different matches with occurrence, line_hint or line_range.',
       });
     } else {
-      seen.set(oldString, i);
+      seen.set(key, i);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Detect regex-mode edits whose pattern or flags do not compile
+ * Returns ValidationError[] for any invalid patterns found
+ */
+export function detectInvalidRegexPatterns(
+  edits: Array<{ old_string: string; regex?: boolean; flags?: string }>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i];
+    if (!edit.regex) continue;
+
+    try {
+      buildEditRegex(edit.old_string, edit.flags);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      errors.push({
+        code: 'INVALID_REGEX',
+        message: `Edit ${i + 1} of ${edits.length} has invalid regular expression: ${reason}`,
+        path: ['edits', String(i), 'old_string'],
+        recovery_hint: 'Fix the pattern syntax, or escape special characters and set regex: false for literal matching',
+      });
     }
   }
 
@@ -247,8 +567,9 @@ export function formatZodErrors(zodError: z.ZodError): ValidationError[] {
  * Full validation for multi_edit input with layered checks
  * Layer 1: Schema validation (Zod)
  * Layer 2: Path validation (absolute, no traversal)
- * Layer 3: Duplicate detection
+ * Layer 3: Duplicate detection and regex pattern compilation
  * Layer 4: File existence check (async)
+ * Layer 5: Expected content check (expected_sha256 / expected_mtime)
  */
 export async function validateMultiEditInputFull(
   input: unknown
@@ -273,7 +594,7 @@ export async function validateMultiEditInputFull(
     };
   }
 
-  // Layer 3: Duplicate detection
+  // Layer 3: Duplicate detection and regex compilation
   const duplicateErrors = detectDuplicateOldStrings(data.edits);
   if (duplicateErrors.length > 0) {
     return {
@@ -282,6 +603,14 @@ export async function validateMultiEditInputFull(
     };
   }
 
+  const regexErrors = detectInvalidRegexPatterns(data.edits);
+  if (regexErrors.length > 0) {
+    return {
+      success: false,
+      errors: regexErrors,
+    };
+  }
+
   // Layer 4: File existence check
   const existsResult = await validateFileExists(data.file_path);
   if ('code' in existsResult) {
@@ -292,6 +621,15 @@ export async function validateMultiEditInputFull(
     };
   }
 
+  // Layer 5: Expected content check
+  const staleError = await checkExpectedContent(existsResult.resolvedPath, data);
+  if (staleError) {
+    return {
+      success: false,
+      errors: [staleError],
+    };
+  }
+
   // Return validated data with potentially resolved path
   return {
     success: true,
@@ -305,17 +643,21 @@ export async function validateMultiEditInputFull(
 /**
  * Detect duplicate file paths across the files array
  * Resolves symlinks before comparison for accurate duplicate detection
+ * (for create entries and move_to destinations, symlinks in the parent directory).
+ * A move_to destination must not exist yet and must not be used by another entry.
  */
 export async function detectDuplicateFilePaths(
-  files: Array<{ file_path: string }>
+  files: Array<Pick<FileEditEntry, 'file_path' | 'create' | 'move_to'>>
 ): Promise<ValidationError[]> {
   const errors: ValidationError[] = [];
   const resolvedMap = new Map<string, number>(); // resolved_path -> first_occurrence_index
 
   for (let i = 0; i < files.length; i++) {
-    const existsResult = await validateFileExists(files[i].file_path);
+    const existsResult = files[i].create
+      ? await validateFileAbsent(files[i].file_path)
+      : await validateFileExists(files[i].file_path);
 
-    // If file doesn't exist, skip for duplicate detection (existence check catches it later)
+    // If the path can't be resolved, skip for duplicate detection (existence check catches it later)
     if ('code' in existsResult) {
       continue;
     }
@@ -335,18 +677,49 @@ export async function detectDuplicateFilePaths(
     }
   }
 
+  // Destinations are checked after all sources so collisions are found in either order
+  for (let i = 0; i < files.length; i++) {
+    // Invalid destinations are reported by path validation instead
+    const moveTo = files[i].move_to;
+    if (moveTo === undefined || validatePath(moveTo)) {
+      continue;
+    }
+
+    const absentResult = await validateFileAbsent(moveTo);
+    if ('code' in absentResult) {
+      errors.push({
+        ...absentResult,
+        path: ['files', String(i), 'move_to'],
+      });
+      continue;
+    }
+
+    const firstIndex = resolvedMap.get(absentResult.resolvedPath);
+    if (firstIndex !== undefined) {
+      errors.push({
+        code: 'DUPLICATE_FILE_PATH',
+        message: `Duplicate file path: move_to "${moveTo}" resolves to same location as files[${firstIndex}]`,
+        path: ['files', String(i), 'move_to'],
+        recovery_hint: 'Choose a move_to destination that no other entry uses',
+      });
+    } else {
+      resolvedMap.set(absentResult.resolvedPath, i);
+    }
+  }
+
   return errors;
 }
 
 /**
- * Full 5-layer validation pipeline for multi-file input
+ * Full 6-layer validation pipeline for multi-file input
  * Collects ALL errors across ALL files before returning
  *
  * Layer 1: Zod schema validation (hard stop if fails — subsequent layers need parsed data)
  * Layer 2: Per-file path validation (absolute, no traversal)
- * Layer 3: Cross-file duplicate path detection (symlink-aware)
- * Layer 4: Per-file existence check
- * Layer 5: Per-file duplicate old_string detection
+ * Layer 3: Cross-file duplicate path detection (symlink-aware, including move_to destinations)
+ * Layer 4: Per-file existence check (create entries must not exist yet)
+ * Layer 5: Per-file duplicate old_string and invalid regex detection
+ * Layer 6: Per-file expected content check (expected_sha256 / expected_mtime)
  */
 export async function validateMultiEditFilesInputFull(
   input: unknown
@@ -363,7 +736,7 @@ export async function validateMultiEditFilesInputFull(
   const data = schemaResult.data;
   const allErrors: ValidationError[] = [];
 
-  // Layers 2-5 run and collect all errors before returning
+  // Layers 2-6 run and collect all errors before returning
 
   // Layer 2: Per-file path validation
   for (let i = 0; i < data.files.length; i++) {
@@ -374,6 +747,14 @@ export async function validateMultiEditFilesInputFull(
         path: ['files', String(i), 'file_path'],
       });
     }
+    const moveTo = data.files[i].move_to;
+    const moveToError = moveTo !== undefined ? validatePath(moveTo) : null;
+    if (moveToError) {
+      allErrors.push({
+        ...moveToError,
+        path: ['files', String(i), 'move_to'],
+      });
+    }
   }
 
   // Layer 3: Cross-file duplicate path detection
@@ -382,8 +763,11 @@ export async function validateMultiEditFilesInputFull(
 
   // Layer 4: Per-file existence check (also collect resolved paths)
   const resolvedPaths = new Map<number, string>(); // index -> resolved path
+  const resolvedDestinations = new Map<number, string>(); // index -> resolved move_to
   for (let i = 0; i < data.files.length; i++) {
-    const existsResult = await validateFileExists(data.files[i].file_path);
+    const existsResult = data.files[i].create
+      ? await validateFileAbsent(data.files[i].file_path)
+      : await validateFileExists(data.files[i].file_path);
     if ('code' in existsResult) {
       allErrors.push({
         ...existsResult,
@@ -392,11 +776,24 @@ export async function validateMultiEditFilesInputFull(
     } else {
       resolvedPaths.set(i, existsResult.resolvedPath);
     }
+
+    // Destination errors were already reported by Layer 3
+    const moveTo = data.files[i].move_to;
+    if (moveTo !== undefined) {
+      const absentResult = await validateFileAbsent(moveTo);
+      if (!('code' in absentResult)) {
+        resolvedDestinations.set(i, absentResult.resolvedPath);
+      }
+    }
   }
 
-  // Layer 5: Per-file duplicate old_string detection
+  // Layer 5: Per-file duplicate old_string and invalid regex detection
   for (let i = 0; i < data.files.length; i++) {
-    const dupErrors = detectDuplicateOldStrings(data.files[i].edits);
+    const edits = data.files[i].edits ?? [];
+    const dupErrors = [
+      ...detectDuplicateOldStrings(edits),
+      ...detectInvalidRegexPatterns(edits),
+    ];
     for (const dupError of dupErrors) {
       allErrors.push({
         ...dupError,
@@ -405,6 +802,20 @@ export async function validateMultiEditFilesInputFull(
     }
   }
 
+  // Layer 6: Per-file expected content check (existing files only)
+  for (const [i, resolvedPath] of resolvedPaths) {
+    if (data.files[i].create) {
+      continue;
+    }
+    const staleError = await checkExpectedContent(resolvedPath, data.files[i]);
+    if (staleError) {
+      allErrors.push({
+        ...staleError,
+        path: ['files', String(i), 'file_path'],
+      });
+    }
+  }
+
   // If any errors were collected, return them all
   if (allErrors.length > 0) {
     return {
@@ -417,6 +828,7 @@ export async function validateMultiEditFilesInputFull(
   const resolvedFiles = data.files.map((file, i) => ({
     ...file,
     file_path: resolvedPaths.get(i) ?? file.file_path,
+    ...(file.move_to !== undefined && { move_to: resolvedDestinations.get(i) ?? file.move_to }),
   }));
 
   return {
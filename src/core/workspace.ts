@@ -0,0 +1,199 @@
+/**
+ * Workspace policy: allowed roots and deny globs
+ *
+ * Roots come from --root arguments or, when none are given, from the MCP
+ * client's roots. Paths are checked after symlink resolution, so a link inside
+ * a root that points outside of it is rejected like any other outside path.
+ */
+
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import type { ValidationError } from '../types/index.js';
+import { truncateForDisplay } from './reporter.js';
+
+/**
+ * Which files the tools may touch
+ */
+export interface WorkspacePolicy {
+  /** Absolute directories files must live under (empty: client roots, if any, apply) */
+  roots: string[];
+  /** Globs for paths that may never be touched, even inside a root */
+  deny: string[];
+}
+
+let policy: WorkspacePolicy = { roots: [], deny: [] };
+
+/**
+ * Roots reported by the MCP client (roots/list), used when policy.roots is empty
+ * null: the client does not offer roots, so nothing is restricted. An empty list
+ * (no file: roots, or roots/list failed) allows no path at all.
+ */
+let clientRoots: string[] | null = null;
+
+/**
+ * Get the active workspace policy
+ */
+export function getWorkspacePolicy(): WorkspacePolicy {
+  return policy;
+}
+
+/**
+ * Replace parts of the active workspace policy
+ * Roots should already be resolved with resolveWorkspaceRoots.
+ */
+export function setWorkspacePolicy(next: Partial<WorkspacePolicy>): void {
+  policy = {
+    roots: (next.roots ?? policy.roots).map(root => path.resolve(root)),
+    deny: next.deny ?? policy.deny,
+  };
+}
+
+/**
+ * Replace the roots reported by the MCP client
+ * Roots should already be resolved with resolveWorkspaceRoots. Pass null for a
+ * client without the roots capability and [] when its roots cannot be used.
+ */
+export function setClientRoots(roots: string[] | null): void {
+  clientRoots = roots?.map(root => path.resolve(root)) ?? null;
+}
+
+/**
+ * Roots currently enforced: --root arguments take precedence over client roots
+ * Returns null when nothing is restricted; an empty list allows no path.
+ */
+export function getEffectiveRoots(): string[] | null {
+  return policy.roots.length > 0 ? policy.roots : clientRoots;
+}
+
+/**
+ * Convert MCP root URIs to directory paths
+ * Only file: URIs name local directories; other schemes are ignored.
+ */
+export function rootUrisToPaths(uris: string[]): string[] {
+  return uris
+    .filter(uri => uri.startsWith('file:'))
+    .map(uri => fileURLToPath(uri));
+}
+
+/**
+ * Resolve symlinks in root directories so they compare equal to resolved file paths
+ * Roots that do not exist are kept as given.
+ */
+export async function resolveWorkspaceRoots(roots: string[]): Promise<string[]> {
+  return Promise.all(
+    roots.map(root => fs.realpath(root).catch(() => path.resolve(root)))
+  );
+}
+
+/**
+ * Parse --root <dir> and --deny <glob> command line arguments (repeatable, also --root=<dir>)
+ */
+export function parseWorkspaceArgs(argv: string[]): WorkspacePolicy {
+  const parsed: WorkspacePolicy = { roots: [], deny: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.includes('=') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    if (flag !== '--root' && flag !== '--deny') {
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    if (flag === '--root') {
+      parsed.roots.push(value);
+    } else {
+      parsed.deny.push(value);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a deny glob to a regular expression over absolute paths
+ *
+ * - `**` matches across directories, `*` and `?` within one path segment
+ * - Patterns without a slash (e.g. `.env*`) match the file name in any directory
+ * - Other patterns not starting with `/` may match at any depth
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob;
+  if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`;
+  } else if (!pattern.startsWith('/') && !pattern.startsWith('**/')) {
+    pattern = `**/${pattern}`;
+  }
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (pattern.startsWith('/**', i) && i + 3 === pattern.length) {
+      source += '(?:/.*)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a resolved path is inside (or equal to) a root directory
+ */
+function isInsideRoot(resolvedPath: string, root: string): boolean {
+  const relative = path.relative(root, resolvedPath);
+  return relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * The enforced root that contains a resolved path, if any
+ */
+export function findContainingRoot(resolvedPath: string): string | undefined {
+  return getEffectiveRoots()?.find(root => isInsideRoot(resolvedPath, root));
+}
+
+/**
+ * Check a symlink-resolved path against the workspace policy
+ * Returns null if allowed, ValidationError if outside every root or denied
+ */
+export function checkWorkspacePolicy(resolvedPath: string): ValidationError | null {
+  const roots = getEffectiveRoots();
+  if (roots !== null && !roots.some(root => isInsideRoot(resolvedPath, root))) {
+    return {
+      code: 'PATH_OUTSIDE_WORKSPACE',
+      message: `Path resolves outside the workspace roots: "${truncateForDisplay(resolvedPath, 50)}"`,
+      path: ['file_path'],
+      recovery_hint: roots.length > 0
+        ? `Only edit files under: ${roots.join(', ')}`
+        : 'The client reported no usable workspace roots (file: URIs); add the project directory as a root',
+    };
+  }
+
+  const deniedBy = policy.deny.find(glob => globToRegExp(glob).test(resolvedPath));
+  if (deniedBy !== undefined) {
+    return {
+      code: 'PATH_DENIED',
+      message: `Path is denied by workspace policy (${deniedBy}): "${truncateForDisplay(resolvedPath, 50)}"`,
+      path: ['file_path'],
+      recovery_hint: 'This file is protected from edits; choose a different file',
+    };
+  }
+
+  return null;
+}
@@ -5,10 +5,30 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
-
-const server = createServer();
+import {
+  parseWorkspaceArgs,
+  resolveWorkspaceRoots,
+  setWorkspacePolicy,
+} from './core/workspace.js';
+import { parseBackupArgs, setBackupConfig } from './core/backup.js';
+import { parseHistoryArgs, setHistoryConfig } from './core/history.js';
 
 async function main() {
+  // Workspace policy from --root <dir> and --deny <glob> arguments
+  const workspace = parseWorkspaceArgs(process.argv.slice(2));
+  setWorkspacePolicy({
+    roots: await resolveWorkspaceRoots(workspace.roots),
+    deny: workspace.deny,
+  });
+
+  // Backup strategy from --backup-strategy and --backup-dir arguments
+  setBackupConfig(parseBackupArgs(process.argv.slice(2)));
+
+  // Edit history journal location from --history-file
+  setHistoryConfig(parseHistoryArgs(process.argv.slice(2)));
+
+  // Created once the config is set: it starts crash recovery, which must see the same settings as the tools
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('EAIS MCP Multi-Edit Server running on stdio');
@@ -8,17 +8,381 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  RootsListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { handleMultiEdit } from './tools/multi-edit.js';
 import { handleMultiEditFiles } from './tools/multi-edit-files.js';
-import { createErrorEnvelope, classifyError } from './core/errors.js';
+import { handleUndoEdit } from './tools/undo-edit.js';
+import { handleListEditHistory } from './tools/list-edit-history.js';
+import { createErrorEnvelope, classifyError, ERROR_CODES } from './core/errors.js';
+import { createToolResult, summarizeErrorEnvelope } from './core/reporter.js';
+import {
+  resolveWorkspaceRoots,
+  rootUrisToPaths,
+  setClientRoots,
+} from './core/workspace.js';
+import { recoverTransactions } from './core/journal.js';
+
+const VERBOSITY_INPUT = {
+  type: 'string',
+  enum: ['minimal', 'normal', 'full'],
+  description: 'Response detail: minimal returns a one-line summary (or the error code and first hint), full adds the final content and a diff even when not a dry run. Default: normal',
+};
+
+const VALIDATE_ALL_INPUT = {
+  type: 'boolean',
+  description: 'Try every edit instead of stopping at the first failure, and report each failed edit with its own error code and context in edit_status (per file in file_statuses for multi_edit_files). Failed edits are skipped, so later edits run against the content left by the ones that applied. Nothing is written unless every edit succeeds. Combine with dry_run to only check. Default: false',
+};
+
+// Output schemas: the structuredContent of every tool.
+// Each response is either the tool's success shape (SuccessResponse,
+// MultiEditFilesResult, UndoEditResult, ListEditHistoryResult) or an
+// ErrorEnvelope, told apart by `success`.
+const EDIT_OP_ENUM = ['replace', 'insert_before', 'insert_after', 'delete', 'prepend_file', 'append_file'];
+const MATCH_MODE_ENUM = ['exact', 'ignore_whitespace', 'ignore_indentation'];
+const ENCODING_ENUM = ['utf-8', 'latin1', 'utf-16le', 'utf-16be', 'shift_jis'];
+const FILE_OPERATION_ENUM = ['create', 'delete', 'move'];
+
+const LINE_RANGE_OUTPUT = {
+  type: 'object',
+  properties: {
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+  },
+  required: ['start', 'end'],
+};
+
+const EDIT_CHANGE_OUTPUT = {
+  type: 'object',
+  properties: {
+    edit_index: { type: 'integer' },
+    start_line: { type: 'integer' },
+    start_column: { type: 'integer' },
+    end_line: { type: 'integer' },
+    end_column: { type: 'integer' },
+  },
+  required: ['edit_index', 'start_line', 'start_column', 'end_line', 'end_column'],
+  description: 'Where an edit landed in the final content (1-based, end exclusive)',
+};
+
+const FILE_FORMAT_OUTPUT = {
+  type: 'object',
+  properties: {
+    line_ending: { type: 'string', enum: ['lf', 'crlf'] },
+    bom: { type: 'boolean' },
+    encoding: { type: 'string', enum: ENCODING_ENUM },
+  },
+  required: ['line_ending', 'bom'],
+};
+
+const METADATA_ISSUES_OUTPUT = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string', enum: ['mode', 'owner'] },
+      error: { type: 'string' },
+    },
+    required: ['field', 'error'],
+  },
+};
+
+const ROLLBACK_DETAIL_OUTPUT = {
+  type: 'object',
+  properties: {
+    file_path: { type: 'string' },
+    status: { type: 'string', enum: ['restored', 'removed', 'moved_back', 'failed', 'skipped'] },
+    backup_path: { type: 'string' },
+    moved_from: { type: 'string' },
+    error: { type: 'string' },
+  },
+  required: ['file_path', 'status'],
+};
+
+const ROLLBACK_OUTPUT = {
+  type: 'object',
+  properties: {
+    files_rolled_back: { type: 'integer' },
+    files_failed_rollback: { type: 'integer' },
+    files_not_committed: { type: 'integer' },
+    details: { type: 'array', items: ROLLBACK_DETAIL_OUTPUT },
+    journal_path: { type: 'string' },
+  },
+  required: ['files_rolled_back', 'files_failed_rollback', 'details'],
+};
+
+const ERROR_CONTEXT_OUTPUT = {
+  type: 'object',
+  properties: {
+    snippet: { type: 'string' },
+    match_locations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          line: { type: 'integer' },
+          snippet: { type: 'string' },
+        },
+        required: ['line', 'snippet'],
+      },
+    },
+    current_sha256: { type: 'string' },
+    current_mtime: { type: 'string' },
+    conflicts: { type: 'array', items: { type: 'object' } },
+    closest_match: {
+      type: 'object',
+      properties: {
+        lines: LINE_RANGE_OUTPUT,
+        similarity: { type: 'number', minimum: 0, maximum: 1 },
+        text: { type: 'string' },
+        diff: { type: 'string', description: '[-only in old_string-]{+only in the file+}' },
+        differences: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['lines', 'similarity', 'text', 'diff', 'differences'],
+      description: 'Region most similar to an old_string that was not found',
+    },
+  },
+};
+
+const EDIT_STATUS_OUTPUT = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      edit_index: { type: 'integer' },
+      status: { type: 'string', enum: ['failed', 'skipped'] },
+      error_code: { type: 'string', enum: ERROR_CODES },
+      message: { type: 'string' },
+      old_string_preview: { type: 'string' },
+      context: ERROR_CONTEXT_OUTPUT,
+    },
+    required: ['edit_index', 'status'],
+  },
+  description: 'Failed and skipped edits; edits not listed were applied before the failure (and rolled back). With validate_all: every failed edit, none skipped',
+};
+
+const ERROR_ENVELOPE_PROPERTIES = {
+  success: { const: false },
+  error_code: { type: 'string', enum: ERROR_CODES },
+  message: { type: 'string' },
+  retryable: { type: 'boolean' },
+  file_path: { type: 'string' },
+  edit_index: { type: 'integer' },
+  recovery_hints: { type: 'array', items: { type: 'string' } },
+  context: ERROR_CONTEXT_OUTPUT,
+  edit_status: EDIT_STATUS_OUTPUT,
+  backup_path: { type: 'string' },
+};
+
+const ERROR_ENVELOPE_REQUIRED = ['success', 'error_code', 'message', 'retryable', 'recovery_hints'];
+
+const MULTI_EDIT_SUCCESS_OUTPUT = {
+  type: 'object',
+  properties: {
+    success: { const: true },
+    file_path: { type: 'string' },
+    edits_applied: { type: 'integer' },
+    dry_run: { type: 'boolean' },
+    summary_line: { type: 'string', description: 'One-line outcome, at minimal verbosity (which omits the other details)' },
+    message: { type: 'string' },
+    diff_preview: { type: 'string' },
+    edits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          op: { type: 'string', enum: EDIT_OP_ENUM },
+          old_string: { type: 'string' },
+          matched: { type: 'boolean' },
+          occurrences_replaced: { type: 'integer' },
+          match_mode: { type: 'string', enum: MATCH_MODE_ENUM },
+          line_range: LINE_RANGE_OUTPUT,
+        },
+        required: ['old_string', 'matched', 'occurrences_replaced'],
+      },
+    },
+    line_range_note: { type: 'string' },
+    changes: { type: 'array', items: EDIT_CHANGE_OUTPUT },
+    sha256: { type: 'string' },
+    file_format: FILE_FORMAT_OUTPUT,
+    written_in_place: { type: 'boolean' },
+    metadata_not_preserved: METADATA_ISSUES_OUTPUT,
+    backup_path: { type: 'string' },
+    history_warning: { type: 'string', description: 'Set when the edit could not be recorded in the edit history, so undo_edit cannot revert it' },
+    final_content: { type: 'string' },
+  },
+  required: ['success', 'file_path', 'edits_applied', 'dry_run'],
+};
+
+const MULTI_EDIT_FILES_SUCCESS_OUTPUT = {
+  type: 'object',
+  properties: {
+    success: { const: true },
+    files_edited: { type: 'integer' },
+    file_results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          file_path: { type: 'string' },
+          edits_applied: { type: 'integer' },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                old_string: { type: 'string' },
+                matches: { type: 'integer' },
+                replaced: { type: 'integer' },
+                op: { type: 'string', enum: EDIT_OP_ENUM },
+                match_mode: { type: 'string', enum: MATCH_MODE_ENUM },
+                line_range: LINE_RANGE_OUTPUT,
+                success: { type: 'boolean' },
+                error: { type: 'string' },
+              },
+              required: ['old_string', 'matches', 'replaced', 'success'],
+            },
+          },
+          dry_run: { type: 'boolean' },
+          message: { type: 'string' },
+          diff_preview: { type: 'string' },
+          changes: { type: 'array', items: EDIT_CHANGE_OUTPUT },
+          file_operation: { type: 'string', enum: FILE_OPERATION_ENUM },
+          moved_to: { type: 'string' },
+          sha256: { type: 'string' },
+          file_format: FILE_FORMAT_OUTPUT,
+          written_in_place: { type: 'boolean' },
+          metadata_not_preserved: METADATA_ISSUES_OUTPUT,
+          backup_path: { type: 'string' },
+          final_content: { type: 'string' },
+        },
+        required: ['file_path'],
+      },
+    },
+    dry_run: { type: 'boolean' },
+    summary_line: { type: 'string', description: 'One-line outcome, at minimal verbosity (file results then only carry paths and hashes)' },
+    summary: {
+      type: 'object',
+      properties: {
+        total_files: { type: 'integer' },
+        files_succeeded: { type: 'integer' },
+        files_failed: { type: 'integer' },
+        total_edits: { type: 'integer' },
+      },
+      required: ['total_files', 'files_succeeded', 'files_failed', 'total_edits'],
+    },
+    line_range_note: { type: 'string' },
+    history_warning: { type: 'string', description: 'Set when the call could not be recorded in the edit history, so undo_edit cannot revert it' },
+  },
+  required: ['success', 'files_edited', 'file_results', 'dry_run'],
+};
+
+const MULTI_EDIT_FILES_ERROR_OUTPUT = {
+  type: 'object',
+  properties: {
+    ...ERROR_ENVELOPE_PROPERTIES,
+    failed_phase: {
+      type: 'string',
+      enum: ['prepare', 'stage', 'commit'],
+      description: 'Pipeline phase that failed; absent when the input was rejected before any file was read',
+    },
+    rollback: ROLLBACK_OUTPUT,
+    file_statuses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file_path: { type: 'string' },
+          status: { type: 'string', enum: ['rolled_back', 'failed', 'skipped'] },
+          file_operation: { type: 'string', enum: FILE_OPERATION_ENUM },
+          error: { type: 'string' },
+          edit_status: EDIT_STATUS_OUTPUT,
+        },
+        required: ['file_path', 'status'],
+      },
+    },
+  },
+  required: ERROR_ENVELOPE_REQUIRED,
+};
 
 // Tool definitions
+const UNDONE_EDIT_OUTPUT = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tool: { type: 'string', enum: ['multi_edit', 'multi_edit_files'] },
+    timestamp: { type: 'string' },
+    files: { type: 'array', items: ROLLBACK_DETAIL_OUTPUT },
+  },
+  required: ['id', 'tool', 'timestamp', 'files'],
+};
+
+const UNDO_EDIT_SUCCESS_OUTPUT = {
+  type: 'object',
+  properties: {
+    success: { const: true },
+    edits_undone: { type: 'integer' },
+    undone: { type: 'array', items: UNDONE_EDIT_OUTPUT },
+    history_remaining: { type: 'integer' },
+  },
+  required: ['success', 'edits_undone', 'undone', 'history_remaining'],
+};
+
+const UNDO_EDIT_ERROR_OUTPUT = {
+  type: 'object',
+  properties: {
+    ...ERROR_ENVELOPE_PROPERTIES,
+    undone: {
+      type: 'array',
+      items: UNDONE_EDIT_OUTPUT,
+      description: 'Edits undone before the failure; they are removed from the history',
+    },
+  },
+  required: ERROR_ENVELOPE_REQUIRED,
+};
+
+const HISTORY_ENTRY_OUTPUT = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tool: { type: 'string', enum: ['multi_edit', 'multi_edit_files'] },
+    timestamp: { type: 'string' },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file_path: { type: 'string' },
+          operation: { type: 'string', enum: ['edit', ...FILE_OPERATION_ENUM] },
+          moved_to: { type: 'string' },
+          before_sha256: { type: 'string' },
+          after_sha256: { type: 'string' },
+          backup_path: { type: 'string' },
+          encoding: { type: 'string', enum: ENCODING_ENUM },
+        },
+        required: ['file_path', 'operation'],
+      },
+    },
+  },
+  required: ['id', 'tool', 'timestamp', 'files'],
+};
+
+const LIST_EDIT_HISTORY_SUCCESS_OUTPUT = {
+  type: 'object',
+  properties: {
+    success: { const: true },
+    total_entries: { type: 'integer' },
+    entries: { type: 'array', items: HISTORY_ENTRY_OUTPUT },
+  },
+  required: ['success', 'total_entries', 'entries'],
+};
+
 const TOOLS = [
   {
     name: 'multi_edit',
-    description: 'Perform multiple find-and-replace operations on a single file atomically. All edits succeed or none apply.',
+    description: 'Perform multiple find-and-replace, insert and delete operations on a single file atomically. All edits succeed or none apply.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -31,20 +395,66 @@ const TOOLS = [
           items: {
             type: 'object',
             properties: {
+              op: {
+                type: 'string',
+                enum: ['replace', 'insert_before', 'insert_after', 'delete', 'prepend_file', 'append_file'],
+                description: 'Operation (default: replace). insert_before/insert_after insert new_string next to the old_string anchor, delete removes old_string, prepend_file/append_file add new_string at the start/end of the file',
+              },
               old_string: {
                 type: 'string',
-                description: 'Text to find',
+                description: 'Text to find (the anchor for inserts; omit for prepend_file/append_file)',
               },
               new_string: {
                 type: 'string',
-                description: 'Replacement text',
+                description: 'Replacement text (the inserted text for inserts; omit for delete)',
               },
               replace_all: {
                 type: 'boolean',
                 description: 'Replace all occurrences (default: false)',
               },
+              case_insensitive: {
+                type: 'boolean',
+                description: 'Match old_string case-insensitively (default: false)',
+              },
+              preserve_case: {
+                type: 'boolean',
+                description: 'Match case-insensitively and adapt new_string to each match\'s casing, e.g. userId/UserId/USERID (default: false)',
+              },
+              match_mode: {
+                type: 'string',
+                enum: ['exact', 'ignore_whitespace', 'ignore_indentation'],
+                description: 'Whitespace tolerance when old_string has no exact match: ignore_whitespace treats any whitespace run as equal, ignore_indentation ignores leading indentation and re-indents new_string (default: exact)',
+              },
+              occurrence: {
+                oneOf: [
+                  { type: 'integer' },
+                  { type: 'array', items: { type: 'integer' }, minItems: 1 },
+                ],
+                description: 'Replace only these matches, 1-based; negative counts from the end (-1 = last). Use with match_locations from an AMBIGUOUS_MATCH error',
+              },
+              line_hint: {
+                type: 'integer',
+                minimum: 1,
+                description: 'Replace the single match nearest this line number (ignored when occurrence is set)',
+              },
+              line_range: {
+                type: 'object',
+                properties: {
+                  start: { type: 'integer', minimum: 1 },
+                  end: { type: 'integer', minimum: 1 },
+                },
+                required: ['start', 'end'],
+                description: 'Only match old_string within these lines (inclusive, 1-based). Lines are counted in the content after earlier edits in this call, not the original file',
+              },
+              regex: {
+                type: 'boolean',
+                description: 'Treat old_string as a JavaScript regular expression; new_string may reference $1 or $<name> captures (default: false)',
+              },
+              flags: {
+                type: 'string',
+                description: 'Regular expression flags when regex is true, any of "imsu" (the global flag is always applied)',
+              },
             },
-            required: ['old_string', 'new_string'],
           },
           minItems: 1,
           description: 'Array of edit operations (applied sequentially)',
@@ -53,21 +463,54 @@ const TOOLS = [
           type: 'boolean',
           description: 'Preview changes without applying (default: false)',
         },
+        validate_all: VALIDATE_ALL_INPUT,
         backup: {
           type: 'boolean',
-          description: 'Create .bak backup file before editing (default: true)',
+          description: 'Create a backup before editing, using the server\'s backup strategy (default: true)',
         },
         include_content: {
           type: 'boolean',
           description: 'Include final file content in response (default: false, use for verification)',
         },
+        diff_context_lines: {
+          type: 'number',
+          description: 'Unchanged lines shown around each change in the dry-run diff_preview (default: 3)',
+        },
+        diff_format: {
+          type: 'string',
+          enum: ['unified', 'git'],
+          description: 'Dry-run diff_preview style: unified (absolute paths) or git (a/ b/ paths relative to the workspace root, ready for git apply; files outside every root, or all files when no roots are configured, get unified). Default: unified',
+        },
+        expected_sha256: {
+          type: 'string',
+          description: 'Reject with STALE_CONTENT unless the file\'s SHA-256 (hex) still matches; use the sha256 from the previous response',
+        },
+        expected_mtime: {
+          type: 'string',
+          description: 'Reject with STALE_CONTENT unless the file\'s modification time (ISO 8601) still matches',
+        },
+        encoding: {
+          type: 'string',
+          enum: ['utf-8', 'latin1', 'utf-16le', 'utf-16be', 'shift_jis'],
+          description: 'Encoding of the file (default: UTF-16 when it starts with a UTF-16 byte order mark, else UTF-8). The file is written back in the same encoding; characters it cannot represent fail with UNREPRESENTABLE_CHARACTER',
+        },
+        verbosity: VERBOSITY_INPUT,
       },
       required: ['file_path', 'edits'],
     },
+    outputSchema: {
+      type: 'object' as const,
+      properties: { success: { type: 'boolean' } },
+      required: ['success'],
+      oneOf: [
+        MULTI_EDIT_SUCCESS_OUTPUT,
+        { type: 'object', properties: ERROR_ENVELOPE_PROPERTIES, required: ERROR_ENVELOPE_REQUIRED },
+      ],
+    },
   },
   {
     name: 'multi_edit_files',
-    description: 'Perform coordinated edits across multiple files atomically. All file edits succeed or none apply.',
+    description: 'Perform coordinated edits across multiple files atomically, including creating, deleting and moving files. All file changes succeed or none apply.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -85,35 +528,152 @@ const TOOLS = [
                 items: {
                   type: 'object',
                   properties: {
+                    op: {
+                      type: 'string',
+                      enum: ['replace', 'insert_before', 'insert_after', 'delete', 'prepend_file', 'append_file'],
+                    },
                     old_string: { type: 'string' },
                     new_string: { type: 'string' },
                     replace_all: { type: 'boolean' },
+                    case_insensitive: { type: 'boolean' },
+                    preserve_case: { type: 'boolean' },
+                    regex: { type: 'boolean' },
+                    flags: { type: 'string' },
+                    match_mode: { type: 'string', enum: ['exact', 'ignore_whitespace', 'ignore_indentation'] },
+                    occurrence: {
+                      oneOf: [
+                        { type: 'integer' },
+                        { type: 'array', items: { type: 'integer' }, minItems: 1 },
+                      ],
+                    },
+                    line_hint: { type: 'integer', minimum: 1 },
+                    line_range: {
+                      type: 'object',
+                      properties: {
+                        start: { type: 'integer', minimum: 1 },
+                        end: { type: 'integer', minimum: 1 },
+                      },
+                      required: ['start', 'end'],
+                    },
                   },
-                  required: ['old_string', 'new_string'],
                 },
                 minItems: 1,
               },
+              create: {
+                type: 'object',
+                properties: {
+                  content: { type: 'string' },
+                },
+                required: ['content'],
+                description: 'Create a new file with this content instead of editing (the file must not exist)',
+              },
+              delete: {
+                type: 'boolean',
+                enum: [true],
+                description: 'Delete the file instead of editing it',
+              },
+              move_to: {
+                type: 'string',
+                description: 'Absolute path to move the file to after applying its edits (edits may be omitted to move it unchanged; the destination must not exist)',
+              },
+              expected_sha256: {
+                type: 'string',
+                description: 'Reject with STALE_CONTENT unless this file\'s SHA-256 (hex) still matches (not for create)',
+              },
+              expected_mtime: {
+                type: 'string',
+                description: 'Reject with STALE_CONTENT unless this file\'s modification time (ISO 8601) still matches (not for create)',
+              },
+              encoding: {
+                type: 'string',
+                enum: ['utf-8', 'latin1', 'utf-16le', 'utf-16be', 'shift_jis'],
+                description: 'Encoding of this file (default: UTF-16 by byte order mark, else UTF-8; created files default to UTF-8)',
+              },
             },
-            required: ['file_path', 'edits'],
+            required: ['file_path'],
           },
           minItems: 1,
-          description: 'Array of file edit operations',
+          description: 'Array of file operations; each entry has exactly one of edits, create or delete (move_to may replace edits)',
         },
         dry_run: {
           type: 'boolean',
           description: 'Preview changes without applying (default: false)',
         },
+        validate_all: VALIDATE_ALL_INPUT,
         backup: {
           type: 'boolean',
-          description: 'Ignored for multi-file operations (backups are always created as rollback mechanism). For single-file use multi_edit instead.',
+          description: 'Ignored for multi-file operations (backups follow the server\'s backup strategy and rollback works without them). For single-file use multi_edit instead.',
         },
         include_content: {
           type: 'boolean',
           description: 'Include final file content in response (default: false, use for verification)',
         },
+        diff_context_lines: {
+          type: 'number',
+          description: 'Unchanged lines shown around each change in the dry-run diff_preview (default: 3)',
+        },
+        diff_format: {
+          type: 'string',
+          enum: ['unified', 'git'],
+          description: 'Dry-run diff_preview style: unified (absolute paths) or git (a/ b/ paths relative to the workspace root, ready for git apply; files outside every root, or all files when no roots are configured, get unified). Default: unified',
+        },
+        verbosity: VERBOSITY_INPUT,
       },
       required: ['files'],
     },
+    outputSchema: {
+      type: 'object' as const,
+      properties: { success: { type: 'boolean' } },
+      required: ['success'],
+      oneOf: [MULTI_EDIT_FILES_SUCCESS_OUTPUT, MULTI_EDIT_FILES_ERROR_OUTPUT],
+    },
+  },
+  {
+    name: 'undo_edit',
+    description: 'Undo the most recent multi_edit / multi_edit_files calls, newest first, restoring files from their backups. Only edits inside the workspace roots are considered. Refuses with UNDO_CONFLICT if a file changed after the edit.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        count: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Number of most recent edits to undo (default: 1)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Undo even if files changed after the edit, discarding those changes (default: false)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object' as const,
+      properties: { success: { type: 'boolean' } },
+      required: ['success'],
+      oneOf: [UNDO_EDIT_SUCCESS_OUTPUT, UNDO_EDIT_ERROR_OUTPUT],
+    },
+  },
+  {
+    name: 'list_edit_history',
+    description: 'List recorded multi_edit / multi_edit_files calls, newest first, with the files each one changed, limited to the workspace roots. These are the edits undo_edit can revert.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Maximum number of entries to list (default: 10)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object' as const,
+      properties: { success: { type: 'boolean' } },
+      required: ['success'],
+      oneOf: [
+        LIST_EDIT_HISTORY_SUCCESS_OUTPUT,
+        { type: 'object', properties: ERROR_ENVELOPE_PROPERTIES, required: ERROR_ENVELOPE_REQUIRED },
+      ],
+    },
   },
 ];
 
@@ -134,6 +694,49 @@ export function createServer(): Server {
     }
   );
 
+  // Roll back multi_edit_files transactions left unfinished by a server that died mid-write.
+  // Tool calls wait for this so they never see a half-edited project.
+  const recoveryReady: Promise<void> = recoverTransactions()
+    .then((recovered) => {
+      for (const { transaction_id, started_at, rollback } of recovered) {
+        console.error(
+          `Rolled back interrupted multi_edit_files transaction ${transaction_id} (started ${started_at}): ` +
+          `${rollback.files_rolled_back} file(s) restored, ${rollback.files_failed_rollback} failed, ` +
+          `${rollback.details.filter(detail => detail.status === 'skipped').length} changed since and skipped, ` +
+          `${rollback.files_not_committed ?? 0} staged temp file(s) removed`,
+          rollback.details
+        );
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to recover interrupted transactions:', error);
+    });
+
+  // Workspace roots from the client (MCP roots feature), refreshed on roots/list_changed.
+  // Tool calls wait for the latest refresh so they never run against stale roots.
+  // A client that offers roots but has none usable, or whose roots cannot be
+  // listed, gets no path at all; only a client without the capability is unrestricted.
+  let rootsReady: Promise<void> = Promise.resolve();
+  const refreshRoots = () => {
+    if (!server.getClientCapabilities()?.roots) {
+      setClientRoots(null);
+      return;
+    }
+    rootsReady = server.listRoots()
+      .then(async ({ roots }) => {
+        setClientRoots(await resolveWorkspaceRoots(rootUrisToPaths(roots.map(root => root.uri))));
+      })
+      .catch((error) => {
+        console.error('Failed to list client roots, refusing all paths:', error);
+        setClientRoots([]);
+      });
+  };
+  server.oninitialized = refreshRoots;
+  server.onclose = () => setClientRoots([]);
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    refreshRoots();
+  });
+
   // List tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return { tools: TOOLS };
@@ -142,6 +745,8 @@ export function createServer(): Server {
   // Call tool handler
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+    await recoveryReady;
+    await rootsReady;
 
     try {
       if (name === 'multi_edit') {
@@ -152,24 +757,26 @@ export function createServer(): Server {
         return await handleMultiEditFiles(args);
       }
 
+      if (name === 'undo_edit') {
+        return await handleUndoEdit(args);
+      }
+
+      if (name === 'list_edit_history') {
+        return await handleListEditHistory(args);
+      }
+
       const unknownEnvelope = createErrorEnvelope({
         error_code: 'UNKNOWN_TOOL',
         message: `Unknown tool: ${name}`,
       });
-      return {
-        content: [{ type: 'text', text: JSON.stringify(unknownEnvelope, null, 2) }],
-        isError: true,
-      };
+      return createToolResult(unknownEnvelope, summarizeErrorEnvelope(unknownEnvelope));
     } catch (error) {
       const classified = classifyError(error);
       const envelope = createErrorEnvelope({
         error_code: classified.error_code,
         message: classified.message,
       });
-      return {
-        content: [{ type: 'text', text: JSON.stringify(envelope, null, 2) }],
-        isError: true,
-      };
+      return createToolResult(envelope, summarizeErrorEnvelope(envelope));
     }
   });
 
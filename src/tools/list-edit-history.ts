@@ -0,0 +1,33 @@
+/**
+ * list_edit_history tool handler
+ *
+ * List the edits recorded in the edit history journal, newest first,
+ * so an agent can see what undo_edit would revert. Only edits inside the
+ * current workspace roots are listed.
+ */
+
+import { validateListEditHistoryInput, formatZodErrors } from '../core/validator.js';
+import { readEditHistory, isEntryInWorkspace } from '../core/history.js';
+import { createValidationErrorEnvelope } from '../core/errors.js';
+import { createToolResult, summarizeErrorEnvelope, summarizeListEditHistoryResponse } from '../core/reporter.js';
+import type { ToolResult } from '../core/reporter.js';
+import type { ListEditHistoryResult } from '../types/index.js';
+
+/**
+ * Handle list_edit_history tool call
+ */
+export async function handleListEditHistory(args: unknown): Promise<ToolResult> {
+  const parsed = validateListEditHistoryInput(args);
+  if (!parsed.success) {
+    const envelope = createValidationErrorEnvelope(formatZodErrors(parsed.error), 'Input validation failed');
+    return createToolResult(envelope, summarizeErrorEnvelope(envelope));
+  }
+
+  const history = (await readEditHistory()).filter(isEntryInWorkspace);
+  const response: ListEditHistoryResult = {
+    success: true,
+    total_entries: history.length,
+    entries: history.slice(-parsed.data.limit).reverse(),
+  };
+  return createToolResult(response, summarizeListEditHistoryResponse(response));
+}
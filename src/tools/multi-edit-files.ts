@@ -2,63 +2,104 @@
  * multi_edit_files tool handler
  *
  * Perform coordinated edits across multiple files atomically.
- * Uses a 3-phase pipeline: validate-all, backup+edit (fail-fast), rollback on failure.
+ * Files can also be created, deleted or moved as part of the same transaction.
+ * Every file's new content is computed in memory and staged in a temp file before
+ * the first target is touched, so only the final rename phase can need a rollback.
+ * That phase is journaled first, so a transaction cut short by a crash is
+ * rolled back when the server next starts.
  */
 
 import {
-  readFileValidated,
+  readTextFile,
+  checkContentState,
   applyEditsToContent,
   atomicWrite,
+  stageWrite,
+  commitStagedWrite,
+  discardStagedWrite,
   createBackup,
+  formatBackupError,
+  applyWriteOutcome,
+  deleteFile,
+  moveFile,
+  computeSha256,
 } from '../core/editor.js';
+import { DEFAULT_ENCODING, encodeText, checkEncodable } from '../core/encoding.js';
+import type { EncodedText } from '../core/encoding.js';
 import { validateMultiEditFilesInputFull } from '../core/validator.js';
+import { recordEditHistory } from '../core/history.js';
+import {
+  beginTransaction,
+  journalStagedWrite,
+  journalFileChange,
+  endTransaction,
+  getTransactionJournalPath,
+} from '../core/journal.js';
 import {
   formatMultiEditFilesResponse,
   createFilesSuccessResult,
   generateDiffPreview,
+  createToolResult,
+  summarizeMultiEditFilesResponse,
+  summarizeErrorEnvelope,
+  trimErrorEnvelope,
+  buildFailedEditsStatus,
 } from '../core/reporter.js';
-import { createErrorEnvelope, classifyError } from '../core/errors.js';
+import {
+  createErrorEnvelope,
+  createValidationErrorEnvelope,
+  classifyError,
+  isCodedError,
+} from '../core/errors.js';
 import type {
   MultiEditResult,
   MultiEditFilesInput,
+  FileEditEntry,
+  FileEncoding,
+  FileOperation,
+  HistoryFileRecord,
   ErrorCode,
+  ErrorEnvelope,
+  ErrorContext,
+  EditStatusEntry,
+  FailedPhase,
+  FileStatus,
+  MultiEditFilesErrorEnvelope,
   RollbackReport,
   RollbackDetail,
+  Verbosity,
 } from '../types/index.js';
-
-/**
- * Classify error code from a result error message string
- */
-function classifyErrorCodeFromMessage(errorMessage: string): ErrorCode {
-  const lower = errorMessage.toLowerCase();
-
-  if (lower.includes('not found')) {
-    return 'MATCH_NOT_FOUND';
-  }
-  if (lower.includes('matches at lines') || lower.includes('occurrences found')) {
-    return 'AMBIGUOUS_MATCH';
-  }
-  if (lower.includes('permission denied') || lower.includes('eacces')) {
-    return 'PERMISSION_DENIED';
-  }
-  if (lower.includes('utf-8') || lower.includes('encoding')) {
-    return 'INVALID_ENCODING';
-  }
-  if (lower.includes('backup failed')) {
-    return 'BACKUP_FAILED';
-  }
-
-  return 'UNKNOWN_ERROR';
-}
+import type { ToolResult } from '../core/reporter.js';
 
 /** Track a file that was written to disk and can be rolled back */
 interface WrittenFile {
   file_path: string;
-  backup_path: string;
+  /** Absent for created files and when the backup strategy is none */
+  backup_path?: string;
+  /** Content before the change and the bytes it was read from, used when there is no backup; absent for created files */
+  original?: EncodedText;
+  /** Set once the file has been moved, so rollback moves it back first */
+  moved_to?: string;
+  /** Encoding the file and its backup are written in */
+  encoding: FileEncoding;
+}
+
+/**
+ * File-level operation of an entry, undefined for plain edits
+ */
+function getFileOperation(file: FileEditEntry): FileOperation | undefined {
+  if (file.create) return 'create';
+  if (file.delete) return 'delete';
+  if (file.move_to !== undefined) return 'move';
+  return undefined;
 }
 
 /**
- * Roll back written files by restoring from .bak backups.
+ * Roll back written files by restoring from .bak backups
+ * (or from the in-memory original content when the backup strategy is none).
+ * Created files have no original content and are deleted instead; deleted files are
+ * recreated from their backup like edited ones; moved files are moved back
+ * to their original path before their content is restored.
  * Iterates in REVERSE order. Continues even if individual rollbacks fail.
  */
 async function rollbackFiles(writtenFiles: WrittenFile[]): Promise<RollbackReport> {
@@ -68,15 +109,27 @@ async function rollbackFiles(writtenFiles: WrittenFile[]): Promise<RollbackRepor
 
   // Reverse order for rollback
   for (let i = writtenFiles.length - 1; i >= 0; i--) {
-    const { file_path, backup_path } = writtenFiles[i];
+    const { file_path, backup_path, original, moved_to, encoding } = writtenFiles[i];
+    const backupField = backup_path !== undefined ? { backup_path } : {};
     try {
-      const backupContent = await readFileValidated(backup_path);
-      await atomicWrite(file_path, backupContent);
-      details.push({ file_path, status: 'restored', backup_path });
+      if (original === undefined) {
+        await deleteFile(file_path);
+        details.push({ file_path, status: 'removed' });
+      } else {
+        if (moved_to !== undefined) {
+          await moveFile(moved_to, file_path);
+        }
+        // Written back from the bytes read, so text is restored byte for byte
+        const restored = backup_path !== undefined ? await readTextFile(backup_path, encoding) : original;
+        await atomicWrite(file_path, restored.content, encoding, restored);
+        details.push(moved_to !== undefined
+          ? { file_path, status: 'moved_back', ...backupField, moved_from: moved_to }
+          : { file_path, status: 'restored', ...backupField });
+      }
       filesRolledBack++;
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Unknown rollback error';
-      details.push({ file_path, status: 'failed', backup_path, error: errMsg });
+      details.push({ file_path, status: 'failed', ...backupField, error: errMsg });
       filesFailedRollback++;
     }
   }
@@ -88,36 +141,107 @@ async function rollbackFiles(writtenFiles: WrittenFile[]): Promise<RollbackRepor
   };
 }
 
+/** A file whose new state has been computed in memory (and staged, outside dry runs) */
+interface PreparedFile {
+  entry: FileEditEntry;
+  /** Content before the call ('' for a file to be created) */
+  content: string;
+  /** Content before the call with the bytes it was read from; absent for a file to be created */
+  original?: EncodedText;
+  /** Encoding the file is read and written in */
+  encoding: FileEncoding;
+  result: MultiEditResult;
+  backup_path?: string;
+  /** Temp file holding the new content, renamed over the file on commit */
+  staged_path?: string;
+}
+
+/**
+ * Build the error response for a failure in one of the pipeline phases
+ */
+function failureResponse(
+  envelope: ErrorEnvelope,
+  failedPhase: FailedPhase,
+  extras: { rollback?: RollbackReport; file_statuses?: FileStatus[] } = {},
+  verbosity: Verbosity = 'normal'
+): ToolResult {
+  // Minimal verbosity keeps the rollback report but not the per-file statuses
+  const response: MultiEditFilesErrorEnvelope = {
+    ...(verbosity === 'minimal' ? trimErrorEnvelope(envelope) : envelope),
+    failed_phase: failedPhase,
+    ...(extras.rollback && { rollback: extras.rollback }),
+    ...(extras.file_statuses && verbosity !== 'minimal' && { file_statuses: extras.file_statuses }),
+  };
+  return createToolResult(response, summarizeMultiEditFilesResponse(response, verbosity));
+}
+
+/** A file that could not be read or whose edits failed in the prepare phase */
+interface PrepareFailure {
+  index: number;
+  code: ErrorCode;
+  message: string;
+  /** Context for the envelope, such as the current hash of a stale file */
+  context?: ErrorContext;
+  /** Every failed edit of the file, with validate_all */
+  edit_status?: EditStatusEntry[];
+}
+
+/**
+ * Failure response for the prepare phase, listing every failed file (several only with validate_all)
+ */
+function prepareFailureResponse(
+  failures: PrepareFailure[],
+  files: FileEditEntry[],
+  verbosity: Verbosity = 'normal'
+): ToolResult {
+  const [first] = failures;
+  const envelope = createErrorEnvelope({
+    error_code: first.code,
+    message: failures.length === 1
+      ? `Edit failed in file ${first.index + 1} of ${files.length}: ${first.message}`
+      : `Edits failed in ${failures.length} of ${files.length} files ` +
+        `(files ${failures.map(failure => failure.index + 1).join(', ')}). ` +
+        `File ${first.index + 1}: ${first.message}`,
+    file_path: files[first.index].file_path,
+    context: first.context,
+  });
+
+  const fileStatuses = buildFileStatuses(0, first.index, files.length, first.message, files);
+  for (const failure of failures) {
+    fileStatuses[failure.index] = {
+      ...fileStatuses[failure.index],
+      status: 'failed',
+      error: failure.message,
+      ...(failure.edit_status && { edit_status: failure.edit_status }),
+    };
+  }
+  return failureResponse(envelope, 'prepare', { file_statuses: fileStatuses }, verbosity);
+}
+
 /**
  * Handle multi_edit_files tool call
  *
- * 3-Phase Pipeline:
+ * 4-Phase Pipeline:
  *   Phase A: Validate all files upfront
- *   Phase B: Backup + Edit with fail-fast
- *   Phase C: Rollback on failure (restore from .bak)
+ *   Phase B: Prepare - read every file and compute its new content in memory
+ *   Phase C: Stage - back up every file and write new content to temp files
+ *   Phase D: Commit - journal, then rename temp files over their targets (delete, move)
+ * Failures in B and C leave every file untouched; only a failure in D needs a
+ * rollback (restore from backups, remove created files), limited to the files
+ * already committed.
  */
-export async function handleMultiEditFiles(args: unknown): Promise<{
-  content: Array<{ type: string; text: string }>;
-  isError?: boolean;
-}> {
+export async function handleMultiEditFiles(args: unknown): Promise<ToolResult> {
   // ==============================
   // Phase A: Validate All Upfront
   // ==============================
 
   const validation = await validateMultiEditFilesInputFull(args);
   if (!validation.success) {
-    const recoveryHints = validation.errors.map(
-      e => `${e.code}: ${e.message} (${e.recovery_hint})`
+    const envelope = createValidationErrorEnvelope(
+      validation.errors,
+      `Validation failed with ${validation.errors.length} error(s)`
     );
-    const envelope = createErrorEnvelope({
-      error_code: 'VALIDATION_FAILED',
-      message: `Validation failed with ${validation.errors.length} error(s)`,
-      recovery_hints: recoveryHints,
-    });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(envelope, null, 2) }],
-      isError: true,
-    };
+    return createToolResult(envelope, summarizeErrorEnvelope(envelope));
   }
 
   const input: MultiEditFilesInput = validation.data;
@@ -125,165 +249,297 @@ export async function handleMultiEditFiles(args: unknown): Promise<{
   const includeContent = input.include_content ?? false;
   const totalFiles = input.files.length;
 
-  // ==============================
-  // Phase B: Backup + Edit (fail-fast)
-  // ==============================
-
-  // Per CONTEXT: backup param is IGNORED for multi-file - always create backups
+  const prepared: PreparedFile[] = [];
+  // Per CONTEXT: backup param is IGNORED for multi-file - backups follow the backup strategy
+  // (with strategy none, rollback uses the original content kept in writtenFiles)
   const writtenFiles: WrittenFile[] = [];
-  const fileResults: MultiEditResult[] = [];
+  let transactionId: string | undefined;
+  let phase: FailedPhase = 'prepare';
+  let keepJournal = false;
+
+  // A rollback that left a file in its committed state keeps the journal for the next start to retry
+  const rollbackCommitted = async (): Promise<RollbackReport> => {
+    const report = await rollbackFiles(writtenFiles);
+    if (report.files_failed_rollback > 0 && transactionId !== undefined) {
+      report.journal_path = getTransactionJournalPath(transactionId);
+      keepJournal = true;
+    }
+    return report;
+  };
+
+  const discardStaged = async () => {
+    await Promise.all(prepared.map(file => file.staged_path !== undefined
+      ? discardStagedWrite(file.staged_path)
+      : undefined));
+  };
 
   try {
+    // ==============================
+    // Phase B: Prepare in memory (fail-fast unless validate_all, nothing written)
+    // ==============================
+
+    const prepareFailures: PrepareFailure[] = [];
+
     for (let i = 0; i < totalFiles; i++) {
       const fileEdit = input.files[i];
+      const fileOperation = getFileOperation(fileEdit);
 
-      // B1. Read file content
-      let content: string;
+      // B1. Read file content (a file to be created starts out empty)
+      let content = '';
+      let encoding = fileEdit.encoding ?? DEFAULT_ENCODING;
+      let original: EncodedText | undefined;
+      let stale: ReturnType<typeof checkContentState>;
       try {
-        content = await readFileValidated(fileEdit.file_path);
+        if (!fileEdit.create) {
+          let bytes: Buffer;
+          let current: { sha256: string; mtime_ms: number };
+          ({ content, bytes, encoding, ...current } = await readTextFile(fileEdit.file_path, fileEdit.encoding));
+          original = { content, bytes };
+          stale = checkContentState(fileEdit.file_path, current, fileEdit);
+        }
       } catch (readError) {
-        // Read failure -> rollback previously written files
-        const rollbackReport = writtenFiles.length > 0
-          ? await rollbackFiles(writtenFiles)
-          : undefined;
-
         const classified = classifyError(readError, fileEdit.file_path);
-        const envelope = createErrorEnvelope({
-          error_code: classified.error_code,
-          message: `Edit failed in file ${i + 1} of ${totalFiles}: ${classified.message}`,
-          file_path: fileEdit.file_path,
+        prepareFailures.push({ index: i, code: classified.error_code, message: classified.message });
+        if (input.validate_all) continue;
+        break;
+      }
+      // The content staged must be the one the caller last saw
+      if (stale) {
+        prepareFailures.push({
+          index: i,
+          code: stale.failure.code,
+          message: stale.error,
+          context: stale.failure.context,
         });
+        if (input.validate_all) continue;
+        break;
+      }
 
-        // Build per-file status array
-        const fileStatuses = buildFileStatuses(fileResults, i, totalFiles, classified.message, input.files);
+      // B2. Apply edits in memory (create, delete and plain move entries have no edits)
+      const editResult: MultiEditResult = fileEdit.edits
+        ? applyEditsToContent(fileEdit.file_path, content, fileEdit.edits, dryRun, input.validate_all)
+        : {
+            success: true,
+            file_path: fileEdit.file_path,
+            edits_applied: 0,
+            results: [],
+            dry_run: dryRun,
+            final_content: fileEdit.create?.content ?? (fileEdit.delete ? '' : content),
+          };
+      if (fileOperation) {
+        editResult.file_operation = fileOperation;
+      }
+      if (fileEdit.move_to !== undefined) {
+        editResult.moved_to = fileEdit.move_to;
+      }
+      if (editResult.file_format) {
+        editResult.file_format.encoding = encoding;
+      }
 
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              ...envelope,
-              rollback: rollbackReport,
-              file_statuses: fileStatuses,
-            }, null, 2),
-          }],
-          isError: true,
-        };
+      // Characters the file's encoding cannot store fail the file instead of being replaced
+      const unrepresentable = editResult.success && (fileEdit.edits || fileEdit.create)
+        ? checkEncodable(editResult.final_content!, encoding, fileEdit.file_path)
+        : undefined;
+      if (unrepresentable !== undefined) {
+        editResult.success = false;
+        editResult.error = unrepresentable;
+        editResult.failure = { code: 'UNREPRESENTABLE_CHARACTER' };
       }
 
-      // B2. Create mandatory backup
-      let backupPath: string;
-      try {
-        backupPath = await createBackup(fileEdit.file_path, content);
-      } catch (backupError) {
-        // Backup failure -> rollback
-        const rollbackReport = writtenFiles.length > 0
-          ? await rollbackFiles(writtenFiles)
-          : undefined;
-
-        const envelope = createErrorEnvelope({
-          error_code: 'BACKUP_FAILED',
-          message: `Edit failed in file ${i + 1} of ${totalFiles}: Backup failed for ${fileEdit.file_path}`,
-          file_path: fileEdit.file_path,
+      if (!editResult.success) {
+        prepareFailures.push({
+          index: i,
+          code: editResult.failure?.code ?? 'UNKNOWN_ERROR',
+          message: editResult.error || 'Edit failed',
+          ...(editResult.failed_edits && {
+            edit_status: buildFailedEditsStatus(editResult.failed_edits, fileEdit.edits!, content),
+          }),
         });
+        if (input.validate_all) continue;
+        break;
+      }
 
-        const fileStatuses = buildFileStatuses(fileResults, i, totalFiles, 'Backup failed', input.files);
-
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              ...envelope,
-              rollback: rollbackReport,
-              file_statuses: fileStatuses,
-            }, null, 2),
-          }],
-          isError: true,
-        };
+      // B3. Add dry-run specific fields (and the diff of every call at full verbosity)
+      if (dryRun) {
+        (editResult as MultiEditResult & { message?: string }).message = 'DRY RUN - No changes made';
+      }
+      if ((dryRun || input.verbosity === 'full') && editResult.final_content !== undefined) {
+        (editResult as MultiEditResult & { diff_preview?: string }).diff_preview = generateDiffPreview(
+          content,
+          editResult.final_content,
+          fileEdit.file_path,
+          {
+            context_lines: input.diff_context_lines,
+            format: input.diff_format,
+            file_operation: fileOperation,
+            moved_to: fileEdit.move_to,
+          }
+        );
       }
 
-      // B3. Apply edits in memory
-      const editResult = applyEditsToContent(fileEdit.file_path, content, fileEdit.edits, dryRun);
-      editResult.backup_path = backupPath;
+      prepared.push({ entry: fileEdit, content, original, encoding, result: editResult });
+    }
 
-      if (!editResult.success) {
-        // Edit failure -> rollback
-        const rollbackReport = writtenFiles.length > 0
-          ? await rollbackFiles(writtenFiles)
-          : undefined;
-
-        const errorCode = classifyErrorCodeFromMessage(editResult.error || '');
-        const envelope = createErrorEnvelope({
-          error_code: errorCode,
-          message: `Edit failed in file ${i + 1} of ${totalFiles}: ${editResult.error}`,
-          file_path: fileEdit.file_path,
-        });
+    if (prepareFailures.length > 0) {
+      return prepareFailureResponse(prepareFailures, input.files, input.verbosity);
+    }
 
-        const fileStatuses = buildFileStatuses(fileResults, i, totalFiles, editResult.error || 'Edit failed', input.files);
+    if (!dryRun) {
+      // ==============================
+      // Phase C: Stage (backups and temp files, targets untouched)
+      // ==============================
 
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              ...envelope,
-              rollback: rollbackReport,
-              file_statuses: fileStatuses,
-            }, null, 2),
-          }],
-          isError: true,
-        };
+      // Write-ahead journal: lets the next server start roll back if this process dies
+      // mid-commit, and remove temp files staged before it died
+      phase = 'stage';
+      transactionId = await beginTransaction();
+      for (let i = 0; i < totalFiles; i++) {
+        const file = prepared[i];
+        const fileEdit = file.entry;
+
+        // C1. Create backup per strategy (nothing to back up for a created file)
+        try {
+          file.backup_path = fileEdit.create ? undefined : await createBackup(fileEdit.file_path, file.content, file.encoding, file.original);
+        } catch (error) {
+          await discardStaged();
+          const envelope = createErrorEnvelope({
+            error_code: 'BACKUP_FAILED',
+            message: `Edit failed in file ${i + 1} of ${totalFiles}: ${isCodedError(error) ? error.message : formatBackupError(error, fileEdit.file_path)}`,
+            file_path: fileEdit.file_path,
+          });
+          return failureResponse(envelope, 'stage', {
+            file_statuses: buildFileStatuses(0, i, totalFiles, 'Backup failed', input.files),
+          }, input.verbosity);
+        }
+        if (file.backup_path !== undefined) {
+          file.result.backup_path = file.backup_path;
+        }
+
+        // C2. Write new content to a temp file next to the target
+        if (fileEdit.edits || fileEdit.create) {
+          try {
+            file.staged_path = await stageWrite(fileEdit.file_path, file.result.final_content!, file.encoding, file.original);
+            await journalStagedWrite(transactionId, file.staged_path);
+          } catch (stageError) {
+            await discardStaged();
+            const classified = classifyError(stageError, fileEdit.file_path);
+            const envelope = createErrorEnvelope({
+              error_code: classified.error_code,
+              message: `Edit failed in file ${i + 1} of ${totalFiles}: ${classified.message}`,
+              file_path: fileEdit.file_path,
+            });
+            return failureResponse(envelope, 'stage', {
+              file_statuses: buildFileStatuses(0, i, totalFiles, classified.message, input.files),
+            }, input.verbosity);
+          }
+        }
       }
 
-      // B4. If NOT dry_run: write to disk
-      if (!dryRun) {
+      // ==============================
+      // Phase D: Commit (journal, then rename / delete / move)
+      // ==============================
+
+      phase = 'commit';
+      for (const { entry, original, encoding, result } of prepared) {
+        await journalFileChange(transactionId, {
+          file_path: entry.file_path,
+          ...(entry.move_to !== undefined ? { moved_to: entry.move_to } : {}),
+          ...(original !== undefined ? { original_bytes: original.bytes.toString('base64') } : {}),
+          ...(encoding !== DEFAULT_ENCODING ? { encoding } : {}),
+          ...(entry.delete
+            ? {}
+            : { committed_sha256: computeSha256(encodeText(result.final_content!, encoding, entry.file_path, original)) }),
+        });
+      }
+
+      for (let i = 0; i < totalFiles; i++) {
+        const file = prepared[i];
+        const fileEdit = file.entry;
         try {
-          await atomicWrite(fileEdit.file_path, editResult.final_content!);
-          writtenFiles.push({ file_path: fileEdit.file_path, backup_path: backupPath });
-        } catch (writeError) {
-          // Write failure -> rollback
-          const rollbackReport = writtenFiles.length > 0
-            ? await rollbackFiles(writtenFiles)
-            : undefined;
-
-          const classified = classifyError(writeError, fileEdit.file_path);
+          if (fileEdit.delete) {
+            await deleteFile(fileEdit.file_path);
+          } else if (file.staged_path !== undefined) {
+            applyWriteOutcome(file.result, await commitStagedWrite(file.staged_path, fileEdit.file_path));
+          }
+          // Tracked before the move so a failed move still restores the edited content
+          const writtenFile: WrittenFile = {
+            file_path: fileEdit.file_path,
+            backup_path: file.backup_path,
+            original: file.original,
+            encoding: file.encoding,
+          };
+          writtenFiles.push(writtenFile);
+          if (fileEdit.move_to !== undefined) {
+            await moveFile(fileEdit.file_path, fileEdit.move_to);
+            writtenFile.moved_to = fileEdit.move_to;
+          }
+        } catch (commitError) {
+          // Commit failure -> discard uncommitted temp files, roll back committed files
+          await discardStaged();
+          const rollbackReport = await rollbackCommitted();
+          rollbackReport.files_not_committed = totalFiles - writtenFiles.length;
+
+          const classified = classifyError(commitError, fileEdit.file_path);
           const envelope = createErrorEnvelope({
             error_code: classified.error_code,
             message: `Edit failed in file ${i + 1} of ${totalFiles}: ${classified.message}`,
             file_path: fileEdit.file_path,
           });
-
-          const fileStatuses = buildFileStatuses(fileResults, i, totalFiles, classified.message, input.files);
-
-          return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify({
-                ...envelope,
-                rollback: rollbackReport,
-                file_statuses: fileStatuses,
-              }, null, 2),
-            }],
-            isError: true,
-          };
+          return failureResponse(envelope, 'commit', {
+            rollback: rollbackReport,
+            file_statuses: buildFileStatuses(i, i, totalFiles, classified.message, input.files),
+          }, input.verbosity);
         }
       }
+    }
 
-      // B5. Add dry-run specific fields
-      if (dryRun) {
-        (editResult as MultiEditResult & { message?: string; diff_preview?: string }).message =
-          'DRY RUN - No changes made';
-        if (editResult.final_content) {
-          (editResult as MultiEditResult & { diff_preview?: string }).diff_preview =
-            generateDiffPreview(content, editResult.final_content, fileEdit.file_path);
-        }
+    // ==============================
+    // Success: All files edited
+    // ==============================
+
+    // Report results (a deleted file has no final content or hash to report)
+    const fileResults = prepared.map(({ entry, original, encoding, result }) => {
+      if (entry.delete) {
+        delete result.final_content;
+      } else if (!dryRun) {
+        result.sha256 = computeSha256(encodeText(result.final_content!, encoding, entry.file_path, original));
+      } else if (original !== undefined) {
+        result.sha256 = computeSha256(original.bytes);
       }
+      return result;
+    });
+
+    // Record the call so undo_edit can revert it (writtenFiles and fileResults line up when not a dry run)
+    let historyWarning: string | undefined;
+    if (!dryRun) {
+      historyWarning = await recordEditHistory('multi_edit_files', writtenFiles.map((written, i): HistoryFileRecord => {
+        const result = fileResults[i];
+        return {
+          file_path: written.file_path,
+          operation: result.file_operation ?? 'edit',
+          ...(result.moved_to !== undefined ? { moved_to: result.moved_to } : {}),
+          ...(written.original !== undefined
+            ? { before_sha256: computeSha256(written.original.bytes) }
+            : {}),
+          ...(result.sha256 !== undefined ? { after_sha256: result.sha256 } : {}),
+          ...(written.backup_path !== undefined ? { backup_path: written.backup_path } : {}),
+          ...(written.encoding !== DEFAULT_ENCODING ? { encoding: written.encoding } : {}),
+        };
+      }));
+    }
 
-      // B6. Track result
-      fileResults.push(editResult);
+    const successResult = createFilesSuccessResult(fileResults, dryRun);
+    if (historyWarning !== undefined) {
+      successResult.history_warning = historyWarning;
     }
+    const response = formatMultiEditFilesResponse(successResult, includeContent, input.verbosity);
+
+    return createToolResult(response, summarizeMultiEditFilesResponse(response, input.verbosity));
   } catch (error) {
-    // Unexpected exception -> rollback
+    // Unexpected exception -> discard temp files, roll back anything committed
+    await discardStaged();
     const rollbackReport = writtenFiles.length > 0
-      ? await rollbackFiles(writtenFiles)
+      ? await rollbackCommitted()
       : undefined;
 
     const classified = classifyError(error);
@@ -291,69 +547,40 @@ export async function handleMultiEditFiles(args: unknown): Promise<{
       error_code: classified.error_code,
       message: classified.message,
     });
-
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          ...envelope,
-          rollback: rollbackReport,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return failureResponse(envelope, phase, { rollback: rollbackReport }, input.verbosity);
+  } finally {
+    if (transactionId !== undefined && !keepJournal) {
+      await endTransaction(transactionId);
+    }
   }
-
-  // ==============================
-  // Success: All files edited
-  // ==============================
-
-  const successResult = createFilesSuccessResult(fileResults, dryRun);
-  const responseText = formatMultiEditFilesResponse(successResult, includeContent);
-
-  return {
-    content: [{ type: 'text', text: responseText }],
-    isError: false,
-  };
 }
 
 /**
  * Build per-file status array for error responses.
- * Files before failedIndex are 'succeeded' (written then rolled back),
+ * The first rolledBackCount files are 'rolled_back' (committed, then restored),
  * the failedIndex file is 'failed',
- * files after failedIndex are 'skipped'.
+ * all other files are 'skipped' (left untouched on disk).
  */
 function buildFileStatuses(
-  completedResults: MultiEditResult[],
+  rolledBackCount: number,
   failedIndex: number,
   totalFiles: number,
   errorMessage: string,
-  files: Array<{ file_path: string }>
-): Array<{ file_path: string; status: string; error?: string }> {
-  const statuses: Array<{ file_path: string; status: string; error?: string }> = [];
-
-  // Succeeded files (will be rolled back)
-  for (let j = 0; j < completedResults.length; j++) {
-    statuses.push({
-      file_path: files[j].file_path,
-      status: 'rolled_back',
-    });
-  }
+  files: FileEditEntry[]
+): FileStatus[] {
+  const withOperation = (j: number) => {
+    const fileOperation = getFileOperation(files[j]);
+    return fileOperation ? { file_operation: fileOperation } : {};
+  };
 
-  // Failed file
-  statuses.push({
-    file_path: files[failedIndex].file_path,
-    status: 'failed',
-    error: errorMessage,
+  return files.slice(0, totalFiles).map((file, j): FileStatus => {
+    if (j === failedIndex) {
+      return { file_path: file.file_path, status: 'failed', ...withOperation(j), error: errorMessage };
+    }
+    return {
+      file_path: file.file_path,
+      status: j < rolledBackCount ? 'rolled_back' : 'skipped',
+      ...withOperation(j),
+    };
   });
-
-  // Skipped files
-  for (let j = failedIndex + 1; j < totalFiles; j++) {
-    statuses.push({
-      file_path: files[j].file_path,
-      status: 'skipped',
-    });
-  }
-
-  return statuses;
 }
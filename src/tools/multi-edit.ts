@@ -4,39 +4,39 @@
  * Perform multiple find-and-replace operations on a single file atomically.
  */
 
-import { readFile } from 'node:fs/promises';
-import { applyEdits } from '../core/editor.js';
+import { applyEdits, readFileValidated } from '../core/editor.js';
 import { validateMultiEditInputFull } from '../core/validator.js';
-import { formatMultiEditResponse } from '../core/reporter.js';
-import { createErrorEnvelope, classifyError } from '../core/errors.js';
+import {
+  formatMultiEditResponse,
+  createToolResult,
+  summarizeMultiEditResponse,
+  summarizeErrorEnvelope,
+} from '../core/reporter.js';
+import {
+  createErrorEnvelope,
+  createValidationErrorEnvelope,
+  classifyError,
+} from '../core/errors.js';
+import type { ToolResult } from '../core/reporter.js';
 
 /**
  * Handle multi_edit tool call
  */
-export async function handleMultiEdit(args: unknown): Promise<{
-  content: Array<{ type: string; text: string }>;
-  isError?: boolean;
-}> {
+export async function handleMultiEdit(args: unknown): Promise<ToolResult> {
   // Validate input using full layered validation
   const validation = await validateMultiEditInputFull(args);
   if (!validation.success) {
-    const envelope = createErrorEnvelope({
-      error_code: 'VALIDATION_FAILED',
-      message: 'Input validation failed',
-      recovery_hints: validation.errors.map(e => `${e.code}: ${e.message} (${e.recovery_hint})`),
-    });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(envelope, null, 2) }],
-      isError: true,
-    };
+    const envelope = createValidationErrorEnvelope(validation.errors, 'Input validation failed');
+    return createToolResult(envelope, summarizeErrorEnvelope(envelope));
   }
 
   const input = validation.data;
   // Note: file_path is now resolved (symlinks followed) and guaranteed to exist
 
   // Read file content for context snippets in error responses
-  // File is guaranteed to exist after validation passes
-  const fileContent = await readFile(input.file_path, 'utf-8');
+  // File is guaranteed to exist after validation passes; a file that cannot be
+  // decoded gets no snippets (applyEdits reports the encoding error)
+  const fileContent = await readFileValidated(input.file_path, input.encoding).catch(() => '');
 
   try {
     // Apply edits
@@ -44,7 +44,10 @@ export async function handleMultiEdit(args: unknown): Promise<{
       input.file_path,
       input.edits,
       input.dry_run,
-      input.backup
+      input.backup,
+      input.encoding,
+      input.validate_all,
+      { expected_sha256: input.expected_sha256, expected_mtime: input.expected_mtime }
     );
 
     const response = formatMultiEditResponse(
@@ -52,14 +55,13 @@ export async function handleMultiEdit(args: unknown): Promise<{
       input.include_content ?? false,
       input.edits.length,
       fileContent,
-      fileContent,  // Pass as originalContent - safe because file not modified when dry_run=true
-      input.edits   // Pass edits for per-edit status in ErrorEnvelope
+      fileContent,  // Pass as originalContent - read before applyEdits changed the file
+      input.edits,  // Pass edits for per-edit status in ErrorEnvelope
+      { context_lines: input.diff_context_lines, format: input.diff_format },
+      input.verbosity
     );
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      isError: !result.success,
-    };
+    return createToolResult(response, summarizeMultiEditResponse(response, input.verbosity));
   } catch (error) {
     const classified = classifyError(error, input.file_path);
     const envelope = createErrorEnvelope({
@@ -67,9 +69,6 @@ export async function handleMultiEdit(args: unknown): Promise<{
       message: classified.message,
       file_path: input.file_path,
     });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(envelope, null, 2) }],
-      isError: true,
-    };
+    return createToolResult(envelope, summarizeErrorEnvelope(envelope, input.verbosity));
   }
 }
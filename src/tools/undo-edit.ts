@@ -0,0 +1,326 @@
+/**
+ * undo_edit tool handler
+ *
+ * Revert the most recent multi_edit / multi_edit_files calls recorded in the
+ * edit history journal. Every file is checked before anything is written:
+ * a file that changed after the edit is a conflict (unless force), a file
+ * whose original content is no longer in a backup cannot be undone, and every
+ * path to be written must pass the same workspace policy as the edit tools.
+ * Only entries inside the current workspace roots are considered, so one
+ * client cannot revert another project's edits from the shared journal.
+ */
+
+import { readFile, lstat } from 'node:fs/promises';
+import {
+  readTextFile,
+  atomicWrite,
+  deleteFile,
+  moveFile,
+  computeSha256,
+} from '../core/editor.js';
+import { DEFAULT_ENCODING } from '../core/encoding.js';
+import { getSiblingBackupPath, MAX_SIBLING_BACKUPS } from '../core/backup.js';
+import type { EncodedText } from '../core/encoding.js';
+import {
+  validateUndoEditInput,
+  formatZodErrors,
+  validateFileExists,
+  validateFileAbsent,
+} from '../core/validator.js';
+import { readEditHistory, removeEditHistoryEntries, isEntryInWorkspace } from '../core/history.js';
+import {
+  createErrorEnvelope,
+  createValidationErrorEnvelope,
+  classifyError,
+} from '../core/errors.js';
+import { createToolResult, summarizeErrorEnvelope, summarizeUndoEditResponse } from '../core/reporter.js';
+import type { ToolResult } from '../core/reporter.js';
+import type {
+  ErrorCode,
+  ErrorEnvelope,
+  EditHistoryEntry,
+  HistoryFileRecord,
+  RollbackDetail,
+  UndoConflict,
+  UndoneEdit,
+  UndoEditResult,
+  UndoEditErrorEnvelope,
+  FileEncoding,
+} from '../types/index.js';
+
+/** How to put one file back, planned before anything is written */
+interface UndoAction {
+  file_path: string;
+  /** Remove the file (undoing a create) */
+  remove?: boolean;
+  /** Move the file back from here first (undoing a move) */
+  moved_from?: string;
+  /** Content to write once the file is back in place, with the backup bytes it was read from */
+  content?: EncodedText;
+  /** Backup the content came from */
+  backup_path?: string;
+  /** Encoding to write the content in */
+  encoding?: FileEncoding;
+}
+
+/** A path undo may not touch under the workspace policy */
+interface UndoRefusal {
+  file_path: string;
+  code: ErrorCode;
+  message: string;
+}
+
+/** Planned undo of one journal entry */
+interface UndoStep {
+  entry: EditHistoryEntry;
+  actions: UndoAction[];
+}
+
+function errorResponse(envelope: ErrorEnvelope): ToolResult {
+  return createToolResult(envelope, summarizeErrorEnvelope(envelope));
+}
+
+/**
+ * SHA-256 of a file's bytes on disk, or null if it does not exist
+ */
+async function hashFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return computeSha256(await readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Content from before the edit, read from the record's backup
+ * Sibling backups rotate (`<file>.bak` -> `<file>.1.bak` -> ...) as later edits
+ * back the file up again, so every sibling generation is searched for the
+ * content when the recorded backup no longer holds it. Returns undefined when
+ * there is no backup or none holds that content.
+ */
+async function readOriginalContent(
+  record: HistoryFileRecord
+): Promise<{ content: EncodedText; backup_path: string } | undefined> {
+  if (record.backup_path === undefined) {
+    return undefined;
+  }
+  const candidates = new Set([record.backup_path]);
+  for (let generation = 0; generation < MAX_SIBLING_BACKUPS; generation++) {
+    candidates.add(getSiblingBackupPath(record.file_path, generation));
+  }
+
+  for (const backupPath of candidates) {
+    try {
+      const read = await readTextFile(backupPath, record.encoding ?? DEFAULT_ENCODING);
+      if (read.sha256 === record.before_sha256) {
+        return { content: read, backup_path: backupPath };
+      }
+    } catch {
+      // Missing or unreadable: try the next generation
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Workspace policy error for a path undo would write, remove or move, if any
+ * Symlinks are resolved first (the parent's, for a path that no longer exists),
+ * so a link swapped in since the edit cannot lead the undo outside the roots.
+ */
+async function checkUndoTarget(filePath: string): Promise<UndoRefusal | undefined> {
+  const exists = await lstat(filePath).then(() => true, () => false);
+  const result = exists ? await validateFileExists(filePath) : await validateFileAbsent(filePath);
+  if ('code' in result && (result.code === 'PATH_OUTSIDE_WORKSPACE' || result.code === 'PATH_DENIED')) {
+    return { file_path: filePath, code: result.code, message: result.message };
+  }
+  return undefined;
+}
+
+/**
+ * Plan undoing entries (newest first) without touching the disk
+ *
+ * Later entries may have changed the same files, so the expected state of each
+ * path is tracked as if the earlier steps had already been undone.
+ */
+async function planUndo(entries: EditHistoryEntry[], force: boolean): Promise<{
+  steps: UndoStep[];
+  conflicts: UndoConflict[];
+  unavailable: string[];
+  refused: UndoRefusal[];
+}> {
+  const expectedState = new Map<string, string | null>();
+  const currentHash = async (filePath: string) =>
+    expectedState.has(filePath) ? expectedState.get(filePath)! : hashFileOrNull(filePath);
+
+  const steps: UndoStep[] = [];
+  const conflicts: UndoConflict[] = [];
+  const unavailable: string[] = [];
+  const refused: UndoRefusal[] = [];
+
+  for (const entry of entries) {
+    const actions: UndoAction[] = [];
+
+    for (const record of [...entry.files].reverse()) {
+      for (const target of [record.file_path, record.moved_to]) {
+        const refusal = target !== undefined ? await checkUndoTarget(target) : undefined;
+        if (refusal) {
+          refused.push(refusal);
+        }
+      }
+
+      const location = record.moved_to ?? record.file_path;
+      const current = await currentHash(location);
+
+      if (current !== (record.after_sha256 ?? null) && !force) {
+        conflicts.push({
+          file_path: location,
+          ...(record.after_sha256 !== undefined ? { expected_sha256: record.after_sha256 } : {}),
+          ...(current !== null ? { current_sha256: current } : {}),
+        });
+      }
+      if (record.moved_to !== undefined && !force) {
+        const occupant = await currentHash(record.file_path);
+        if (occupant !== null) {
+          conflicts.push({ file_path: record.file_path, current_sha256: occupant });
+        }
+      }
+
+      if (record.operation === 'create') {
+        if (current !== null) {
+          actions.push({ file_path: record.file_path, remove: true });
+        }
+      } else {
+        const action: UndoAction = { file_path: record.file_path };
+        if (record.moved_to !== undefined && current !== null) {
+          action.moved_from = record.moved_to;
+        }
+        // An unchanged moved file only needs moving back; everything else needs its old content
+        if (action.moved_from === undefined || current !== record.before_sha256) {
+          const backup = await readOriginalContent(record);
+          if (backup === undefined) {
+            unavailable.push(record.file_path);
+          } else {
+            action.content = backup.content;
+            action.backup_path = backup.backup_path;
+            action.encoding = record.encoding;
+          }
+        }
+        actions.push(action);
+      }
+
+      if (record.moved_to !== undefined) {
+        expectedState.set(record.moved_to, null);
+      }
+      expectedState.set(record.file_path, record.before_sha256 ?? null);
+    }
+
+    steps.push({ entry, actions });
+  }
+
+  return { steps, conflicts, unavailable, refused };
+}
+
+/**
+ * Carry out one planned file action
+ */
+async function applyUndoAction(action: UndoAction): Promise<RollbackDetail> {
+  const backupField = action.backup_path !== undefined ? { backup_path: action.backup_path } : {};
+
+  if (action.remove) {
+    await deleteFile(action.file_path);
+    return { file_path: action.file_path, status: 'removed' };
+  }
+  if (action.moved_from !== undefined) {
+    await moveFile(action.moved_from, action.file_path);
+  }
+  if (action.content !== undefined) {
+    await atomicWrite(action.file_path, action.content.content, action.encoding, action.content);
+  }
+  return action.moved_from !== undefined
+    ? { file_path: action.file_path, status: 'moved_back', ...backupField, moved_from: action.moved_from }
+    : { file_path: action.file_path, status: 'restored', ...backupField };
+}
+
+/**
+ * Handle undo_edit tool call
+ */
+export async function handleUndoEdit(args: unknown): Promise<ToolResult> {
+  const parsed = validateUndoEditInput(args);
+  if (!parsed.success) {
+    return errorResponse(createValidationErrorEnvelope(formatZodErrors(parsed.error), 'Input validation failed'));
+  }
+  const { count, force } = parsed.data;
+
+  // The journal is shared across projects: only this workspace's entries can be undone
+  const history = await readEditHistory();
+  const inWorkspace = history.filter(isEntryInWorkspace);
+  if (inWorkspace.length < count) {
+    return errorResponse(createErrorEnvelope({
+      error_code: 'UNDO_UNAVAILABLE',
+      message: inWorkspace.length === 0
+        ? 'No edits in history to undo'
+        : `Only ${inWorkspace.length} edit(s) in history, cannot undo ${count}`,
+    }));
+  }
+
+  const toUndo = inWorkspace.slice(-count).reverse();
+  const { steps, conflicts, unavailable, refused } = await planUndo(toUndo, force);
+
+  if (refused.length > 0) {
+    return errorResponse(createErrorEnvelope({
+      error_code: refused[0].code,
+      message: `Cannot undo: ${refused.map(refusal => refusal.message).join('; ')}`,
+      file_path: refused[0].file_path,
+    }));
+  }
+  if (conflicts.length > 0) {
+    return errorResponse(createErrorEnvelope({
+      error_code: 'UNDO_CONFLICT',
+      message: `Cannot undo: ${conflicts.map(conflict => conflict.file_path).join(', ')} changed after the edit`,
+      file_path: conflicts[0].file_path,
+      context: { conflicts },
+    }));
+  }
+  if (unavailable.length > 0) {
+    return errorResponse(createErrorEnvelope({
+      error_code: 'UNDO_UNAVAILABLE',
+      message: `Cannot undo: no backup holds the content from before the edit for ${unavailable.join(', ')}`,
+      file_path: unavailable[0],
+    }));
+  }
+
+  // Undo step by step, then drop the fully reverted entries from the journal
+  const undone: UndoneEdit[] = [];
+  for (const { entry, actions } of steps) {
+    const files: RollbackDetail[] = [];
+    try {
+      for (const action of actions) {
+        files.push(await applyUndoAction(action));
+      }
+    } catch (error) {
+      await removeEditHistoryEntries(undone.map(step => step.id));
+      const classified = classifyError(error);
+      const envelope: UndoEditErrorEnvelope = {
+        ...createErrorEnvelope({
+          error_code: classified.error_code,
+          message: `Undo failed after undoing ${undone.length} of ${steps.length} edit(s): ${classified.message}`,
+        }),
+        undone,
+      };
+      return createToolResult(envelope, summarizeUndoEditResponse(envelope));
+    }
+    undone.push({ id: entry.id, tool: entry.tool, timestamp: entry.timestamp, files });
+  }
+  const remaining = await removeEditHistoryEntries(undone.map(step => step.id));
+
+  const response: UndoEditResult = {
+    success: true,
+    edits_undone: undone.length,
+    undone,
+    history_remaining: remaining.filter(isEntryInWorkspace).length,
+  };
+  return createToolResult(response, summarizeUndoEditResponse(response));
+}
@@ -14,6 +14,8 @@ export interface ValidationError {
   path?: string[];
   /** Actionable guidance for fixing the error */
   recovery_hint: string;
+  /** Extra context for the error envelope (e.g. current hash for STALE_CONTENT) */
+  context?: ErrorContext;
 }
 
 /**
@@ -23,18 +25,68 @@ export type ValidationResult<T> =
   | { success: true; data: T }
   | { success: false; errors: ValidationError[] };
 
+/**
+ * How old_string is compared against file content
+ * - exact: character-for-character
+ * - ignore_whitespace: any run of whitespace matches any other run
+ * - ignore_indentation: leading indentation of each line may differ
+ */
+export type MatchMode = 'exact' | 'ignore_whitespace' | 'ignore_indentation';
+
+/**
+ * Inclusive 1-based line range
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Kind of edit operation
+ * - replace: replace old_string with new_string (default)
+ * - insert_before / insert_after: insert new_string next to the old_string anchor
+ * - delete: remove old_string
+ * - prepend_file / append_file: add new_string at the start / end of the file
+ */
+export type EditOp =
+  | 'replace'
+  | 'insert_before'
+  | 'insert_after'
+  | 'delete'
+  | 'prepend_file'
+  | 'append_file';
+
 /**
  * Single edit operation
  */
 export interface EditOperation {
-  /** Text to find in the file */
+  /** Operation kind (default: 'replace') */
+  op?: EditOp;
+  /** Text to find in the file (the anchor for inserts; empty for prepend_file / append_file) */
   old_string: string;
-  /** Text to replace with */
+  /** Text to replace with (the inserted text for inserts; empty for delete) */
   new_string: string;
   /** Replace all occurrences (default: false) */
   replace_all?: boolean;
   /** Case-insensitive matching (default: false) */
   case_insensitive?: boolean;
+  /** Match case-insensitively and adapt new_string to each match's casing style (default: false) */
+  preserve_case?: boolean;
+  /** Treat old_string as a JavaScript regular expression (default: false) */
+  regex?: boolean;
+  /** Regular expression flags when regex is true, e.g. 'm' or 'su' ('g' is always applied) */
+  flags?: string;
+  /** Whitespace tolerance for literal matching (default: 'exact'); exact matches are tried first */
+  match_mode?: MatchMode;
+  /** Which match(es) to replace, 1-based; negative values count from the end (-1 = last) */
+  occurrence?: number | number[];
+  /** Replace the single match nearest this 1-based line (ignored when occurrence is set) */
+  line_hint?: number;
+  /**
+   * Only match within these lines (inclusive, 1-based). Lines are counted in the content
+   * as modified by earlier edits in the same call, not the original file.
+   */
+  line_range?: LineRange;
 }
 
 /**
@@ -47,10 +99,59 @@ export interface MultiEditInput {
   edits: EditOperation[];
   /** Preview changes without applying (default: false) */
   dry_run?: boolean;
+  /** Try every edit and report all failures instead of stopping at the first (default: false) */
+  validate_all?: boolean;
   /** Create backup before editing (default: true) */
   backup?: boolean;
   /** Include final file content in response (default: false) */
   include_content?: boolean;
+  /** Reject with STALE_CONTENT unless the file's SHA-256 (hex) matches */
+  expected_sha256?: string;
+  /** Reject with STALE_CONTENT unless the file's mtime (ISO 8601) matches */
+  expected_mtime?: string;
+  /** Encoding of the file (default: UTF-16 by byte order mark, else UTF-8) */
+  encoding?: FileEncoding;
+  /** Unchanged lines around each change in the dry-run diff (default: 3) */
+  diff_context_lines?: number;
+  /** Dry-run diff style (default: unified) */
+  diff_format?: DiffFormat;
+  /** How much the response reports (default: normal) */
+  verbosity?: Verbosity;
+}
+
+/**
+ * How much a response reports
+ * - minimal: a one-line summary (or the error code and first hint)
+ * - normal: per-edit results, change locations and dry-run diffs
+ * - full: normal plus the final content and a diff for every call
+ */
+export type Verbosity = 'minimal' | 'normal' | 'full';
+
+/** File-level operation of a multi_edit_files entry other than editing in place */
+export type FileOperation = 'create' | 'delete' | 'move';
+
+/**
+ * One entry of a multi_edit_files call.
+ * Exactly one of edits, create or delete is set, except that a move_to
+ * entry may omit edits to move the file unchanged.
+ */
+export interface FileEditEntry {
+  /** Absolute path to the file */
+  file_path: string;
+  /** Edits to apply to an existing file */
+  edits?: EditOperation[];
+  /** Create a new file with this content (the file must not exist yet) */
+  create?: { content: string };
+  /** Delete the existing file */
+  delete?: boolean;
+  /** Move the file here after applying edits (the destination must not exist) */
+  move_to?: string;
+  /** Reject with STALE_CONTENT unless the file's SHA-256 (hex) matches (not for create) */
+  expected_sha256?: string;
+  /** Reject with STALE_CONTENT unless the file's mtime (ISO 8601) matches (not for create) */
+  expected_mtime?: string;
+  /** Encoding of the file (default: UTF-16 by byte order mark, else UTF-8; UTF-8 for create) */
+  encoding?: FileEncoding;
 }
 
 /**
@@ -58,16 +159,21 @@ export interface MultiEditInput {
  */
 export interface MultiEditFilesInput {
   /** Array of file edit operations */
-  files: Array<{
-    file_path: string;
-    edits: EditOperation[];
-  }>;
+  files: FileEditEntry[];
   /** Preview changes without applying (default: false) */
   dry_run?: boolean;
+  /** Try every edit of every file and report all failures instead of stopping at the first (default: false) */
+  validate_all?: boolean;
   /** Create backup files before editing (default: true) */
   backup?: boolean;
   /** Include final file content in response (default: false) */
   include_content?: boolean;
+  /** Unchanged lines around each change in the dry-run diffs (default: 3) */
+  diff_context_lines?: number;
+  /** Dry-run diff style (default: unified) */
+  diff_format?: DiffFormat;
+  /** How much the response reports (default: normal) */
+  verbosity?: Verbosity;
 }
 
 /**
@@ -78,14 +184,55 @@ export interface EditResult {
   old_string: string;
   /** Number of matches found */
   matches: number;
-  /** Number of replacements made */
+  /** Number of locations changed (replaced, inserted at, or deleted) */
   replaced: number;
+  /** Operation kind, when not a plain replace */
+  op?: EditOp;
+  /** Mode that produced the matches, when a whitespace-tolerant match_mode was requested */
+  match_mode?: MatchMode;
+  /** Line range the search was limited to (counted after earlier edits were applied) */
+  line_range?: LineRange;
   /** Whether this edit was successful */
   success: boolean;
   /** Error message if edit failed */
   error?: string;
 }
 
+/**
+ * Where an edit changed the file, in the content after all edits
+ * Lines and columns are 1-based; the end points just past the last written
+ * character, so a deletion has its end equal to its start.
+ */
+export interface EditChange {
+  /** Index of the edit in the edits array (0-based) */
+  edit_index: number;
+  start_line: number;
+  start_column: number;
+  end_line: number;
+  end_column: number;
+}
+
+/** Dry-run diff style: plain unified diff, or a patch for git apply */
+export type DiffFormat = 'unified' | 'git';
+
+/** Character encoding a file is read and written in */
+export type FileEncoding = 'utf-8' | 'latin1' | 'utf-16le' | 'utf-16be' | 'shift_jis';
+
+/** Dominant line break style of a file */
+export type LineEnding = 'lf' | 'crlf';
+
+/**
+ * Text format of an edited file, kept when it is written back
+ */
+export interface FileFormat {
+  /** Line ending that edits were matched and written with */
+  line_ending: LineEnding;
+  /** Whether the file starts with a byte order mark */
+  bom: boolean;
+  /** Encoding the file was read and written in (set once the file is read from disk) */
+  encoding?: FileEncoding;
+}
+
 /**
  * Result of multi_edit operation
  */
@@ -100,6 +247,10 @@ export interface MultiEditResult {
   results: EditResult[];
   /** Overall error message if operation failed */
   error?: string;
+  /** Why the operation failed, set whenever success is false */
+  failure?: EditFailure;
+  /** Every edit that failed, in order, when edits were applied with validate_all */
+  failed_edits?: FailedEdit[];
   /** Index of the failed edit (if any) */
   failed_edit_index?: number;
   /** Whether this was a dry run */
@@ -108,6 +259,60 @@ export interface MultiEditResult {
   backup_path?: string;
   /** Final content after all edits (for testing/dry-run) */
   final_content?: string;
+  /** Location of every replacement, insertion and deletion in the final content */
+  changes?: EditChange[];
+  /** Set when the file was created, deleted or moved instead of edited in place */
+  file_operation?: FileOperation;
+  /** New location of the file, when it was moved */
+  moved_to?: string;
+  /** SHA-256 (hex) of the file on disk after the call, for chaining expected_sha256 */
+  sha256?: string;
+  /** Detected line ending and BOM of an edited file */
+  file_format?: FileFormat;
+  /** Set when the file was overwritten in place to keep its hard links */
+  written_in_place?: boolean;
+  /** Metadata of the original file that the write could not carry over */
+  metadata_not_preserved?: MetadataIssue[];
+  /** Set when the edit could not be recorded in the edit history, so undo_edit cannot revert it */
+  history_warning?: string;
+}
+
+/**
+ * Typed cause of a failed MultiEditResult, decided where the failure happened
+ */
+export interface EditFailure {
+  /** Error code reported in the error envelope */
+  code: ErrorCode;
+  /** Extra context for the error envelope (e.g. current hash for STALE_CONTENT) */
+  context?: ErrorContext;
+}
+
+/**
+ * One edit that failed in a validate_all run
+ */
+export interface FailedEdit extends EditFailure {
+  edit_index: number;
+  /** Error message of the edit */
+  message: string;
+}
+
+/**
+ * Metadata of a replaced file that could not be applied to its new content
+ */
+export interface MetadataIssue {
+  /** mode: permission bits; owner: uid/gid */
+  field: 'mode' | 'owner';
+  error: string;
+}
+
+/**
+ * How a file's new content reached the disk
+ */
+export interface WriteOutcome {
+  /** Overwritten in place (hard-linked file) instead of renamed over */
+  in_place: boolean;
+  /** Metadata that could not be preserved (empty when everything was kept) */
+  metadata_not_preserved: MetadataIssue[];
 }
 
 /**
@@ -116,10 +321,16 @@ export interface MultiEditResult {
 export interface RollbackDetail {
   /** Path to the file that was rolled back */
   file_path: string;
-  /** Whether the rollback succeeded or failed */
-  status: 'restored' | 'failed';
-  /** Path to the backup file used for rollback */
-  backup_path: string;
+  /**
+   * Whether the rollback restored the file, removed a created file,
+   * moved a relocated file back (and restored its content), failed, or skipped
+   * a file changed since the transaction (crash recovery only)
+   */
+  status: 'restored' | 'removed' | 'moved_back' | 'failed' | 'skipped';
+  /** Path to the backup file used for rollback (absent for created files) */
+  backup_path?: string;
+  /** Path the file was moved back from, for reversed moves */
+  moved_from?: string;
   /** Error message if rollback failed */
   error?: string;
 }
@@ -132,8 +343,106 @@ export interface RollbackReport {
   files_rolled_back: number;
   /** Number of files where rollback failed */
   files_failed_rollback: number;
+  /** Number of staged files discarded before they were committed (never touched on disk) */
+  files_not_committed?: number;
   /** Per-file rollback details */
   details: RollbackDetail[];
+  /** Transaction journal kept when a file failed to roll back; the next server start retries from it */
+  journal_path?: string;
+}
+
+/** What an edit history record did to its file */
+export type HistoryOperation = 'edit' | FileOperation;
+
+/**
+ * One file changed by a recorded edit
+ */
+export interface HistoryFileRecord {
+  /** Path of the file before the edit */
+  file_path: string;
+  /** Whether the file was edited in place, created, deleted or moved */
+  operation: HistoryOperation;
+  /** New location of the file, when it was moved */
+  moved_to?: string;
+  /** SHA-256 (hex) of the content before the edit (absent for created files) */
+  before_sha256?: string;
+  /** SHA-256 (hex) of the content after the edit (absent for deleted files) */
+  after_sha256?: string;
+  /** Backup holding the content before the edit, if one was made */
+  backup_path?: string;
+  /** Encoding of the file and its backup, when not UTF-8 */
+  encoding?: FileEncoding;
+}
+
+/**
+ * One successful multi_edit or multi_edit_files call in the edit history journal
+ */
+export interface EditHistoryEntry {
+  /** Unique id of the entry */
+  id: string;
+  /** Tool that made the edit */
+  tool: 'multi_edit' | 'multi_edit_files';
+  /** When the edit was made (ISO 8601) */
+  timestamp: string;
+  /** Files changed by the edit, in the order they were changed */
+  files: HistoryFileRecord[];
+}
+
+/**
+ * Input for undo_edit tool
+ */
+export interface UndoEditInput {
+  /** Number of most recent edits to undo (default: 1) */
+  count?: number;
+  /** Undo even if files changed after the edit (default: false) */
+  force?: boolean;
+}
+
+/**
+ * Input for list_edit_history tool
+ */
+export interface ListEditHistoryInput {
+  /** Maximum number of entries to list, newest first (default: 10) */
+  limit?: number;
+}
+
+/** One recorded call reverted by undo_edit */
+export interface UndoneEdit {
+  /** Id of the history entry */
+  id: string;
+  tool: EditHistoryEntry['tool'];
+  /** When the edit was made (ISO 8601) */
+  timestamp: string;
+  /** How each file was put back */
+  files: RollbackDetail[];
+}
+
+/**
+ * Result of undo_edit
+ */
+export interface UndoEditResult {
+  success: true;
+  edits_undone: number;
+  /** Reverted calls, newest first */
+  undone: UndoneEdit[];
+  /** Edits in this workspace still in the history */
+  history_remaining: number;
+}
+
+/** Error envelope of an undo_edit call, with the calls reverted before a failure */
+export interface UndoEditErrorEnvelope extends ErrorEnvelope {
+  undone?: UndoneEdit[];
+}
+
+/**
+ * Result of list_edit_history
+ */
+export interface ListEditHistoryResult {
+  success: true;
+  /** Edits in this workspace in the history */
+  total_entries: number;
+  /** The latest entries, newest first */
+  entries: EditHistoryEntry[];
 }
 
 /**
@@ -161,6 +470,24 @@ export interface MultiEditFilesResult {
   };
   /** Rollback report if operation failed and rollback was attempted */
   rollback?: RollbackReport;
+  /** Explains line_range numbering when any edit used one */
+  line_range_note?: string;
+  /** Set when the call could not be recorded in the edit history, so undo_edit cannot revert it */
+  history_warning?: string;
+}
+
+/** Phase of the multi_edit_files pipeline in which a call failed */
+export type FailedPhase = 'prepare' | 'stage' | 'commit';
+
+/** Per-file status in multi_edit_files error responses */
+export interface FileStatus {
+  file_path: string;
+  /** rolled_back: committed, then restored; failed: the file that failed; skipped: left untouched */
+  status: 'rolled_back' | 'failed' | 'skipped';
+  file_operation?: FileOperation;
+  error?: string;
+  /** Every failed edit of the file, with validate_all */
+  edit_status?: EditStatusEntry[];
 }
 
 /** Error codes for the error taxonomy */
@@ -173,18 +500,33 @@ export type ErrorCode =
   | 'EMPTY_OLD_STRING'
   | 'DUPLICATE_OLD_STRING'
   | 'DUPLICATE_FILE_PATH'
+  | 'INVALID_REGEX'
   // Match errors (retryable: true)
   | 'MATCH_NOT_FOUND'
   | 'AMBIGUOUS_MATCH'
+  | 'OCCURRENCE_OUT_OF_RANGE'
+  | 'INVALID_LINE_RANGE'
+  | 'STALE_CONTENT'
+  // Encoding errors (retryable: true)
+  | 'UNREPRESENTABLE_CHARACTER'
   // File system errors (retryable: false)
   | 'FILE_NOT_FOUND'
+  | 'FILE_ALREADY_EXISTS'
   | 'PERMISSION_DENIED'
+  | 'OPERATION_NOT_PERMITTED'
+  | 'FILE_ACCESS_ERROR'
   | 'INVALID_ENCODING'
   | 'DISK_FULL'
   | 'READ_ONLY_FS'
   | 'SYMLINK_LOOP'
   | 'BACKUP_FAILED'
   | 'WRITE_FAILED'
+  // Workspace policy errors (retryable: false)
+  | 'PATH_OUTSIDE_WORKSPACE'
+  | 'PATH_DENIED'
+  // Edit history errors (UNDO_CONFLICT is retryable with force)
+  | 'UNDO_CONFLICT'
+  | 'UNDO_UNAVAILABLE'
   // Other (retryable: false)
   | 'UNKNOWN_ERROR'
   | 'NOT_IMPLEMENTED'
@@ -197,6 +539,8 @@ export interface EditStatusEntry {
   error_code?: ErrorCode;
   message?: string;
   old_string_preview?: string;  // First 40 chars for correlation
+  /** Snippet, match locations or closest match for the failed edit, with validate_all */
+  context?: ErrorContext;
 }
 
 /** Match location with surrounding context */
@@ -211,6 +555,37 @@ export interface ErrorContext {
   snippet?: string;
   /** All match locations for ambiguous-match errors */
   match_locations?: MatchLocation[];
+  /** SHA-256 (hex) of the file on disk, for stale-content errors */
+  current_sha256?: string;
+  /** Modification time (ISO 8601) of the file on disk, for stale-content errors */
+  current_mtime?: string;
+  /** Files that changed after the edit being undone, for undo conflicts */
+  conflicts?: UndoConflict[];
+  /** Region most similar to an old_string that was not found */
+  closest_match?: ClosestMatch;
+}
+
+/** The region of a file most similar to an old_string that was not found */
+export interface ClosestMatch {
+  /** Lines the region spans */
+  lines: LineRange;
+  /** Similarity to old_string, from 0 to 1 (1: identical) */
+  similarity: number;
+  /** The region's text as it is in the file */
+  text: string;
+  /** Character diff from old_string to the file: [-only in old_string-]{+only in the file+} */
+  diff: string;
+  /** What differs, e.g. whitespace, quote style or a renamed identifier */
+  differences: string[];
+}
+
+/** A file whose current state does not match the recorded edit */
+export interface UndoConflict {
+  file_path: string;
+  /** SHA-256 (hex) recorded after the edit (absent: the file should not exist) */
+  expected_sha256?: string;
+  /** SHA-256 (hex) of the file on disk (absent: the file does not exist) */
+  current_sha256?: string;
 }
 
 /** Canonical error envelope - all errors produce this shape */
@@ -226,3 +601,11 @@ export interface ErrorEnvelope {
   edit_status?: EditStatusEntry[];
   backup_path?: string;
 }
+
+/** Error envelope of a multi_edit_files call that failed after validation */
+export interface MultiEditFilesErrorEnvelope extends ErrorEnvelope {
+  failed_phase: FailedPhase;
+  /** Files restored after a failure in the commit phase */
+  rollback?: RollbackReport;
+  file_statuses?: FileStatus[];
+}
@@ -181,7 +181,7 @@ describe('empty and minimal edits', () => {
 
     expect(result.isError).toBe(true);
 
-    const parsed = JSON.parse(result.content[0].text);
+    const parsed = result.structuredContent as Record<string, unknown>;
     expect(parsed.error_code).toBe('VALIDATION_FAILED');
 
     // File must remain unchanged
@@ -303,7 +303,7 @@ describe('match behavior', () => {
 
     expect(result.isError).toBe(true);
 
-    const parsed = JSON.parse(result.content[0].text);
+    const parsed = result.structuredContent as Record<string, unknown>;
     // Error should mention multiple occurrences
     expect(parsed.success).toBe(false);
 
@@ -7,8 +7,10 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { mkdtemp, writeFile, rm, realpath } from 'node:fs/promises';
 import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
 import { tmpdir } from 'node:os';
 import { createServer } from '../../../src/server.js';
 
@@ -19,10 +21,15 @@ import { createServer } from '../../../src/server.js';
  * Server is connected first, then client initiates the MCP handshake.
  *
  * Returns the client and a cleanup function that closes the transport.
+ *
+ * When `roots` is given, the client declares the roots capability and serves
+ * those directories from roots/list; `setRoots` replaces them and notifies the server.
+ * With `failListRoots`, roots/list answers with an error instead.
  */
-export async function createTestClient(): Promise<{
+export async function createTestClient(options: { roots?: string[]; failListRoots?: boolean } = {}): Promise<{
   client: Client;
   cleanup: () => Promise<void>;
+  setRoots: (roots: string[]) => Promise<void>;
 }> {
   const server = createServer();
   const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
@@ -30,14 +37,29 @@ export async function createTestClient(): Promise<{
   // Connect server first -- it must be ready before client initiates handshake
   await server.connect(serverTransport);
 
+  let roots = options.roots ?? [];
   const client = new Client(
     { name: 'integration-test-client', version: '1.0.0' },
-    {}
+    options.roots ? { capabilities: { roots: { listChanged: true } } } : {}
   );
+  if (options.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => {
+      if (options.failListRoots) {
+        throw new Error('roots/list is unavailable');
+      }
+      return { roots: roots.map(root => ({ uri: pathToFileURL(root).href })) };
+    });
+  }
   await client.connect(clientTransport);
+  // Caches the output schemas, so callTool validates every structured response
+  await client.listTools();
 
   return {
     client,
+    setRoots: async (next: string[]) => {
+      roots = next;
+      await client.sendRootsListChanged();
+    },
     cleanup: async () => {
       await clientTransport.close();
     },
@@ -79,14 +101,19 @@ export async function cleanupTempDir(dir: string): Promise<void> {
 /**
  * Parse a callTool result into a typed object.
  *
- * Extracts the JSON text from the first content block, parses it,
- * and returns the parsed object alongside the isError flag.
+ * Returns the structuredContent of tools that declare an output schema, else
+ * parses the JSON text of the first content block, alongside the isError flag.
+ * Pass the response type to assert on its fields (it is not checked at runtime).
  */
-export function parseToolResult(result: {
+export function parseToolResult<T = Record<string, unknown>>(result: {
   content: unknown;
+  structuredContent?: unknown;
   isError?: boolean;
-}): { parsed: Record<string, unknown>; isError: boolean | undefined } {
+}): { parsed: T; isError: boolean | undefined } {
+  if (result.structuredContent !== undefined) {
+    return { parsed: result.structuredContent as T, isError: result.isError };
+  }
   const text = (result.content as Array<{ type: string; text: string }>)[0].text;
-  const parsed = JSON.parse(text) as Record<string, unknown>;
+  const parsed = JSON.parse(text) as T;
   return { parsed, isError: result.isError };
 }
@@ -5,9 +5,11 @@
  * Uses temp directories for all file operations.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { readFile, readdir } from 'node:fs/promises';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFile, readdir, symlink, mkdir, writeFile, access, chmod, link, stat, rm } from 'node:fs/promises';
 import { join } from 'node:path';
+import { hostname } from 'node:os';
+import { spawnSync } from 'node:child_process';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import {
   createTestClient,
@@ -16,6 +18,39 @@ import {
   cleanupTempDir,
   parseToolResult,
 } from './helpers/setup.js';
+import { setWorkspacePolicy } from '../../src/core/workspace.js';
+import * as editor from '../../src/core/editor.js';
+import { setBackupConfig, DEFAULT_BACKUP_DIRECTORY } from '../../src/core/backup.js';
+import { setHistoryConfig, DEFAULT_HISTORY_FILE } from '../../src/core/history.js';
+import { setJournalDirectory, DEFAULT_JOURNAL_DIRECTORY } from '../../src/core/journal.js';
+import type {
+  EditHistoryEntry,
+  ErrorEnvelope,
+  MultiEditFilesErrorEnvelope,
+  RollbackDetail,
+} from '../../src/types/index.js';
+
+/** Fields of the undo_edit and list_edit_history responses (or their error envelope) asserted on */
+type UndoToolResponse = Partial<ErrorEnvelope> & {
+  total_entries?: number;
+  entries?: EditHistoryEntry[];
+  edits_undone?: number;
+  undone?: Array<{ files: RollbackDetail[] }>;
+  history_remaining?: number;
+};
+
+/**
+ * Make the final rename of one file fail, so the files committed before it are rolled back
+ */
+function failCommitFor(filePath: string): void {
+  const originalCommit = editor.commitStagedWrite;
+  vi.spyOn(editor, 'commitStagedWrite').mockImplementation(async (tempPath: string, target: string) => {
+    if (target === filePath) {
+      throw Object.assign(new Error('EIO: i/o error, rename'), { code: 'EIO' });
+    }
+    return originalCommit(tempPath, target);
+  });
+}
 
 describe('MCP Server Integration', () => {
   let client: Client;
@@ -28,6 +63,7 @@ describe('MCP Server Integration', () => {
   });
 
   afterEach(async () => {
+    vi.restoreAllMocks();
     await cleanup();
     await cleanupTempDir(tempDir);
   });
@@ -37,12 +73,14 @@ describe('MCP Server Integration', () => {
   // ============================================================
 
   describe('tool discovery', () => {
-    it('should list both tools', async () => {
+    it('should list all tools', async () => {
       const { tools } = await client.listTools();
-      expect(tools).toHaveLength(2);
+      expect(tools).toHaveLength(4);
       const names = tools.map(t => t.name);
       expect(names).toContain('multi_edit');
       expect(names).toContain('multi_edit_files');
+      expect(names).toContain('undo_edit');
+      expect(names).toContain('list_edit_history');
     });
 
     it('should expose correct input schema for multi_edit', async () => {
@@ -53,12 +91,200 @@ describe('MCP Server Integration', () => {
       expect(multiEdit.inputSchema.required).toContain('edits');
     });
 
+    it('should advertise case_insensitive and preserve_case on edit items', async () => {
+      const { tools } = await client.listTools();
+      for (const tool of tools.filter(t => t.name.startsWith('multi_edit'))) {
+        const props = tool.inputSchema.properties as Record<string, any>;
+        const editItem = tool.name === 'multi_edit'
+          ? props.edits.items
+          : props.files.items.properties.edits.items;
+        expect(editItem.properties.case_insensitive.type).toBe('boolean');
+        expect(editItem.properties.preserve_case.type).toBe('boolean');
+      }
+    });
+
     it('should expose correct input schema for multi_edit_files', async () => {
       const { tools } = await client.listTools();
       const multiEditFiles = tools.find(t => t.name === 'multi_edit_files')!;
       expect(multiEditFiles).toBeDefined();
       expect(multiEditFiles.inputSchema.required).toContain('files');
     });
+
+    it('should declare output schemas for every tool', async () => {
+      const { tools } = await client.listTools();
+      for (const name of ['multi_edit', 'multi_edit_files', 'undo_edit', 'list_edit_history']) {
+        const outputSchema = tools.find(t => t.name === name)!.outputSchema!;
+        expect(outputSchema.required).toEqual(['success']);
+        expect((outputSchema as { oneOf: unknown[] }).oneOf).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('structured output', () => {
+    it('should return structuredContent with a text summary', async () => {
+      const filePath = await createTestFile(tempDir, 'summary.txt', 'one\ntwo\n');
+
+      const result = await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'two', new_string: 'TWO' }], backup: false },
+      });
+
+      expect(result.structuredContent).toMatchObject({ success: true, edits_applied: 1 });
+      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+      expect(text.split('\n').slice(0, 2)).toEqual([`Applied 1 edit to ${filePath}`, 'Changed lines: 2']);
+    });
+
+    it('should answer in one line at minimal verbosity', async () => {
+      const filePath = await createTestFile(tempDir, 'minimal.txt', 'a\nb\na\n');
+
+      const single = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'a', new_string: 'A', replace_all: true }],
+          backup: false,
+          verbosity: 'minimal',
+        },
+      });
+      expect((single.content as Array<{ text: string }>)[0].text).toBe('ok: 1 edit, 2 replacements, lines 1-3');
+      expect(single.structuredContent).not.toHaveProperty('edits');
+
+      const multi = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ old_string: 'b', new_string: 'B' }] }],
+          verbosity: 'minimal',
+        },
+      });
+      expect((multi.content as Array<{ text: string }>)[0].text).toBe('ok: 1 file, 1 edit, 1 replacement');
+      expect(multi.structuredContent).toMatchObject({ file_results: [{ file_path: filePath }] });
+    });
+
+    it('should return the diff and final content of a real edit at full verbosity', async () => {
+      const filePath = await createTestFile(tempDir, 'full.txt', 'old\n');
+
+      const { parsed } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ old_string: 'old', new_string: 'new' }] }],
+          verbosity: 'full',
+        },
+      }));
+
+      const [fileResult] = parsed.file_results as Array<Record<string, string>>;
+      expect(fileResult.final_content).toBe('new\n');
+      expect(fileResult.diff_preview).toContain('-old\n+new');
+      expect(await readFile(filePath, 'utf-8')).toBe('new\n');
+    });
+
+    it('should return error_code, edit_status and failed_phase in structuredContent', async () => {
+      const filePath = await createTestFile(tempDir, 'fail.txt', 'alpha');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ old_string: 'beta', new_string: 'gamma' }] }],
+        },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        success: false,
+        error_code: 'MATCH_NOT_FOUND',
+        failed_phase: 'prepare',
+        file_statuses: [{ file_path: filePath, status: 'failed' }],
+      });
+      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+      expect(text).toMatch(/^MATCH_NOT_FOUND: Edit failed in file 1 of 1/);
+      expect(text).toContain('Failed in the prepare phase; no file was changed');
+    });
+
+    it('should report the closest match when old_string is not found', async () => {
+      const filePath = await createTestFile(tempDir, 'near.ts', "const label = 'Save';\nexport { label };\n");
+
+      const result = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'const label = "Save";', new_string: 'const label = "Store";' }],
+        },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        error_code: 'MATCH_NOT_FOUND',
+        context: {
+          closest_match: {
+            lines: { start: 1, end: 1 },
+            text: "const label = 'Save';",
+            diff: 'const label = [-"-]{+\'+}Save[-"-]{+\'+};',
+          },
+        },
+      });
+      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+      expect(text).toContain('Closest match at line 1');
+    });
+
+    it('should report every failed edit with validate_all and leave the file unchanged', async () => {
+      const original = 'one\ntwo\nthree\ntwo\n';
+      const filePath = await createTestFile(tempDir, 'all.txt', original);
+
+      const result = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [
+            { old_string: 'one', new_string: '1' },
+            { old_string: 'tree', new_string: '3' },
+            { old_string: 'two', new_string: '2' },
+            { old_string: 'four', new_string: '4' },
+          ],
+          validate_all: true,
+        },
+      });
+
+      expect(result.isError).toBe(true);
+      const parsed = result.structuredContent as Record<string, unknown>;
+      expect(parsed.message).toMatch(/^3 of 4 edits failed \(edits 2, 3, 4\)/);
+      expect((parsed.edit_status as Array<Record<string, unknown>>).map(entry => entry.error_code)).toEqual([
+        'MATCH_NOT_FOUND',
+        'AMBIGUOUS_MATCH',
+        'MATCH_NOT_FOUND',
+      ]);
+      expect(await readFile(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should report failed edits of every file with validate_all', async () => {
+      const first = await createTestFile(tempDir, 'first.txt', 'alpha\n');
+      const second = await createTestFile(tempDir, 'second.txt', 'beta\n');
+      const third = await createTestFile(tempDir, 'third.txt', 'gamma\n');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: first, edits: [{ old_string: 'alpah', new_string: 'a' }] },
+            { file_path: second, edits: [{ old_string: 'beta', new_string: 'b' }] },
+            { file_path: third, edits: [{ old_string: 'gamma', new_string: 'g' }, { old_string: 'delta', new_string: 'd' }] },
+          ],
+          validate_all: true,
+        },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        error_code: 'MATCH_NOT_FOUND',
+        failed_phase: 'prepare',
+        file_statuses: [
+          { file_path: first, status: 'failed', edit_status: [{ edit_index: 0, error_code: 'MATCH_NOT_FOUND' }] },
+          { file_path: second, status: 'skipped' },
+          { file_path: third, status: 'failed', edit_status: [{ edit_index: 1, error_code: 'MATCH_NOT_FOUND' }] },
+        ],
+      });
+      expect((result.structuredContent as Record<string, string>).message)
+        .toMatch(/^Edits failed in 2 of 3 files \(files 1, 3\)/);
+      expect(await readFile(third, 'utf-8')).toBe('gamma\n');
+    });
   });
 
   // ============================================================
@@ -199,6 +425,70 @@ describe('MCP Server Integration', () => {
       expect(parsed.success).toBe(false);
     });
 
+    it('should honour case_insensitive and preserve_case end-to-end', async () => {
+      const filePath = await createTestFile(tempDir, 'case.txt', 'userId UserId USERID');
+
+      const result = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'userid', new_string: 'accountId', preserve_case: true, replace_all: true }],
+          backup: false,
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBeFalsy();
+      expect(parsed.success).toBe(true);
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content).toBe('accountId AccountId ACCOUNTID');
+    });
+
+    it('should return match_locations for ambiguous matches and accept an occurrence retry', async () => {
+      const filePath = await createTestFile(tempDir, 'ambiguous.txt', 'item\nother\nitem');
+
+      const first = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'item', new_string: 'entry' }],
+          backup: false,
+        },
+      });
+      const failed = parseToolResult(first).parsed as { error_code: string; context: { match_locations: Array<{ line: number }> } };
+      expect(failed.error_code).toBe('AMBIGUOUS_MATCH');
+      expect(failed.context.match_locations.map(l => l.line)).toEqual([1, 3]);
+
+      const retry = await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'item', new_string: 'entry', line_hint: 3 }],
+          backup: false,
+        },
+      });
+      expect(parseToolResult(retry).isError).toBeFalsy();
+      expect(await readFile(filePath, 'utf-8')).toBe('item\nother\nentry');
+    });
+
+    it('should keep CRLF line endings and the BOM of an edited file', async () => {
+      const filePath = await createTestFile(tempDir, 'windows.txt', '\uFEFFfirst\r\nsecond\r\n');
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          edits: [{ old_string: 'first\nsecond', new_string: 'first\ninserted\nsecond' }],
+          backup: false,
+        },
+      }));
+
+      expect(isError).toBeFalsy();
+      expect(parsed.file_format).toEqual({ line_ending: 'crlf', bom: true, encoding: 'utf-8' });
+      expect(await readFile(filePath, 'utf-8')).toBe('\uFEFFfirst\r\ninserted\r\nsecond\r\n');
+    });
+
     it('should return error for unknown tool name', async () => {
       const result = await client.callTool({
         name: 'nonexistent_tool',
@@ -215,6 +505,650 @@ describe('MCP Server Integration', () => {
   // multi_edit_files tool
   // ============================================================
 
+  describe('workspace policy', () => {
+    afterEach(() => {
+      setWorkspacePolicy({ roots: [], deny: [] });
+    });
+
+    it('should reject a symlink that resolves outside the workspace root', async () => {
+      const root = join(tempDir, 'project');
+      await mkdir(root);
+      const outside = await createTestFile(tempDir, 'outside.txt', 'secret');
+      const link = join(root, 'link.txt');
+      await symlink(outside, link);
+      setWorkspacePolicy({ roots: [root] });
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: link, edits: [{ old_string: 'secret', new_string: 'leaked' }] },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('PATH_OUTSIDE_WORKSPACE');
+      expect(await readFile(outside, 'utf-8')).toBe('secret');
+    });
+
+    it('should reject denied files and creates in multi_edit_files', async () => {
+      const inside = await createTestFile(tempDir, 'app.ts', 'a');
+      setWorkspacePolicy({ roots: [tempDir], deny: ['.env*'] });
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: inside, edits: [{ old_string: 'a', new_string: 'b' }] },
+            { file_path: join(tempDir, '.env.local'), create: { content: 'TOKEN=1' } },
+          ],
+        },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('PATH_DENIED');
+      expect(await readdir(tempDir)).not.toContain('.env.local');
+      expect(await readFile(inside, 'utf-8')).toBe('a');
+    });
+  });
+
+  describe('backup strategies', () => {
+    afterEach(() => {
+      setBackupConfig({ strategy: 'sibling', directory: DEFAULT_BACKUP_DIRECTORY });
+    });
+
+    it('should roll back from memory when the strategy is none', async () => {
+      setBackupConfig({ strategy: 'none' });
+      const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
+      const doomed = await createTestFile(tempDir, 'doomed.txt', 'keep me');
+      const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
+      failCommitFor(file2);
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] },
+            { file_path: doomed, delete: true },
+            { file_path: file2, edits: [{ old_string: 'bbb', new_string: 'y' }] },
+          ],
+        },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.rollback.files_rolled_back).toBe(2);
+      expect(parsed.rollback.details[0].backup_path).toBeUndefined();
+      expect(await readFile(file1, 'utf-8')).toBe('aaa');
+      expect(await readFile(doomed, 'utf-8')).toBe('keep me');
+      expect((await readdir(tempDir)).filter(f => f.endsWith('.bak'))).toEqual([]);
+    });
+
+    it('should write timestamped backups to the backup directory and roll back from them', async () => {
+      const backupDir = join(tempDir, 'backups');
+      setBackupConfig({ strategy: 'directory', directory: backupDir });
+      const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
+      const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
+      failCommitFor(file2);
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] },
+            { file_path: file2, edits: [{ old_string: 'bbb', new_string: 'y' }] },
+          ],
+        },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.rollback.details[0].backup_path.startsWith(backupDir)).toBe(true);
+      expect(parsed.rollback.details[0].backup_path).toMatch(/file1\.txt\.\d{8}T\d{9}Z\.bak$/);
+      expect(await readFile(file1, 'utf-8')).toBe('aaa');
+      expect((await readdir(tempDir)).filter(f => f.endsWith('.bak'))).toEqual([]);
+    });
+  });
+
+  describe('change locations', () => {
+    it('should report where each edit landed in both tools', async () => {
+      const filePath = await createTestFile(tempDir, 'greet.ts', 'const a = 1;\nconst b = 2;\n');
+
+      const single = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'b = 2', new_string: 'b = 20' }], backup: false },
+      }));
+      expect(single.parsed.changes).toEqual([
+        { edit_index: 0, start_line: 2, start_column: 7, end_line: 2, end_column: 13 },
+      ]);
+
+      const multi = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ op: 'prepend_file', new_string: '// header\n' }] }],
+        },
+      }));
+      expect(multi.parsed.file_results[0].changes).toEqual([
+        { edit_index: 0, start_line: 1, start_column: 1, end_line: 2, end_column: 1 },
+      ]);
+    });
+  });
+
+  describe('file metadata', () => {
+    it('should keep the executable bit of an edited script', async () => {
+      const filePath = await createTestFile(tempDir, 'deploy.sh', '#!/bin/sh\necho old\n');
+      await chmod(filePath, 0o755);
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'old', new_string: 'new' }], backup: false },
+      }));
+
+      expect(isError).toBeFalsy();
+      expect(parsed.metadata_not_preserved).toBeUndefined();
+      expect((await stat(filePath)).mode & 0o777).toBe(0o755);
+    });
+
+    it('should edit hard-linked files in place so every link sees the change', async () => {
+      const filePath = await createTestFile(tempDir, 'shared.txt', 'version 1');
+      const linkPath = join(tempDir, 'linked.txt');
+      await link(filePath, linkPath);
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ old_string: 'version 1', new_string: 'version 2' }] }],
+        },
+      }));
+
+      expect(isError).toBeFalsy();
+      expect(parsed.file_results[0].written_in_place).toBe(true);
+      expect(await readFile(linkPath, 'utf-8')).toBe('version 2');
+      expect((await stat(filePath)).nlink).toBe(2);
+    });
+  });
+
+  describe('file encodings', () => {
+    it('should edit a latin1 file and write it back in latin1 with its backup', async () => {
+      const filePath = join(tempDir, 'legacy.properties');
+      await writeFile(filePath, Buffer.from('greeting=Grüße\n', 'latin1'));
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          encoding: 'latin1',
+          edits: [{ old_string: 'Grüße', new_string: 'Grüß Gott' }],
+        },
+      }));
+
+      expect(isError).toBeFalsy();
+      expect(parsed.file_format.encoding).toBe('latin1');
+      expect(await readFile(filePath)).toEqual(Buffer.from('greeting=Grüß Gott\n', 'latin1'));
+      expect(await readFile(`${filePath}.bak`)).toEqual(Buffer.from('greeting=Grüße\n', 'latin1'));
+    });
+
+    it('should detect UTF-16 files by byte order mark and keep the mark', async () => {
+      const filePath = join(tempDir, 'Localizable.strings');
+      await writeFile(filePath, Buffer.from('\uFEFF"title" = "Hallo";\n', 'utf16le'));
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: filePath, edits: [{ old_string: 'Hallo', new_string: 'Grüß dich' }] }],
+        },
+      }));
+
+      expect(isError).toBeFalsy();
+      expect(parsed.file_results[0].file_format).toEqual({ line_ending: 'lf', bom: true, encoding: 'utf-16le' });
+      expect(await readFile(filePath)).toEqual(Buffer.from('\uFEFF"title" = "Grüß dich";\n', 'utf16le'));
+    });
+
+    it('should reject characters the encoding cannot represent without writing', async () => {
+      const filePath = join(tempDir, 'menu.txt');
+      const original = Buffer.from([0x82, 0xa0, 0x0a]); // "あ\n" in Shift-JIS
+      await writeFile(filePath, original);
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          encoding: 'shift_jis',
+          edits: [{ old_string: 'あ', new_string: 'あ €' }],
+          backup: false,
+        },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('UNREPRESENTABLE_CHARACTER');
+      expect(parsed.message).toContain('U+20AC');
+      expect(await readFile(filePath)).toEqual(original);
+    });
+
+    it('should point to the encoding option for files that are not UTF-8', async () => {
+      const filePath = join(tempDir, 'legacy.txt');
+      await writeFile(filePath, Buffer.from('café', 'latin1'));
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'caf', new_string: 'bar' }] },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('INVALID_ENCODING');
+      expect(parsed.recovery_hints[0]).toContain('encoding');
+    });
+  });
+
+  describe('edit history and undo', () => {
+    beforeEach(() => {
+      setHistoryConfig({ file: join(tempDir, 'history', 'history.jsonl') });
+    });
+
+    afterEach(() => {
+      setHistoryConfig({ file: DEFAULT_HISTORY_FILE });
+      setBackupConfig({ strategy: 'sibling', directory: DEFAULT_BACKUP_DIRECTORY });
+    });
+
+    const callTool = async (name: string, args: Record<string, unknown>) =>
+      parseToolResult<UndoToolResponse>(await client.callTool({ name, arguments: args }));
+
+    it('should list a multi_edit call and undo it', async () => {
+      const filePath = await createTestFile(tempDir, 'file.txt', 'hello world');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'world', new_string: 'there' }] });
+
+      const listed = await callTool('list_edit_history', {});
+      expect(listed.parsed.total_entries).toBe(1);
+      expect(listed.parsed.entries![0].tool).toBe('multi_edit');
+      expect(listed.parsed.entries![0].files[0]).toMatchObject({
+        file_path: filePath,
+        operation: 'edit',
+        backup_path: `${filePath}.bak`,
+      });
+
+      const { parsed, isError } = await callTool('undo_edit', {});
+      expect(isError).toBe(false);
+      expect(parsed.edits_undone).toBe(1);
+      expect(parsed.undone![0].files[0]).toMatchObject({ file_path: filePath, status: 'restored' });
+      expect(parsed.history_remaining).toBe(0);
+      expect(await readFile(filePath, 'utf-8')).toBe('hello world');
+    });
+
+    it('should warn in the result when an edit cannot be recorded in the history', async () => {
+      const blocker = await createTestFile(tempDir, 'blocker', 'not a directory');
+      setHistoryConfig({ file: join(blocker, 'history.jsonl') });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const filePath = await createTestFile(tempDir, 'file.txt', 'hello world');
+
+      const single = await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'world', new_string: 'there' }] },
+      });
+      const multi = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: { files: [{ file_path: filePath, edits: [{ old_string: 'there', new_string: 'all' }] }], verbosity: 'minimal' },
+      });
+
+      for (const result of [single, multi]) {
+        expect(result.isError).toBe(false);
+        expect((result.structuredContent as { history_warning?: string }).history_warning)
+          .toMatch(/^Edit history not recorded, so undo_edit cannot revert this edit: /);
+        expect((result.content as Array<{ text: string }>)[0].text).toContain('\nWarning: Edit history not recorded');
+      }
+      expect(await readFile(filePath, 'utf-8')).toBe('hello all');
+    });
+
+    it('should return undo_edit and list_edit_history results as structuredContent with a text summary', async () => {
+      const filePath = await createTestFile(tempDir, 'file.txt', 'hello world');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'world', new_string: 'there' }] });
+
+      const listed = await client.callTool({ name: 'list_edit_history', arguments: {} });
+      const [entry] = (listed.structuredContent as { entries: EditHistoryEntry[] }).entries;
+      expect((listed.content as Array<{ text: string }>)[0].text.split('\n')).toEqual([
+        '1 edit in history',
+        `- ${entry.timestamp} multi_edit [${entry.id}]: ${filePath}`,
+      ]);
+
+      const undone = await client.callTool({ name: 'undo_edit', arguments: {} });
+      expect(undone.structuredContent).toMatchObject({ success: true, edits_undone: 1 });
+      expect((undone.content as Array<{ text: string }>)[0].text.split('\n')).toEqual([
+        'Undid 1 edit; 0 left in history',
+        `- multi_edit at ${entry.timestamp}:`,
+        `  - ${filePath}: restored`,
+      ]);
+    });
+
+    it('should undo an edit of a latin1 file in its encoding', async () => {
+      const filePath = join(tempDir, 'legacy.txt');
+      await writeFile(filePath, Buffer.from('café', 'latin1'));
+      await callTool('multi_edit', {
+        file_path: filePath,
+        encoding: 'latin1',
+        edits: [{ old_string: 'café', new_string: 'crème' }],
+      });
+
+      const { isError } = await callTool('undo_edit', {});
+      expect(isError).toBe(false);
+      expect(await readFile(filePath)).toEqual(Buffer.from('café', 'latin1'));
+    });
+
+    it('should refuse to undo over later changes unless forced', async () => {
+      const filePath = await createTestFile(tempDir, 'file.txt', 'hello world');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'world', new_string: 'there' }] });
+      await writeFile(filePath, 'hand edited', 'utf-8');
+
+      const refused = await callTool('undo_edit', {});
+      expect(refused.isError).toBe(true);
+      expect(refused.parsed.error_code).toBe('UNDO_CONFLICT');
+      expect(refused.parsed.retryable).toBe(true);
+      expect(refused.parsed.context!.conflicts![0].file_path).toBe(filePath);
+      expect(await readFile(filePath, 'utf-8')).toBe('hand edited');
+
+      const forced = await callTool('undo_edit', { force: true });
+      expect(forced.isError).toBe(false);
+      expect(await readFile(filePath, 'utf-8')).toBe('hello world');
+    });
+
+    it('should undo created, deleted and moved files of a multi_edit_files call', async () => {
+      const created = join(tempDir, 'new.txt');
+      const doomed = await createTestFile(tempDir, 'doomed.txt', 'keep me');
+      const source = await createTestFile(tempDir, 'old.txt', 'const a = 1;');
+      const destination = join(tempDir, 'renamed.txt');
+      await callTool('multi_edit_files', {
+        files: [
+          { file_path: created, create: { content: 'fresh' } },
+          { file_path: doomed, delete: true },
+          { file_path: source, move_to: destination, edits: [{ old_string: 'a = 1', new_string: 'a = 2' }] },
+        ],
+      });
+
+      const { parsed, isError } = await callTool('undo_edit', {});
+      expect(isError).toBe(false);
+      expect(parsed.undone![0].files.map(f => f.status)).toEqual(['moved_back', 'restored', 'removed']);
+      await expect(access(created)).rejects.toThrow();
+      await expect(access(destination)).rejects.toThrow();
+      expect(await readFile(doomed, 'utf-8')).toBe('keep me');
+      expect(await readFile(source, 'utf-8')).toBe('const a = 1;');
+    });
+
+    it('should undo several edits of one file from directory backups', async () => {
+      setBackupConfig({ strategy: 'directory', directory: join(tempDir, 'backups') });
+      const filePath = await createTestFile(tempDir, 'file.txt', 'v1');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v1', new_string: 'v2' }] });
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v2', new_string: 'v3' }] });
+
+      const { parsed, isError } = await callTool('undo_edit', { count: 2 });
+      expect(isError).toBe(false);
+      expect(parsed.edits_undone).toBe(2);
+      expect(await readFile(filePath, 'utf-8')).toBe('v1');
+    });
+
+    it('should undo several edits of one file from sibling backups', async () => {
+      const filePath = await createTestFile(tempDir, 'file.txt', 'v1');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v1', new_string: 'v2' }] });
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v2', new_string: 'v3' }] });
+
+      const { parsed, isError } = await callTool('undo_edit', { count: 2 });
+      expect(isError).toBe(false);
+      // The second backup rotated the first to .1.bak
+      expect(parsed.undone!.map(u => u.files[0].backup_path)).toEqual([`${filePath}.bak`, `${filePath}.1.bak`]);
+      expect(await readFile(filePath, 'utf-8')).toBe('v1');
+    });
+
+    it('should report UNDO_UNAVAILABLE when the backup no longer holds the original content', async () => {
+      const filePath = await createTestFile(tempDir, 'file.txt', 'v1');
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v1', new_string: 'v2' }] });
+      await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v2', new_string: 'v3' }] });
+      await writeFile(`${filePath}.bak`, 'cleaned up', 'utf-8');
+
+      const { parsed, isError } = await callTool('undo_edit', { count: 2 });
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('UNDO_UNAVAILABLE');
+      expect(await readFile(filePath, 'utf-8')).toBe('v3');
+    });
+
+    it('should only list and undo edits inside the workspace roots', async () => {
+      const project = join(tempDir, 'project');
+      const other = join(tempDir, 'other');
+      await mkdir(project);
+      await mkdir(other);
+      const otherFile = await createTestFile(other, 'file.txt', 'v1');
+      await callTool('multi_edit', { file_path: otherFile, edits: [{ old_string: 'v1', new_string: 'v2' }] });
+
+      setWorkspacePolicy({ roots: [project] });
+      try {
+        const listed = await callTool('list_edit_history', {});
+        expect(listed.parsed.total_entries).toBe(0);
+
+        const { parsed, isError } = await callTool('undo_edit', {});
+        expect(isError).toBe(true);
+        expect(parsed.error_code).toBe('UNDO_UNAVAILABLE');
+        expect(await readFile(otherFile, 'utf-8')).toBe('v2');
+      } finally {
+        setWorkspacePolicy({ roots: [] });
+      }
+    });
+
+    it('should refuse to undo through a symlink that now leads outside the roots', async () => {
+      const project = join(tempDir, 'project');
+      await mkdir(project);
+      const filePath = await createTestFile(project, 'file.txt', 'v1');
+      const outside = await createTestFile(tempDir, 'outside.txt', 'keep');
+
+      setWorkspacePolicy({ roots: [project] });
+      try {
+        await callTool('multi_edit', { file_path: filePath, edits: [{ old_string: 'v1', new_string: 'v2' }] });
+        await rm(filePath);
+        await symlink(outside, filePath);
+
+        const { parsed, isError } = await callTool('undo_edit', { force: true });
+        expect(isError).toBe(true);
+        expect(parsed.error_code).toBe('PATH_OUTSIDE_WORKSPACE');
+        expect(await readFile(outside, 'utf-8')).toBe('keep');
+      } finally {
+        setWorkspacePolicy({ roots: [] });
+      }
+    });
+
+    it('should report UNDO_UNAVAILABLE with an empty history', async () => {
+      const { parsed, isError } = await callTool('undo_edit', {});
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('UNDO_UNAVAILABLE');
+      expect(parsed.message).toBe('No edits in history to undo');
+    });
+  });
+
+  describe('crash recovery', () => {
+    let journalDir: string;
+
+    beforeEach(() => {
+      journalDir = join(tempDir, 'transactions');
+      setJournalDirectory(journalDir);
+    });
+
+    afterEach(() => {
+      setJournalDirectory(DEFAULT_JOURNAL_DIRECTORY);
+    });
+
+    it('should remove the journal once a multi_edit_files call finishes', async () => {
+      const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
+      const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
+
+      await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] },
+            { file_path: file2, edits: [{ old_string: 'nonexistent_string', new_string: 'y' }] },
+          ],
+        },
+      });
+      await client.callTool({
+        name: 'multi_edit_files',
+        arguments: { files: [{ file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] }] },
+      });
+
+      expect(await readdir(journalDir)).toEqual([]);
+    });
+
+    it('should roll back a transaction interrupted by a crash before serving tool calls', async () => {
+      const edited = await createTestFile(tempDir, 'edited.txt', 'half-edited');
+      const created = await createTestFile(tempDir, 'created.txt', 'fresh');
+      await mkdir(journalDir);
+      const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+      const journal = [
+        { type: 'begin', id: 'tx-crashed', pid: deadPid, host: hostname(), started_at: '2026-10-19T10:00:00.000Z' },
+        { type: 'file', file_path: edited, original_bytes: Buffer.from('original').toString('base64'), committed_sha256: editor.computeSha256('half-edited') },
+        { type: 'file', file_path: created, committed_sha256: editor.computeSha256('fresh') },
+      ];
+      await writeFile(join(journalDir, 'tx-crashed.jsonl'), journal.map(line => `${JSON.stringify(line)}\n`).join(''));
+
+      const restarted = await createTestClient();
+      try {
+        await restarted.client.callTool({ name: 'list_edit_history', arguments: {} });
+      } finally {
+        await restarted.cleanup();
+      }
+
+      expect(await readFile(edited, 'utf-8')).toBe('original');
+      await expect(access(created)).rejects.toThrow();
+      expect(await readdir(journalDir)).toEqual([]);
+    });
+  });
+
+  describe('client roots', () => {
+    it('should confine edits to the roots the client reports', async () => {
+      const project = join(tempDir, 'project');
+      await mkdir(project);
+      const inside = await createTestFile(project, 'inside.txt', 'aaa');
+      const outside = await createTestFile(tempDir, 'outside.txt', 'aaa');
+
+      const rootsClient = await createTestClient({ roots: [project] });
+      try {
+        const allowed = parseToolResult(await rootsClient.client.callTool({
+          name: 'multi_edit',
+          arguments: { file_path: inside, edits: [{ old_string: 'aaa', new_string: 'bbb' }] },
+        }));
+        expect(allowed.isError).toBeFalsy();
+
+        const denied = parseToolResult(await rootsClient.client.callTool({
+          name: 'multi_edit',
+          arguments: { file_path: outside, edits: [{ old_string: 'aaa', new_string: 'bbb' }] },
+        }));
+        expect(denied.isError).toBe(true);
+        expect(denied.parsed.error_code).toBe('PATH_OUTSIDE_WORKSPACE');
+        expect(await readFile(outside, 'utf-8')).toBe('aaa');
+      } finally {
+        await rootsClient.cleanup();
+      }
+    });
+
+    it.each([
+      ['reports no roots', { roots: [] }],
+      ['fails roots/list', { roots: [], failListRoots: true }],
+    ])('should refuse every path when a client with the roots capability %s', async (_label, options) => {
+      const file = await createTestFile(tempDir, 'file.txt', 'aaa');
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const rootsClient = await createTestClient(options);
+      try {
+        const result = parseToolResult(await rootsClient.client.callTool({
+          name: 'multi_edit',
+          arguments: { file_path: file, edits: [{ old_string: 'aaa', new_string: 'bbb' }] },
+        }));
+        expect(result.isError).toBe(true);
+        expect(result.parsed.error_code).toBe('PATH_OUTSIDE_WORKSPACE');
+        expect(await readFile(file, 'utf-8')).toBe('aaa');
+      } finally {
+        await rootsClient.cleanup();
+        consoleError.mockRestore();
+      }
+    });
+
+    it('should follow roots/list_changed notifications', async () => {
+      const first = join(tempDir, 'first');
+      const second = join(tempDir, 'second');
+      await mkdir(first);
+      await mkdir(second);
+      const file = await createTestFile(second, 'file.txt', 'aaa');
+
+      const rootsClient = await createTestClient({ roots: [first] });
+      try {
+        await rootsClient.setRoots([second]);
+        // The notification is handled asynchronously; the tool call waits for the refresh
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        const result = parseToolResult(await rootsClient.client.callTool({
+          name: 'multi_edit',
+          arguments: { file_path: file, edits: [{ old_string: 'aaa', new_string: 'bbb' }] },
+        }));
+        expect(result.isError).toBeFalsy();
+        expect(await readFile(file, 'utf-8')).toBe('bbb');
+      } finally {
+        await rootsClient.cleanup();
+      }
+    });
+  });
+
+  describe('expected content hash', () => {
+    it('should return sha256 and accept it as expected_sha256 on the next call', async () => {
+      const filePath = await createTestFile(tempDir, 'chain.txt', 'one two');
+
+      const first = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, edits: [{ old_string: 'one', new_string: 'ONE' }] },
+      }));
+      expect(first.parsed.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+      const second = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          expected_sha256: first.parsed.sha256,
+          edits: [{ old_string: 'two', new_string: 'TWO' }],
+        },
+      }));
+      expect(second.isError).toBeFalsy();
+      expect(await readFile(filePath, 'utf-8')).toBe('ONE TWO');
+    });
+
+    it('should reject with STALE_CONTENT when the file changed', async () => {
+      const filePath = await createTestFile(tempDir, 'stale.txt', 'original');
+
+      const dryRun = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: { file_path: filePath, dry_run: true, edits: [{ old_string: 'original', new_string: 'x' }] },
+      }));
+      await createTestFile(tempDir, 'stale.txt', 'original, reformatted');
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit',
+        arguments: {
+          file_path: filePath,
+          expected_sha256: dryRun.parsed.sha256,
+          edits: [{ old_string: 'original', new_string: 'edited' }],
+        },
+      }));
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('STALE_CONTENT');
+      expect(parsed.context.current_sha256).not.toBe(dryRun.parsed.sha256);
+      expect(await readFile(filePath, 'utf-8')).toBe('original, reformatted');
+    });
+
+    it('should check expected_sha256 per file in multi_edit_files', async () => {
+      const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
+      const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
+
+      const { parsed, isError } = parseToolResult(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] },
+            { file_path: file2, expected_sha256: '0'.repeat(64), edits: [{ old_string: 'bbb', new_string: 'yyy' }] },
+          ],
+        },
+      }));
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('STALE_CONTENT');
+      expect(await readFile(file1, 'utf-8')).toBe('aaa');
+    });
+  });
+
   describe('multi_edit_files tool', () => {
     it('should edit multiple files successfully', async () => {
       const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
@@ -248,12 +1182,12 @@ describe('MCP Server Integration', () => {
       expect(content2).toBe('yyy');
     });
 
-    it('should rollback all files when one fails', async () => {
+    it('should leave every file untouched when an edit fails', async () => {
       const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
       const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
 
       // File2 edit will fail because old_string 'nonexistent_string' is not in the file.
-      // File1 edit succeeds first, then file2 failure triggers rollback of file1.
+      // All new content is computed before anything is written, so file1 is never touched.
       const result = await client.callTool({
         name: 'multi_edit_files',
         arguments: {
@@ -273,12 +1207,41 @@ describe('MCP Server Integration', () => {
       const { parsed, isError } = parseToolResult(result);
       expect(isError).toBe(true);
 
-      // File 1 should be rolled back to original content
       const content1 = await readFile(file1, 'utf-8');
       expect(content1).toBe('aaa');
 
-      // Response should contain rollback information
-      expect(parsed.rollback).toBeDefined();
+      // Nothing was written, so there is nothing to roll back
+      expect(parsed.failed_phase).toBe('prepare');
+      expect(parsed.rollback).toBeUndefined();
+      expect(parsed.file_statuses.map((f: { status: string }) => f.status)).toEqual(['skipped', 'failed']);
+      expect(await readdir(tempDir)).toEqual(['file1.txt', 'file2.txt']);
+    });
+
+    it('should roll back only the files renamed before a failed rename', async () => {
+      const file1 = await createTestFile(tempDir, 'file1.txt', 'aaa');
+      const file2 = await createTestFile(tempDir, 'file2.txt', 'bbb');
+      const file3 = await createTestFile(tempDir, 'file3.txt', 'ccc');
+      failCommitFor(file2);
+
+      const { parsed, isError } = parseToolResult<MultiEditFilesErrorEnvelope>(await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: file1, edits: [{ old_string: 'aaa', new_string: 'xxx' }] },
+            { file_path: file2, edits: [{ old_string: 'bbb', new_string: 'yyy' }] },
+            { file_path: file3, edits: [{ old_string: 'ccc', new_string: 'zzz' }] },
+          ],
+        },
+      }));
+
+      expect(isError).toBe(true);
+      expect(parsed.failed_phase).toBe('commit');
+      expect(parsed.rollback).toMatchObject({ files_rolled_back: 1, files_failed_rollback: 0, files_not_committed: 2 });
+      expect(parsed.file_statuses!.map(f => f.status)).toEqual(['rolled_back', 'failed', 'skipped']);
+      expect(await readFile(file1, 'utf-8')).toBe('aaa');
+      expect(await readFile(file2, 'utf-8')).toBe('bbb');
+      expect(await readFile(file3, 'utf-8')).toBe('ccc');
+      expect((await readdir(tempDir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
     });
 
     it('should support dry_run for multi-file', async () => {
@@ -313,5 +1276,213 @@ describe('MCP Server Integration', () => {
       const content2 = await readFile(file2, 'utf-8');
       expect(content2).toBe('beta');
     });
+
+    it('should create and delete files alongside edits', async () => {
+      const index = await createTestFile(tempDir, 'index.ts', "import { a } from './old';\n");
+      const oldModule = await createTestFile(tempDir, 'old.ts', 'export const a = 1;\n');
+      const newModule = join(tempDir, 'new.ts');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: newModule, create: { content: 'export const a = 1;\n' } },
+            { file_path: index, edits: [{ old_string: "'./old'", new_string: "'./new'" }] },
+            { file_path: oldModule, delete: true },
+          ],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBeFalsy();
+      expect(parsed.file_results[0].file_operation).toBe('create');
+      expect(parsed.file_results[2].file_operation).toBe('delete');
+
+      expect(await readFile(newModule, 'utf-8')).toBe('export const a = 1;\n');
+      expect(await readFile(index, 'utf-8')).toBe("import { a } from './new';\n");
+      const files = await readdir(tempDir);
+      expect(files).not.toContain('old.ts');
+      expect(files).toContain('old.ts.bak');
+    });
+
+    it('should remove created files and restore deleted files on rollback', async () => {
+      const doomed = await createTestFile(tempDir, 'doomed.txt', 'keep me');
+      const file = await createTestFile(tempDir, 'file.txt', 'aaa');
+      const created = join(tempDir, 'created.txt');
+      failCommitFor(file);
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: created, create: { content: 'new' } },
+            { file_path: doomed, delete: true },
+            { file_path: file, edits: [{ old_string: 'aaa', new_string: 'x' }] },
+          ],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBe(true);
+      expect(parsed.rollback.files_rolled_back).toBe(2);
+      expect(parsed.rollback.details.map((d: { status: string }) => d.status)).toEqual(['restored', 'removed']);
+      expect(parsed.file_statuses[0]).toMatchObject({ status: 'rolled_back', file_operation: 'create' });
+      expect(parsed.file_statuses[1]).toMatchObject({ status: 'rolled_back', file_operation: 'delete' });
+
+      const files = await readdir(tempDir);
+      expect(files).not.toContain('created.txt');
+      expect(await readFile(doomed, 'utf-8')).toBe('keep me');
+    });
+
+    it('should return a dry-run patch that git apply accepts', async () => {
+      const lines = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`);
+      const edited = await createTestFile(tempDir, 'edited.txt', `${lines.join('\n')}\n`);
+      const doomed = await createTestFile(tempDir, 'doomed.txt', 'bye\n');
+      const moved = await createTestFile(tempDir, 'moved.txt', 'keep\nme');
+      spawnSync('git', ['init', '-q'], { cwd: tempDir });
+      setWorkspacePolicy({ roots: [tempDir] });
+
+      try {
+        const { parsed, isError } = parseToolResult(await client.callTool({
+          name: 'multi_edit_files',
+          arguments: {
+            files: [
+              { file_path: edited, edits: [{ old_string: 'line 2\n', new_string: 'line 2\ninserted\n' }] },
+              { file_path: join(tempDir, 'created.txt'), create: { content: 'hello\n' } },
+              { file_path: doomed, delete: true },
+              { file_path: moved, move_to: join(tempDir, 'renamed.txt'), edits: [{ old_string: 'me', new_string: 'me too' }] },
+            ],
+            dry_run: true,
+            diff_format: 'git',
+          },
+        }));
+        expect(isError).toBeFalsy();
+        expect(parsed.file_results[0].diff_preview).toContain('@@ -1,5 +1,6 @@');
+        expect(parsed.file_results[0].diff_preview).not.toContain('line 9');
+
+        const patch = parsed.file_results.map((file: { diff_preview: string }) => file.diff_preview).join('');
+        const applied = spawnSync('git', ['apply', '-'], { cwd: tempDir, input: patch, encoding: 'utf-8' });
+        expect(applied.stderr).toBe('');
+        expect(applied.status).toBe(0);
+
+        expect(await readFile(edited, 'utf-8')).toContain('line 2\ninserted\nline 3');
+        expect(await readFile(join(tempDir, 'created.txt'), 'utf-8')).toBe('hello\n');
+        expect(await readFile(join(tempDir, 'renamed.txt'), 'utf-8')).toBe('keep\nme too');
+        await expect(access(doomed)).rejects.toThrow();
+        await expect(access(moved)).rejects.toThrow();
+      } finally {
+        setWorkspacePolicy({ roots: [], deny: [] });
+      }
+    });
+
+    it('should preview created and deleted files in dry_run', async () => {
+      const doomed = await createTestFile(tempDir, 'doomed.txt', 'bye');
+      const created = join(tempDir, 'created.txt');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: created, create: { content: 'hello' } },
+            { file_path: doomed, delete: true },
+          ],
+          dry_run: true,
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBeFalsy();
+      expect(parsed.file_results[0].diff_preview).toContain('--- /dev/null');
+      expect(parsed.file_results[0].diff_preview).toContain('+hello');
+      expect(parsed.file_results[1].diff_preview).toContain('+++ /dev/null');
+      expect(parsed.file_results[1].diff_preview).toContain('-bye');
+
+      const files = await readdir(tempDir);
+      expect(files).not.toContain('created.txt');
+      expect(files).toContain('doomed.txt');
+    });
+
+    it('should edit and move a file while updating its importers', async () => {
+      const foo = await createTestFile(tempDir, 'foo.ts', 'export const foo = 1;\n');
+      const index = await createTestFile(tempDir, 'index.ts', "import { foo } from './foo';\n");
+      const bar = join(tempDir, 'bar.ts');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: foo, move_to: bar, edits: [{ old_string: 'foo', new_string: 'bar' }] },
+            { file_path: index, edits: [{ old_string: "{ foo } from './foo'", new_string: "{ bar } from './bar'" }] },
+          ],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBeFalsy();
+      expect(parsed.file_results[0]).toMatchObject({ file_operation: 'move', moved_to: bar });
+
+      expect(await readFile(bar, 'utf-8')).toBe('export const bar = 1;\n');
+      expect(await readFile(index, 'utf-8')).toBe("import { bar } from './bar';\n");
+      expect(await readdir(tempDir)).not.toContain('foo.ts');
+    });
+
+    it('should move files back on rollback', async () => {
+      const foo = await createTestFile(tempDir, 'foo.ts', 'export const foo = 1;\n');
+      const file = await createTestFile(tempDir, 'file.txt', 'aaa');
+      const bar = join(tempDir, 'bar.ts');
+      failCommitFor(file);
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [
+            { file_path: foo, move_to: bar, edits: [{ old_string: 'foo', new_string: 'bar' }] },
+            { file_path: file, edits: [{ old_string: 'aaa', new_string: 'x' }] },
+          ],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBe(true);
+      expect(parsed.rollback.details[0]).toMatchObject({ file_path: foo, status: 'moved_back', moved_from: bar });
+
+      expect(await readFile(foo, 'utf-8')).toBe('export const foo = 1;\n');
+      expect(await readdir(tempDir)).not.toContain('bar.ts');
+    });
+
+    it('should reject a move onto an existing file', async () => {
+      const foo = await createTestFile(tempDir, 'foo.ts', 'foo');
+      const bar = await createTestFile(tempDir, 'bar.ts', 'bar');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: foo, move_to: bar }],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBe(true);
+      expect(parsed.recovery_hints[0]).toContain('FILE_ALREADY_EXISTS');
+      expect(await readFile(foo, 'utf-8')).toBe('foo');
+      expect(await readFile(bar, 'utf-8')).toBe('bar');
+    });
+
+    it('should reject create for a file that already exists', async () => {
+      const existing = await createTestFile(tempDir, 'existing.txt', 'content');
+
+      const result = await client.callTool({
+        name: 'multi_edit_files',
+        arguments: {
+          files: [{ file_path: existing, create: { content: 'other' } }],
+        },
+      });
+
+      const { parsed, isError } = parseToolResult(result);
+      expect(isError).toBe(true);
+      expect(parsed.error_code).toBe('VALIDATION_FAILED');
+      expect(parsed.recovery_hints[0]).toContain('FILE_ALREADY_EXISTS');
+      expect(await readFile(existing, 'utf-8')).toBe('content');
+    });
   });
 });
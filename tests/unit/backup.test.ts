@@ -0,0 +1,96 @@
+/**
+ * Unit tests for backup.ts: argument parsing and backup paths
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  parseBackupArgs,
+  formatBackupTimestamp,
+  getDirectoryBackupBase,
+  getSiblingBackupPath,
+  findLatestSiblingGeneration,
+  setBackupConfig,
+  getBackupConfig,
+  DEFAULT_BACKUP_DIRECTORY,
+} from '../../src/core/backup.js';
+import { setWorkspacePolicy } from '../../src/core/workspace.js';
+
+const DATE = new Date('2026-10-19T10:15:30.123Z');
+
+afterEach(() => {
+  setBackupConfig({ strategy: 'sibling', directory: DEFAULT_BACKUP_DIRECTORY });
+  setWorkspacePolicy({ roots: [], deny: [] });
+});
+
+describe('parseBackupArgs', () => {
+  it('should parse strategy and directory', () => {
+    expect(parseBackupArgs(['--backup-strategy', 'directory', '--backup-dir=/var/backups'])).toEqual({
+      strategy: 'directory',
+      directory: '/var/backups',
+    });
+  });
+
+  it('should return nothing when the flags are absent', () => {
+    expect(parseBackupArgs(['--root', '/work'])).toEqual({});
+  });
+
+  it('should reject an unknown strategy', () => {
+    expect(() => parseBackupArgs(['--backup-strategy', 'cloud'])).toThrow('Invalid --backup-strategy "cloud"');
+  });
+});
+
+describe('setBackupConfig', () => {
+  it('should default to sibling backups', () => {
+    expect(getBackupConfig().strategy).toBe('sibling');
+  });
+
+  it('should keep the other setting when updating one', () => {
+    setBackupConfig({ directory: '/backups' });
+    setBackupConfig({ strategy: 'none' });
+    expect(getBackupConfig()).toEqual({ strategy: 'none', directory: '/backups' });
+  });
+});
+
+describe('formatBackupTimestamp', () => {
+  it('should produce a compact sortable UTC timestamp', () => {
+    expect(formatBackupTimestamp(DATE)).toBe('20261019T101530123Z');
+  });
+});
+
+describe('getDirectoryBackupBase', () => {
+  it('should mirror files inside a workspace root under the project name', () => {
+    setBackupConfig({ directory: '/backups' });
+    setWorkspacePolicy({ roots: ['/work/my-app'] });
+
+    const base = getDirectoryBackupBase('/work/my-app/src/index.ts', DATE);
+    expect(base).toMatch(/^\/backups\/my-app-[0-9a-f]{8}\/src\/index\.ts\.20261019T101530123Z$/);
+  });
+
+  it('should keep projects with the same name apart', () => {
+    setBackupConfig({ directory: '/backups' });
+    setWorkspacePolicy({ roots: ['/a/app', '/b/app'] });
+
+    const first = getDirectoryBackupBase('/a/app/x.ts', DATE);
+    const second = getDirectoryBackupBase('/b/app/x.ts', DATE);
+    expect(first).not.toBe(second);
+  });
+
+  it('should mirror files outside every root by absolute path', () => {
+    setBackupConfig({ directory: '/backups' });
+    expect(getDirectoryBackupBase('/etc/hosts', DATE)).toBe('/backups/_absolute/etc/hosts.20261019T101530123Z');
+  });
+});
+
+describe('sibling backup generations', () => {
+  it('should name the first generation <file>.bak and later ones <file>.<n>.bak', () => {
+    expect(getSiblingBackupPath('/work/app.ts', 0)).toBe('/work/app.ts.bak');
+    expect(getSiblingBackupPath('/work/app.ts', 2)).toBe('/work/app.ts.2.bak');
+  });
+
+  it('should find the latest generation of the file only', () => {
+    const names = ['app.ts', 'app.ts.bak', 'app.ts.1.bak', 'app.ts.12.bak', 'app.ts.x.bak', 'app.tsx.3.bak'];
+    expect(findLatestSiblingGeneration(names, 'app.ts')).toBe(12);
+    expect(findLatestSiblingGeneration(['app.ts.bak'], 'app.ts')).toBe(0);
+    expect(findLatestSiblingGeneration(['app.ts'], 'app.ts')).toBe(-1);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for diff.ts: Myers line diff and unified-diff formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitLines, diffLines, formatUnifiedDiff } from '../../src/core/diff.js';
+
+/** Length of the longest common subsequence, by dynamic programming */
+function lcsLength(a: string[], b: string[]): number {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table[0][0];
+}
+
+describe('splitLines', () => {
+  it('should keep line terminators and a bare last line', () => {
+    expect(splitLines('a\nb\n')).toEqual(['a\n', 'b\n']);
+    expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('should report a single inserted line, not every following line', () => {
+    const before = Array.from({ length: 500 }, (_, i) => `line ${i}\n`);
+    const after = [...before.slice(0, 2), 'inserted\n', ...before.slice(2)];
+
+    const changes = diffLines(before, after).filter(line => line.type !== 'equal');
+    expect(changes).toEqual([{ type: 'insert', text: 'inserted\n' }]);
+  });
+
+  it('should produce a minimal script that rebuilds both sides', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const randomLines = () => Array.from({ length: Math.floor(random() * 12) }, () => 'abcd'[Math.floor(random() * 4)]);
+
+    for (let round = 0; round < 200; round++) {
+      const a = randomLines();
+      const b = randomLines();
+      const diff = diffLines(a, b);
+
+      expect(diff.filter(line => line.type !== 'insert').map(line => line.text)).toEqual(a);
+      expect(diff.filter(line => line.type !== 'delete').map(line => line.text)).toEqual(b);
+      expect(diff.filter(line => line.type === 'equal')).toHaveLength(lcsLength(a, b));
+    }
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  const paths = { old_path: '/src/a.ts', new_path: '/src/a.ts' };
+
+  it('should return an empty string when nothing changed', () => {
+    expect(formatUnifiedDiff('same\n', 'same\n', paths)).toBe('');
+  });
+
+  it('should emit one hunk with three lines of context by default', () => {
+    const before = 'l1\nl2\nl3\nl4\nl5\nl6\nl7\nl8\n';
+    const after = 'l1\nl2\nl3\nl4\nL5\nl6\nl7\nl8\n';
+
+    expect(formatUnifiedDiff(before, after, paths)).toBe([
+      '--- /src/a.ts',
+      '+++ /src/a.ts',
+      '@@ -2,7 +2,7 @@',
+      ' l2',
+      ' l3',
+      ' l4',
+      '-l5',
+      '+L5',
+      ' l6',
+      ' l7',
+      ' l8',
+      '',
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `l${i + 1}\n`).join('');
+    const after = before.replace('l2\n', 'two\n').replace('l18\n', 'eighteen\n');
+
+    const diff = formatUnifiedDiff(before, after, { ...paths, context_lines: 1 });
+    expect(diff.match(/^@@.*$/gm)).toEqual(['@@ -1,3 +1,3 @@', '@@ -17,3 +17,3 @@']);
+  });
+
+  it('should mark a missing newline at the end of the file', () => {
+    expect(formatUnifiedDiff('a\nb', 'a\nb\n', { ...paths, context_lines: 0 })).toBe([
+      '--- /src/a.ts',
+      '+++ /src/a.ts',
+      '@@ -2 +2 @@',
+      '-b',
+      '\\ No newline at end of file',
+      '+b',
+      '',
+    ].join('\n'));
+  });
+
+  it('should diff created and deleted files against /dev/null', () => {
+    expect(formatUnifiedDiff('', 'new\n', { old_path: null, new_path: '/src/b.ts' }))
+      .toBe('--- /dev/null\n+++ /src/b.ts\n@@ -0,0 +1 @@\n+new\n');
+    expect(formatUnifiedDiff('old\n', '', { old_path: '/src/b.ts', new_path: null }))
+      .toBe('--- /src/b.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-old\n');
+  });
+
+  it('should add the headers git apply needs in git format', () => {
+    expect(formatUnifiedDiff('', 'new\n', { old_path: null, new_path: 'src/b.ts', format: 'git' }))
+      .toBe('diff --git a/src/b.ts b/src/b.ts\nnew file mode 100644\n--- /dev/null\n+++ b/src/b.ts\n@@ -0,0 +1 @@\n+new\n');
+    expect(formatUnifiedDiff('x\n', 'x\n', { old_path: 'a.ts', new_path: 'b.ts', format: 'git' }))
+      .toBe('diff --git a/a.ts b/b.ts\nrename from a.ts\nrename to b.ts\n');
+  });
+});
@@ -3,7 +3,7 @@
  * Uses memfs to test readFileValidated, atomicWrite, createBackup, applyEdits
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { fs, vol } from 'memfs';
 
 // editor.ts imports 'fs/promises' (no node: prefix)
@@ -82,6 +82,51 @@ describe('atomicWrite (memfs)', () => {
   });
 });
 
+describe('atomicWrite metadata (memfs)', () => {
+  it('should keep the mode and owner of the replaced file', async () => {
+    vol.fromJSON({ '/test/run.sh': 'echo old' });
+    vol.chmodSync('/test/run.sh', 0o755);
+    vol.chownSync('/test/run.sh', 1234, 5678);
+    const { atomicWrite } = await import('../../src/core/editor.js');
+
+    const outcome = await atomicWrite('/test/run.sh', 'echo new');
+
+    const stats = vol.statSync('/test/run.sh');
+    expect(stats.mode & 0o7777).toBe(0o755);
+    expect([stats.uid, stats.gid]).toEqual([1234, 5678]);
+    expect(outcome).toEqual({ in_place: false, metadata_not_preserved: [] });
+  });
+
+  it('should overwrite hard-linked files in place', async () => {
+    vol.fromJSON({ '/test/file.txt': 'old' });
+    vol.linkSync('/test/file.txt', '/test/link.txt');
+    const { atomicWrite } = await import('../../src/core/editor.js');
+
+    const outcome = await atomicWrite('/test/file.txt', 'new');
+
+    expect(outcome.in_place).toBe(true);
+    expect(vol.readFileSync('/test/link.txt', 'utf8')).toBe('new');
+    expect(vol.statSync('/test/file.txt').nlink).toBe(2);
+    expect(vol.readdirSync('/test')).toEqual(['file.txt', 'link.txt']);
+  });
+
+  it('should report an owner that could not be kept', async () => {
+    vol.fromJSON({ '/test/file.txt': 'old' });
+    vol.chownSync('/test/file.txt', 1234, 1234);
+    const fsPromises = await import('fs/promises');
+    vi.spyOn(fsPromises, 'chown').mockRejectedValue(new Error('EPERM: operation not permitted, chown'));
+    const { atomicWrite } = await import('../../src/core/editor.js');
+
+    const outcome = await atomicWrite('/test/file.txt', 'new');
+
+    expect(outcome.metadata_not_preserved).toEqual([{
+      field: 'owner',
+      error: 'Could not keep uid 1234, gid 1234: EPERM: operation not permitted, chown',
+    }]);
+    expect(vol.readFileSync('/test/file.txt', 'utf8')).toBe('new');
+  });
+});
+
 describe('createBackup (memfs)', () => {
   it('should create backup file with .bak extension', async () => {
     vol.fromJSON({ '/test/file.txt': 'original content' });
@@ -113,6 +158,101 @@ describe('createBackup (memfs)', () => {
     const backupContent = vol.readFileSync('/test/special.txt.bak', 'utf8');
     expect(backupContent).toBe(specialContent);
   });
+
+  describe('backup strategies', () => {
+    afterEach(async () => {
+      const { setBackupConfig, DEFAULT_BACKUP_DIRECTORY } = await import('../../src/core/backup.js');
+      setBackupConfig({ strategy: 'sibling', directory: DEFAULT_BACKUP_DIRECTORY });
+    });
+
+    it('should skip the backup with strategy none', async () => {
+      vol.fromJSON({ '/test/file.txt': 'content' });
+      const { setBackupConfig } = await import('../../src/core/backup.js');
+      const { createBackup } = await import('../../src/core/editor.js');
+      setBackupConfig({ strategy: 'none' });
+
+      expect(await createBackup('/test/file.txt', 'content')).toBeUndefined();
+      expect(vol.existsSync('/test/file.txt.bak')).toBe(false);
+    });
+
+    it('should rotate sibling generations with the newest in .bak', async () => {
+      vol.fromJSON({ '/test/file.txt': 'v1' });
+      const { createBackup } = await import('../../src/core/editor.js');
+
+      const paths = [];
+      for (const content of ['v1', 'v2', 'v3']) {
+        paths.push(await createBackup('/test/file.txt', content));
+      }
+
+      expect(paths).toEqual(['/test/file.txt.bak', '/test/file.txt.bak', '/test/file.txt.bak']);
+      expect(vol.readFileSync('/test/file.txt.bak', 'utf8')).toBe('v3');
+      expect(vol.readFileSync('/test/file.txt.1.bak', 'utf8')).toBe('v2');
+      expect(vol.readFileSync('/test/file.txt.2.bak', 'utf8')).toBe('v1');
+    });
+
+    it('should keep at most MAX_SIBLING_BACKUPS sibling generations', async () => {
+      vol.fromJSON({ '/test/file.txt': 'v1', '/test/file.txt.9.bak': 'stale' });
+      const { MAX_SIBLING_BACKUPS } = await import('../../src/core/backup.js');
+      const { createBackup } = await import('../../src/core/editor.js');
+
+      for (let version = 1; version <= MAX_SIBLING_BACKUPS + 2; version++) {
+        await createBackup('/test/file.txt', `v${version}`);
+      }
+
+      const backups = vol.readdirSync('/test').filter(name => String(name).endsWith('.bak'));
+      expect(backups).toHaveLength(MAX_SIBLING_BACKUPS);
+      expect(vol.readFileSync('/test/file.txt.bak', 'utf8')).toBe(`v${MAX_SIBLING_BACKUPS + 2}`);
+      expect(vol.readFileSync(`/test/file.txt.${MAX_SIBLING_BACKUPS - 1}.bak`, 'utf8')).toBe('v3');
+    });
+
+    it('should name the sibling generation it could not rotate', async () => {
+      vol.fromJSON({ '/test/file.txt': 'v2', '/test/file.txt.bak': 'v1' });
+      const fsPromises = await import('fs/promises');
+      vi.spyOn(fsPromises, 'rename').mockRejectedValueOnce(Object.assign(new Error('EACCES'), { code: 'EACCES' }));
+      const { createBackup } = await import('../../src/core/editor.js');
+
+      await expect(createBackup('/test/file.txt', 'v2')).rejects.toMatchObject({
+        code: 'BACKUP_FAILED',
+        message: 'Backup failed: Permission denied on /test/file.txt.1.bak',
+      });
+      expect(vol.readFileSync('/test/file.txt.bak', 'utf8')).toBe('v1');
+      expect(vol.readdirSync('/test')).toEqual(['file.txt', 'file.txt.bak']);
+    });
+
+    it('should name the backup directory it could not create', async () => {
+      vol.fromJSON({ '/test/file.txt': 'content', '/backups': 'not a directory' });
+      const { setBackupConfig } = await import('../../src/core/backup.js');
+      const { applyEdits } = await import('../../src/core/editor.js');
+      setBackupConfig({ strategy: 'directory', directory: '/backups' });
+
+      const result = await applyEdits('/test/file.txt', [{ old_string: 'content', new_string: 'changed' }], false, true);
+
+      expect(result.failure).toEqual({ code: 'BACKUP_FAILED' });
+      expect(result.error).toMatch(/\/backups\/_absolute\/test$/);
+      expect(vol.readFileSync('/test/file.txt', 'utf8')).toBe('content');
+    });
+
+    it('should keep separate generations with strategy directory', async () => {
+      vol.fromJSON({ '/test/file.txt': 'v1' });
+      const { setBackupConfig } = await import('../../src/core/backup.js');
+      const { createBackup } = await import('../../src/core/editor.js');
+      setBackupConfig({ strategy: 'directory', directory: '/backups' });
+      vi.useFakeTimers({ now: new Date('2026-10-19T10:15:30.123Z'), toFake: ['Date'] });
+
+      try {
+        const first = await createBackup('/test/file.txt', 'v1');
+        const second = await createBackup('/test/file.txt', 'v2');
+
+        expect(first).toBe('/backups/_absolute/test/file.txt.20261019T101530123Z.bak');
+        expect(second).toBe('/backups/_absolute/test/file.txt.20261019T101530123Z-1.bak');
+        expect(vol.readFileSync(first!, 'utf8')).toBe('v1');
+        expect(vol.readFileSync(second!, 'utf8')).toBe('v2');
+        expect(vol.existsSync('/test/file.txt.bak')).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
 
 describe('applyEdits with IO (memfs)', () => {
@@ -142,6 +282,20 @@ describe('applyEdits with IO (memfs)', () => {
     expect(backupContent).toBe('original');
   });
 
+  it('should not back up a file that is not written', async () => {
+    vol.fromJSON({ '/test/file.txt': 'original' });
+    const { applyEdits } = await import('../../src/core/editor.js');
+
+    const dryRun = await applyEdits('/test/file.txt', [{ old_string: 'original', new_string: 'modified' }], true, true);
+    const failed = await applyEdits('/test/file.txt', [{ old_string: 'missing', new_string: 'modified' }], false, true);
+
+    expect(dryRun.success).toBe(true);
+    expect(failed.success).toBe(false);
+    expect(dryRun.backup_path).toBeUndefined();
+    expect(failed.backup_path).toBeUndefined();
+    expect(vol.readdirSync('/test')).toEqual(['file.txt']);
+  });
+
   it('should NOT create .bak file when backup=false', async () => {
     vol.fromJSON({ '/test/file.txt': 'content' });
     const { applyEdits } = await import('../../src/core/editor.js');
@@ -154,6 +308,42 @@ describe('applyEdits with IO (memfs)', () => {
     expect(vol.existsSync('/test/file.txt.bak')).toBe(false);
   });
 
+  it('should report FILE_NOT_FOUND as the failure code of a missing file', async () => {
+    const { applyEdits } = await import('../../src/core/editor.js');
+    const result = await applyEdits('/test/missing.txt', [
+      { old_string: 'a', new_string: 'b' }
+    ], false, false);
+
+    expect(result.success).toBe(false);
+    expect(result.failure).toEqual({ code: 'FILE_NOT_FOUND' });
+  });
+
+  it('should report UNREPRESENTABLE_CHARACTER when the encoding cannot store new_string', async () => {
+    vol.fromJSON({ '/test/file.txt': 'price' });
+    const { applyEdits } = await import('../../src/core/editor.js');
+    const result = await applyEdits('/test/file.txt', [
+      { old_string: 'price', new_string: 'price: €' }
+    ], false, false, 'latin1');
+
+    expect(result.failure).toEqual({ code: 'UNREPRESENTABLE_CHARACTER' });
+  });
+
+  it('should keep the bytes of Shift-JIS text the edit left alone', async () => {
+    // 0xFA 0x5B decodes to "∵" like 0x81 0xE6, which a fresh encode would pick
+    vol.mkdirSync('/test', { recursive: true });
+    vol.writeFileSync('/test/sjis.txt', Buffer.from([0xfa, 0x5b, 0x20, 0x6f, 0x6c, 0x64]));
+    const { applyEdits, computeSha256 } = await import('../../src/core/editor.js');
+    const result = await applyEdits('/test/sjis.txt', [
+      { old_string: 'old', new_string: 'new' }
+    ], false, true, 'shift_jis');
+
+    expect(result.success).toBe(true);
+    const written = vol.readFileSync('/test/sjis.txt') as Buffer;
+    expect([...written]).toEqual([0xfa, 0x5b, 0x20, 0x6e, 0x65, 0x77]);
+    expect(result.sha256).toBe(computeSha256(written));
+    expect([...(vol.readFileSync('/test/sjis.txt.bak') as Buffer)]).toEqual([0xfa, 0x5b, 0x20, 0x6f, 0x6c, 0x64]);
+  });
+
   it('should not modify file in dry-run mode', async () => {
     vol.fromJSON({ '/test/file.txt': 'original content' });
     const { applyEdits } = await import('../../src/core/editor.js');
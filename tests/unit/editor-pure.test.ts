@@ -11,8 +11,22 @@ import {
   findAllMatchPositions,
   getMatchLineNumbers,
   replaceStringCaseAware,
+  buildEditRegex,
+  expandReplacement,
+  findEditMatches,
+  applyMatchSpans,
+  matchCase,
+  buildTolerantPattern,
+  reindentReplacement,
+  locateEdit,
+  selectMatchSpans,
+  getLineRangeOffsets,
   formatFileError,
   formatBackupError,
+  detectFileFormat,
+  adaptEditToFormat,
+  applyEditsToContent,
+  mapOffsetThroughSpans,
 } from '../../src/core/editor.js';
 
 describe('getLineNumber', () => {
@@ -70,6 +84,11 @@ describe('findAllMatchPositions', () => {
     const positions = findAllMatchPositions(content, 'hello', true);
     expect(positions).toEqual([0, 6, 12]);
   });
+
+  it('should keep offsets in the original text when lowercasing changes a length', () => {
+    // "İ".toLowerCase() is two code units long
+    expect(findAllMatchPositions('İx abc ABC', 'abc', true)).toEqual([3, 7]);
+  });
 });
 
 describe('getMatchLineNumbers', () => {
@@ -137,6 +156,350 @@ describe('replaceStringCaseAware', () => {
   });
 });
 
+describe('buildEditRegex', () => {
+  it('should always apply the global flag', () => {
+    expect(buildEditRegex('foo').flags).toBe('g');
+  });
+
+  it('should not duplicate a user-supplied global flag', () => {
+    expect(buildEditRegex('foo', 'gm').flags).toBe('gm');
+  });
+
+  it('should add the i flag when caseInsensitive=true', () => {
+    expect(buildEditRegex('foo', 'm', true).flags).toBe('gim');
+  });
+
+  it('should throw SyntaxError for an invalid pattern', () => {
+    expect(() => buildEditRegex('foo(')).toThrow(SyntaxError);
+  });
+});
+
+describe('expandReplacement', () => {
+  const matchOf = (pattern: string, input: string) => input.match(new RegExp(pattern))!;
+
+  it('should substitute numbered captures', () => {
+    expect(expandReplacement('$2-$1', matchOf('(\\w+) (\\w+)', 'hello world'))).toBe('world-hello');
+  });
+
+  it('should substitute named captures', () => {
+    expect(expandReplacement('<$<word>>', matchOf('(?<word>\\w+)', 'abc'))).toBe('<abc>');
+  });
+
+  it('should support $$ and $& tokens', () => {
+    expect(expandReplacement('$$$&', matchOf('b', 'abc'))).toBe('$b');
+  });
+
+  it('should support $` and $\' tokens', () => {
+    expect(expandReplacement("[$`|$']", matchOf('b', 'abc'))).toBe('[a|c]');
+  });
+
+  it('should keep references to missing groups literally', () => {
+    expect(expandReplacement('$3 $<none>', matchOf('(a)', 'a'))).toBe('$3 $<none>');
+  });
+
+  it('should fall back to a single-digit group when two digits exceed the group count', () => {
+    expect(expandReplacement('$10', matchOf('(a)', 'a'))).toBe('a0');
+  });
+});
+
+describe('matchCase', () => {
+  it('should upper-case the replacement for an UPPER match', () => {
+    expect(matchCase('USERID', 'accountId')).toBe('ACCOUNTID');
+  });
+
+  it('should lower-case the replacement for a lower match', () => {
+    expect(matchCase('userid', 'accountId')).toBe('accountid');
+  });
+
+  it('should capitalise the replacement for a Capitalized match', () => {
+    expect(matchCase('UserId', 'accountId')).toBe('AccountId');
+  });
+
+  it('should lower the first letter for a camelCase match', () => {
+    expect(matchCase('userId', 'AccountId')).toBe('accountId');
+  });
+
+  it('should return the replacement unchanged when the match has no letters', () => {
+    expect(matchCase('123', 'AbC')).toBe('AbC');
+  });
+
+  it('should return an empty replacement unchanged', () => {
+    expect(matchCase('Foo', '')).toBe('');
+  });
+});
+
+describe('findEditMatches', () => {
+  it('should return literal spans with new_string as replacement', () => {
+    const spans = findEditMatches('foo bar foo', { old_string: 'foo', new_string: 'x' });
+    expect(spans).toEqual([
+      { start: 0, end: 3, replacement: 'x' },
+      { start: 8, end: 11, replacement: 'x' },
+    ]);
+  });
+
+  it('should return regex spans with expanded replacements', () => {
+    const spans = findEditMatches('fooBar(a, b); fooBar(c, d);', {
+      old_string: 'fooBar\\((\\w+), (\\w+)\\)',
+      new_string: 'fooBar({$1, $2})',
+      regex: true,
+    });
+    expect(spans.map(s => s.replacement)).toEqual(['fooBar({a, b})', 'fooBar({c, d})']);
+    expect(spans[1].start).toBe(14);
+  });
+
+  it('should honour case_insensitive for regex edits', () => {
+    const spans = findEditMatches('Foo foo', { old_string: 'f(o+)', new_string: 'b$1', regex: true, case_insensitive: true });
+    expect(spans).toHaveLength(2);
+  });
+
+  it('should adapt replacements to each match with preserve_case', () => {
+    const spans = findEditMatches('userId UserId USERID userid', {
+      old_string: 'userId',
+      new_string: 'accountId',
+      preserve_case: true,
+    });
+    expect(spans.map(s => s.replacement)).toEqual(['accountId', 'AccountId', 'ACCOUNTID', 'accountid']);
+  });
+
+  it('should replace the matched span case-insensitively after characters that lowercase longer', () => {
+    const content = 'İx abc';
+    const spans = findEditMatches(content, { old_string: 'ABC', new_string: 'Q', case_insensitive: true });
+    expect(spans).toEqual([{ start: 3, end: 6, replacement: 'Q' }]);
+    expect(applyMatchSpans(content, spans)).toBe('İx Q');
+  });
+
+  it('should honour multiline flag for anchors', () => {
+    const spans = findEditMatches('a\nb', { old_string: '^', new_string: '> ', regex: true, flags: 'm' });
+    expect(spans.map(s => s.start)).toEqual([0, 2]);
+  });
+});
+
+describe('buildTolerantPattern', () => {
+  it('should match any interior whitespace run in ignore_whitespace mode', () => {
+    const regex = new RegExp(buildTolerantPattern('foo(a, b)', 'ignore_whitespace'));
+    expect(regex.test('foo(a,\n    b)')).toBe(true);
+    expect(regex.test('foo(a,b)')).toBe(false);
+  });
+
+  it('should tolerate trailing spaces before a trailing newline', () => {
+    const regex = new RegExp(buildTolerantPattern('return x;\n', 'ignore_whitespace'));
+    expect('return x;   \nnext'.match(regex)![0]).toBe('return x;   \n');
+  });
+
+  it('should ignore leading indentation per line in ignore_indentation mode', () => {
+    const regex = new RegExp(buildTolerantPattern('  if (x) {\n    y();\n  }', 'ignore_indentation'));
+    expect(regex.test('\tif (x) {\n\t\ty();\n\t}')).toBe(true);
+    expect(regex.test('  if (x) {\n    y();  \n  }')).toBe(false);
+  });
+
+  it('should keep an unindented first line anchored exactly', () => {
+    const regex = new RegExp(buildTolerantPattern('foo()', 'ignore_indentation'));
+    expect('x = foo()'.match(regex)![0]).toBe('foo()');
+  });
+});
+
+describe('reindentReplacement', () => {
+  it('should move new_string to the matched block indentation', () => {
+    const result = reindentReplacement('  a();\n  b();', '  a();', '\t\ta();');
+    expect(result).toBe('\t\ta();\n\t\tb();');
+  });
+
+  it('should keep relative indentation of nested lines', () => {
+    const result = reindentReplacement(
+      '  if (x) {\n    y();\n    z();\n  }',
+      '  if (x) {\n    y();\n  }',
+      '\tif (x) {\n\t  y();\n\t}'
+    );
+    expect(result).toBe('\tif (x) {\n\t  y();\n\t  z();\n\t}');
+  });
+
+  it('should return new_string unchanged when indentation already matches', () => {
+    expect(reindentReplacement('  a();', '  b();', '  b();')).toBe('  a();');
+  });
+});
+
+describe('locateEdit', () => {
+  it('should prefer exact matches even in a tolerant mode', () => {
+    const located = locateEdit('a  b\na b', { old_string: 'a b', new_string: 'x', match_mode: 'ignore_whitespace' });
+    expect(located.matchMode).toBe('exact');
+    expect(located.spans).toHaveLength(1);
+    expect(located.spans[0].start).toBe(5);
+  });
+
+  it('should fall back to the tolerant mode and return the original span', () => {
+    const content = 'call(a,\n     b);';
+    const located = locateEdit(content, { old_string: 'call(a, b)', new_string: 'x', match_mode: 'ignore_whitespace' });
+    expect(located.matchMode).toBe('ignore_whitespace');
+    expect(content.slice(located.spans[0].start, located.spans[0].end)).toBe('call(a,\n     b)');
+  });
+
+  it('should only count exact matches within bounds before falling back', () => {
+    const located = locateEdit('a b\na  b', { old_string: 'a b', new_string: 'x', match_mode: 'ignore_whitespace' }, { start: 4, end: 8 });
+    expect(located.matchMode).toBe('ignore_whitespace');
+    expect(located.spans.map(span => span.start)).toEqual([4]);
+  });
+
+  it('should report exact mode when match_mode is omitted', () => {
+    const located = locateEdit('a  b', { old_string: 'a b', new_string: 'x' });
+    expect(located.matchMode).toBe('exact');
+    expect(located.spans).toEqual([]);
+  });
+});
+
+describe('getLineRangeOffsets', () => {
+  const content = 'a\nbb\nccc\ndddd';
+
+  it('should span from the first line start through the last line newline', () => {
+    expect(getLineRangeOffsets(content, { start: 2, end: 3 })).toEqual({ start: 2, end: 9 });
+  });
+
+  it('should start at 0 for line 1', () => {
+    expect(getLineRangeOffsets(content, { start: 1, end: 1 })).toEqual({ start: 0, end: 2 });
+  });
+
+  it('should clamp an end past the last line to the content length', () => {
+    expect(getLineRangeOffsets(content, { start: 4, end: 99 })).toEqual({ start: 9, end: 13 });
+  });
+
+  it('should return null when the range starts past the last line', () => {
+    expect(getLineRangeOffsets(content, { start: 5, end: 6 })).toBeNull();
+  });
+});
+
+describe('selectMatchSpans', () => {
+  const content = 'foo\nbar\nfoo\nbar\nfoo';
+  const spans = findEditMatches(content, { old_string: 'foo', new_string: 'x' });
+  const select = (extra: Record<string, unknown>) =>
+    selectMatchSpans(content, spans, { old_string: 'foo', new_string: 'x', ...extra });
+
+  it('should report ambiguity when several matches exist without a selector', () => {
+    const result = select({});
+    expect('error' in result && result.error).toContain('Found 3 matches at lines 1, 3, 5');
+    expect('code' in result && result.code).toBe('AMBIGUOUS_MATCH');
+  });
+
+  it('should select every match with replace_all', () => {
+    const result = select({ replace_all: true });
+    expect('selected' in result && result.selected).toHaveLength(3);
+  });
+
+  it('should select a 1-based occurrence', () => {
+    const result = select({ occurrence: 2 });
+    expect('selected' in result && result.selected.map(s => s.start)).toEqual([8]);
+  });
+
+  it('should count negative occurrences from the end', () => {
+    const result = select({ occurrence: -1 });
+    expect('selected' in result && result.selected.map(s => s.start)).toEqual([16]);
+  });
+
+  it('should select several occurrences in document order without duplicates', () => {
+    const result = select({ occurrence: [3, 1, -3] });
+    expect('selected' in result && result.selected.map(s => s.start)).toEqual([0, 16]);
+  });
+
+  it('should reject an out-of-range occurrence and list match lines', () => {
+    const result = select({ occurrence: 4 });
+    expect('error' in result && result.error).toBe('occurrence 4 is out of range, found 3 matches at lines 1, 3, 5');
+    expect('code' in result && result.code).toBe('OCCURRENCE_OUT_OF_RANGE');
+  });
+
+  it('should reject occurrence 0', () => {
+    expect('error' in select({ occurrence: 0 })).toBe(true);
+  });
+
+  it('should pick the match nearest line_hint', () => {
+    const result = select({ line_hint: 5 });
+    expect('selected' in result && result.selected.map(s => s.start)).toEqual([16]);
+  });
+
+  it('should report ambiguity when two matches are equally near line_hint', () => {
+    const result = select({ line_hint: 2 });
+    expect('error' in result && result.error).toContain('equally near line_hint 2');
+  });
+
+  it('should prefer occurrence over line_hint', () => {
+    const result = select({ occurrence: 1, line_hint: 5 });
+    expect('selected' in result && result.selected.map(s => s.start)).toEqual([0]);
+  });
+});
+
+describe('applyEditsToContent failure codes', () => {
+  it.each([
+    ['INVALID_REGEX', { old_string: '(', new_string: 'x', regex: true }],
+    ['INVALID_LINE_RANGE', { old_string: 'foo', new_string: 'x', line_range: { start: 9, end: 9 } }],
+    ['MATCH_NOT_FOUND', { old_string: 'missing', new_string: 'x' }],
+    ['AMBIGUOUS_MATCH', { old_string: 'foo', new_string: 'x' }],
+    ['OCCURRENCE_OUT_OF_RANGE', { old_string: 'foo', new_string: 'x', occurrence: 3 }],
+  ] as const)('should report %s as the failure code', (code, edit) => {
+    const result = applyEditsToContent('/tmp/a.txt', 'foo\nfoo', [edit]);
+
+    expect(result.success).toBe(false);
+    expect(result.failure).toEqual({ code });
+  });
+
+  it('should set no failure on success', () => {
+    expect(applyEditsToContent('/tmp/a.txt', 'foo', [{ old_string: 'foo', new_string: 'x' }]).failure)
+      .toBeUndefined();
+  });
+});
+
+describe('applyEditsToContent validate_all', () => {
+  const content = 'alpha\nbeta\nbeta\ngamma';
+
+  it('should try every edit and report each failure with its own code', () => {
+    const result = applyEditsToContent('/tmp/a.txt', content, [
+      { old_string: 'alpha', new_string: 'ALPHA' },
+      { old_string: 'missing', new_string: 'x' },
+      { old_string: 'beta', new_string: 'x' },
+      { old_string: 'gamma', new_string: 'GAMMA' },
+    ], true, true);
+
+    expect(result.success).toBe(false);
+    expect(result.failed_edits).toEqual([
+      { edit_index: 1, code: 'MATCH_NOT_FOUND', message: 'Edit 2 of 4 failed: "missing" not found in file' },
+      {
+        edit_index: 2,
+        code: 'AMBIGUOUS_MATCH',
+        message: 'Edit 3 of 4 failed: Found 2 matches at lines 2, 3. Use replace_all: true to replace all occurrences.',
+      },
+    ]);
+    expect(result.failure).toEqual({ code: 'MATCH_NOT_FOUND' });
+    expect(result.failed_edit_index).toBe(1);
+    expect(result.edits_applied).toBe(2);
+    expect(result.results.map(r => r.success)).toEqual([true, false, false, true]);
+    expect(result.final_content).toBe('ALPHA\nbeta\nbeta\nGAMMA');
+  });
+
+  it('should run later edits against the content left by earlier ones', () => {
+    const result = applyEditsToContent('/tmp/a.txt', content, [
+      { old_string: 'alpha', new_string: 'delta' },
+      { old_string: 'nope', new_string: 'x' },
+      { old_string: 'delta', new_string: 'epsilon' },
+    ], true, true);
+
+    expect(result.failed_edits!.map(failed => failed.edit_index)).toEqual([1]);
+    expect(result.final_content).toBe('epsilon\nbeta\nbeta\ngamma');
+  });
+
+  it('should succeed like a normal call when no edit fails', () => {
+    const result = applyEditsToContent('/tmp/a.txt', content, [{ old_string: 'gamma', new_string: 'x' }], false, true);
+
+    expect(result.success).toBe(true);
+    expect(result.failed_edits).toBeUndefined();
+  });
+});
+
+describe('applyMatchSpans', () => {
+  it('should replace every span', () => {
+    const result = applyMatchSpans('abcabc', [
+      { start: 0, end: 1, replacement: 'X' },
+      { start: 3, end: 4, replacement: 'YY' },
+    ]);
+    expect(result).toBe('XbcYYbc');
+  });
+});
+
 describe('formatFileError', () => {
   it('should return "File not found" message for ENOENT error', () => {
     const error = Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' });
@@ -207,3 +570,121 @@ describe('formatBackupError', () => {
     expect(result).toContain('/path/to/file.txt.bak');
   });
 });
+
+describe('detectFileFormat', () => {
+  it('should detect LF files without BOM', () => {
+    expect(detectFileFormat('a\nb\n')).toEqual({ line_ending: 'lf', bom: false });
+  });
+
+  it('should detect CRLF by the dominant line ending and a leading BOM', () => {
+    expect(detectFileFormat('\uFEFFa\r\nb\r\nc\n')).toEqual({ line_ending: 'crlf', bom: true });
+  });
+
+  it('should treat files without line breaks as LF', () => {
+    expect(detectFileFormat('single line')).toEqual({ line_ending: 'lf', bom: false });
+  });
+});
+
+describe('adaptEditToFormat', () => {
+  const crlf = { line_ending: 'crlf' as const, bom: false };
+
+  it('should convert old_string and new_string to CRLF', () => {
+    expect(adaptEditToFormat({ old_string: 'a\nb', new_string: 'c\r\nd\ne' }, crlf))
+      .toEqual({ old_string: 'a\r\nb', new_string: 'c\r\nd\r\ne' });
+  });
+
+  it('should convert CRLF to LF for LF files', () => {
+    expect(adaptEditToFormat({ old_string: 'a\r\nb', new_string: 'c\r\nd' }, { line_ending: 'lf', bom: false }))
+      .toEqual({ old_string: 'a\nb', new_string: 'c\nd' });
+  });
+
+  it('should leave regex patterns alone', () => {
+    expect(adaptEditToFormat({ old_string: 'a\\nb', new_string: 'x\ny', regex: true }, crlf))
+      .toEqual({ old_string: 'a\\nb', new_string: 'x\r\ny', regex: true });
+  });
+});
+
+describe('applyEditsToContent line endings and BOM', () => {
+  it('should match LF old_string in a CRLF file and write CRLF', () => {
+    const result = applyEditsToContent('win.txt', 'one\r\ntwo\r\nthree\r\n', [
+      { old_string: 'one\ntwo', new_string: 'uno\ndos\nmas' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.final_content).toBe('uno\r\ndos\r\nmas\r\nthree\r\n');
+    expect(result.results[0].old_string).toBe('one\ntwo');
+    expect(result.file_format).toEqual({ line_ending: 'crlf', bom: false });
+  });
+
+  it('should keep the BOM and insert prepended text after it', () => {
+    const result = applyEditsToContent('bom.txt', '\uFEFFbody\n', [
+      { op: 'prepend_file', old_string: '', new_string: 'header\n' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.final_content).toBe('\uFEFFheader\nbody\n');
+    expect(result.file_format).toEqual({ line_ending: 'lf', bom: true });
+  });
+});
+
+describe('mapOffsetThroughSpans', () => {
+  const spans = [
+    { start: 2, end: 4, replacement: 'XYZ' },
+    { start: 8, end: 8, replacement: '++' },
+  ];
+
+  it('should shift offsets after spans by their length change', () => {
+    expect(mapOffsetThroughSpans(1, spans, 'start')).toBe(1);
+    expect(mapOffsetThroughSpans(6, spans, 'start')).toBe(7);
+    expect(mapOffsetThroughSpans(10, spans, 'end')).toBe(13);
+  });
+
+  it('should move offsets inside a replaced span to its edges', () => {
+    expect(mapOffsetThroughSpans(3, spans, 'start')).toBe(2);
+    expect(mapOffsetThroughSpans(3, spans, 'end')).toBe(5);
+  });
+
+  it('should keep text inserted at an offset outside the range', () => {
+    expect(mapOffsetThroughSpans(8, spans, 'start')).toBe(11);
+    expect(mapOffsetThroughSpans(8, spans, 'end')).toBe(9);
+  });
+});
+
+describe('applyEditsToContent changes', () => {
+  it('should report where each edit landed in the final content', () => {
+    const result = applyEditsToContent('f.ts', 'alpha\nbeta\ngamma\n', [
+      { old_string: 'beta', new_string: 'BETA\nextra' },
+      { op: 'insert_before', old_string: 'alpha', new_string: '// top\n' },
+      { op: 'delete', old_string: 'gamma\n', new_string: '' },
+    ]);
+
+    expect(result.final_content).toBe('// top\nalpha\nBETA\nextra\n');
+    expect(result.changes).toEqual([
+      { edit_index: 0, start_line: 3, start_column: 1, end_line: 4, end_column: 6 },
+      { edit_index: 1, start_line: 1, start_column: 1, end_line: 2, end_column: 1 },
+      { edit_index: 2, start_line: 5, start_column: 1, end_line: 5, end_column: 1 },
+    ]);
+  });
+
+  it('should report every replacement of replace_all', () => {
+    const result = applyEditsToContent('f.ts', 'a a', [{ old_string: 'a', new_string: 'bb', replace_all: true }]);
+
+    expect(result.changes).toEqual([
+      { edit_index: 0, start_line: 1, start_column: 1, end_line: 1, end_column: 3 },
+      { edit_index: 0, start_line: 1, start_column: 4, end_line: 1, end_column: 6 },
+    ]);
+  });
+
+  it('should shrink an earlier change that a later edit rewrote', () => {
+    const result = applyEditsToContent('f.ts', 'one two', [
+      { old_string: 'one', new_string: 'uno dos' },
+      { old_string: 'dos two', new_string: '2' },
+    ]);
+
+    expect(result.final_content).toBe('uno 2');
+    expect(result.changes).toEqual([
+      { edit_index: 0, start_line: 1, start_column: 1, end_line: 1, end_column: 6 },
+      { edit_index: 1, start_line: 1, start_column: 5, end_line: 1, end_column: 6 },
+    ]);
+  });
+});
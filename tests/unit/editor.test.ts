@@ -202,6 +202,272 @@ describe('applyEdits', () => {
     expect(result.results[0].replaced).toBe(1);
     expect(result.final_content).toBe('hi World');
   });
+
+  it('should preserve each occurrence\'s casing with preserve_case', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'const userId = getUserId(USERID_KEY, userid);';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'userId', new_string: 'accountId', preserve_case: true, replace_all: true }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].replaced).toBe(4);
+    expect(result.final_content).toBe('const accountId = getAccountId(ACCOUNTID_KEY, accountid);');
+  });
+
+  it('should apply case-insensitive edit even when old_string equals new_string', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'HELLO', [
+      { old_string: 'hello', new_string: 'hello', case_insensitive: true }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.final_content).toBe('hello');
+  });
+
+  it('should match despite indentation differences and re-indent new_string', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'class A {\n    run() {\n        go();\n    }\n}';
+    const result = applyEditsToContent('test.txt', content, [
+      {
+        old_string: 'run() {\n    go();\n}',
+        new_string: 'run() {\n    ready();\n    go();\n}',
+        match_mode: 'ignore_indentation',
+      }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].match_mode).toBe('ignore_indentation');
+    expect(result.final_content).toBe('class A {\n    run() {\n        ready();\n        go();\n    }\n}');
+  });
+
+  it('should replace the exact original span in ignore_whitespace mode', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'const x = foo(1,   2);  \nnext();';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'foo(1, 2);\n', new_string: 'bar(1, 2);\n', match_mode: 'ignore_whitespace' }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].match_mode).toBe('ignore_whitespace');
+    expect(result.final_content).toBe('const x = bar(1, 2);\nnext();');
+  });
+
+  it('should fall back to the tolerant mode inside line_range despite an exact match outside it', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'foo(1, 2);\nbar();\nfoo(1,  2);';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'foo(1, 2);', new_string: 'baz(1, 2);', match_mode: 'ignore_whitespace', line_range: { start: 3, end: 3 } }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].match_mode).toBe('ignore_whitespace');
+    expect(result.final_content).toBe('foo(1, 2);\nbar();\nbaz(1, 2);');
+  });
+
+  it('should still fail with not found when the tolerant mode finds nothing', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'alpha beta', [
+      { old_string: 'alpha  gamma', new_string: 'x', match_mode: 'ignore_whitespace' }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  it('should replace only the selected occurrence of an ambiguous match', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'log(1);\nlog(2);\nlog(3);';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'log(', new_string: 'warn(', occurrence: [2, -1] }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].matches).toBe(3);
+    expect(result.results[0].replaced).toBe(2);
+    expect(result.final_content).toBe('log(1);\nwarn(2);\nwarn(3);');
+  });
+
+  it('should replace the match nearest line_hint', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'a = 1;\nb;\nc;\na = 1;';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'a = 1;', new_string: 'a = 2;', line_hint: 3 }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.final_content).toBe('a = 1;\nb;\nc;\na = 2;');
+  });
+
+  it('should fail with out of range error for a missing occurrence', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'x x', [
+      { old_string: 'x', new_string: 'y', occurrence: 3 }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('out of range');
+    expect(result.error).toContain('lines 1, 1');
+  });
+
+  it('should make a file-wide ambiguous match unique within line_range', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'return null;\n---\nreturn null;\n---\nreturn null;';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'return null;', new_string: 'return value;', line_range: { start: 2, end: 3 } }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].matches).toBe(1);
+    expect(result.results[0].line_range).toEqual({ start: 2, end: 3 });
+    expect(result.final_content).toBe('return null;\n---\nreturn value;\n---\nreturn null;');
+  });
+
+  it('should interpret line_range against content modified by earlier edits', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'header\nx = 1;\nx = 1;';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'header\n', new_string: 'header\nextra\nextra\n' },
+      // Original line 3 is now line 5
+      { old_string: 'x = 1;', new_string: 'x = 2;', line_range: { start: 5, end: 5 } },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.final_content).toBe('header\nextra\nextra\nx = 1;\nx = 2;');
+  });
+
+  it('should fail with not found within line_range and name the basis', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'a\nb\nc', [
+      { old_string: 'a', new_string: 'A' },
+      { old_string: 'c', new_string: 'C', line_range: { start: 1, end: 2 } },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found within line_range 1-2 (counted after edit 1 applied)');
+  });
+
+  it('should fail when line_range starts beyond the end of the content', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'a\nb', [
+      { old_string: 'a', new_string: 'A', line_range: { start: 10, end: 12 } },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('beyond the end of the content (2 lines)');
+  });
+
+  it('should insert text before and after an anchor without repeating it', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'import a;\nfunction main() {}\n';
+    const result = applyEditsToContent('test.txt', content, [
+      { op: 'insert_before', old_string: 'function main', new_string: '// entry point\n' },
+      { op: 'insert_after', old_string: 'import a;\n', new_string: 'import b;\n' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results.map(r => r.op)).toEqual(['insert_before', 'insert_after']);
+    expect(result.final_content).toBe('import a;\nimport b;\n// entry point\nfunction main() {}\n');
+  });
+
+  it('should delete every match with replace_all', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'a();\ndebugger;\nb();\ndebugger;\n';
+    const result = applyEditsToContent('test.txt', content, [
+      { op: 'delete', old_string: 'debugger;\n', new_string: '', replace_all: true },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].op).toBe('delete');
+    expect(result.results[0].replaced).toBe(2);
+    expect(result.final_content).toBe('a();\nb();\n');
+  });
+
+  it('should prepend and append to the file', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'body\n', [
+      { op: 'prepend_file', old_string: '', new_string: '// header\n' },
+      { op: 'append_file', old_string: '', new_string: 'export {};\n' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0]).toMatchObject({ op: 'prepend_file', replaced: 1, success: true });
+    expect(result.final_content).toBe('// header\nbody\nexport {};\n');
+  });
+
+  it('should apply the ambiguity rule to insert anchors', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'x\nx', [
+      { op: 'insert_after', old_string: 'x', new_string: '!' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Found 2 matches');
+  });
+
+  it('should not treat an insert with identical anchor and text as a no-op', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'ab', [
+      { op: 'insert_after', old_string: 'a', new_string: 'a' },
+    ]);
+
+    expect(result.final_content).toBe('aab');
+  });
+
+  it('should rewrite calls with regex capture groups', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'fooBar(x, y);\nfooBar(a, b);';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'fooBar\\((\\w+), (\\w+)\\)', new_string: 'fooBar({$1, $2})', regex: true, replace_all: true }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].matches).toBe(2);
+    expect(result.results[0].replaced).toBe(2);
+    expect(result.final_content).toBe('fooBar({x, y});\nfooBar({a, b});');
+  });
+
+  it('should report AMBIGUOUS_MATCH-style error for multiple regex matches without replace_all', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const content = 'id1\nid2';
+    const result = applyEditsToContent('test.txt', content, [
+      { old_string: 'id\\d', new_string: 'x', regex: true }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Found 2 matches at lines 1, 2');
+  });
+
+  it('should report pattern not found for regex with no matches', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'hello', [
+      { old_string: '\\d+', new_string: 'x', regex: true }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Pattern /\\d+/ not found');
+  });
+
+  it('should fail with invalid regular expression message for a bad pattern', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'hello', [
+      { old_string: '(unclosed', new_string: 'x', regex: true }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid regular expression');
+    expect(result.failed_edit_index).toBe(0);
+  });
+
+  it('should not treat identical regex pattern and template as a no-op', async () => {
+    const { applyEditsToContent } = await import('../../src/core/editor.js');
+    const result = applyEditsToContent('test.txt', 'a.b', [
+      { old_string: 'a.b', new_string: 'a.b', regex: true }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.results[0].replaced).toBe(1);
+  });
 });
 
 describe('applyEdits file I/O', () => {
@@ -222,8 +488,8 @@ describe('applyEdits file I/O', () => {
   async function createInvalidUtf8File(): Promise<string> {
     const tempDir = os.tmpdir();
     const tempPath = path.join(tempDir, `test-invalid-${Date.now()}.txt`);
-    // Invalid UTF-8 sequence: 0xFF 0xFE followed by valid text
-    const invalidBytes = Buffer.from([0xFF, 0xFE, 0x68, 0x65, 0x6c, 0x6c, 0x6f]);
+    // Invalid UTF-8 sequence: text around a lone 0xFF (a leading 0xFF 0xFE would be a UTF-16 BOM)
+    const invalidBytes = Buffer.from([0x68, 0x65, 0xFF, 0x6c, 0x6c, 0x6f]);
     await fs.writeFile(tempPath, invalidBytes);
     return tempPath;
   }
@@ -286,6 +552,7 @@ describe('applyEdits file I/O', () => {
 
       expect(result.success).toBe(false);
       expect(result.error?.toLowerCase()).toContain('utf-8');
+      expect(result.failure).toEqual({ code: 'INVALID_ENCODING' });
     } finally {
       await cleanupFile(tempPath);
     }
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for encoding.ts: detection, decoding and encoding of file bytes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectEncoding,
+  decodeText,
+  encodeText,
+  findUnrepresentableCharacter,
+  checkEncodable,
+} from '../../src/core/encoding.js';
+
+describe('detectEncoding', () => {
+  it('should detect UTF-16 by byte order mark', () => {
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('should default to UTF-8 and prefer an explicit encoding', () => {
+    expect(detectEncoding(Buffer.from('plain'))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0xff, 0xfe]), 'latin1')).toBe('latin1');
+  });
+});
+
+describe('decodeText and encodeText', () => {
+  it.each([
+    ['latin1', 'Grüße © \u0080'],
+    ['utf-16le', '\uFEFFhéllo 世界 \u{1F600}'],
+    ['utf-16be', '\uFEFFhéllo 世界'],
+    ['shift_jis', 'こんにちは ｶﾀｶﾅ \\~'],
+  ] as const)('should round-trip %s', (encoding, text) => {
+    const bytes = encodeText(text, encoding);
+    expect(decodeText(bytes, encoding)).toBe(text);
+  });
+
+  it('should keep the byte order mark when decoding', () => {
+    expect(decodeText(Buffer.from([0xfe, 0xff, 0x00, 0x61]), 'utf-16be')).toBe('\uFEFFa');
+  });
+
+  it('should encode Shift-JIS to its byte sequences', () => {
+    expect([...encodeText('あa', 'shift_jis')]).toEqual([0x82, 0xa0, 0x61]);
+  });
+
+  it('should keep the bytes of duplicate-mapped Shift-JIS characters the edit left alone', () => {
+    // 0xFA 0x5B is the IBM extension duplicate of 0x81 0xE6; both decode to U+2235 "∵"
+    const bytes = Buffer.from([0xfa, 0x5b, 0x61, 0x0a, 0x62, 0x0a, 0x63, 0xfa, 0x5b, 0x0a]);
+    const original = { content: decodeText(bytes, 'shift_jis'), bytes };
+    expect(original.content).toBe('∵a\nb\nc∵\n');
+    expect([...encodeText(original.content, 'shift_jis')]).toEqual([0x81, 0xe6, 0x61, 0x0a, 0x62, 0x0a, 0x63, 0x81, 0xe6, 0x0a]);
+
+    expect([...encodeText('∵a\nB\nc∵\n', 'shift_jis', '/work/c.txt', original)])
+      .toEqual([0xfa, 0x5b, 0x61, 0x0a, 0x42, 0x0a, 0x63, 0xfa, 0x5b, 0x0a]);
+    expect([...encodeText('∵A\nb\nc∵ ∵\n', 'shift_jis', '/work/c.txt', original)])
+      .toEqual([0xfa, 0x5b, 0x41, 0x0a, 0x62, 0x0a, 0x63, 0xfa, 0x5b, 0x20, 0x81, 0xe6, 0x0a]);
+    expect(encodeText(original.content, 'shift_jis', '/work/c.txt', original)).toEqual(bytes);
+  });
+
+  it('should reject bytes that are not valid in the encoding', () => {
+    expect(() => decodeText(Buffer.from([0x61, 0x00, 0x62]), 'utf-16le')).toThrow();
+    expect(() => decodeText(Buffer.from([0x82]), 'shift_jis')).toThrow();
+  });
+
+  it('should refuse to encode unrepresentable characters', () => {
+    expect(() => encodeText('price: €', 'latin1', '/work/a.txt'))
+      .toThrow('Character U+20AC "€" at line 1 (offset 7) cannot be encoded in latin1: /work/a.txt');
+    expect(() => encodeText('ok\n\u{1F600}', 'shift_jis')).toThrow(expect.objectContaining({
+      code: 'UNREPRESENTABLE_CHARACTER',
+      character: '\u{1F600}',
+      offset: 3,
+    }));
+  });
+});
+
+describe('findUnrepresentableCharacter', () => {
+  it('should find the first character outside latin1', () => {
+    expect(findUnrepresentableCharacter('café – ok', 'latin1')).toBe(5);
+    expect(findUnrepresentableCharacter('café', 'latin1')).toBe(-1);
+  });
+
+  it('should find characters missing from Shift-JIS', () => {
+    expect(findUnrepresentableCharacter('あé', 'shift_jis')).toBe(1);
+  });
+
+  it('should accept anything in UTF-8 and UTF-16', () => {
+    expect(findUnrepresentableCharacter('€ \u{1F600}', 'utf-8')).toBe(-1);
+    expect(findUnrepresentableCharacter('€ \u{1F600}', 'utf-16be')).toBe(-1);
+  });
+});
+
+describe('checkEncodable', () => {
+  it('should report the code point and line of the character', () => {
+    expect(checkEncodable('one\ntwo \u{1F600}', 'shift_jis', '/work/b.txt'))
+      .toContain('Character U+1F600 "\u{1F600}" at line 2 (offset 8) cannot be encoded in shift_jis: /work/b.txt');
+  });
+
+  it('should return undefined for encodable content', () => {
+    expect(checkEncodable('plain', 'latin1', '/work/b.txt')).toBeUndefined();
+  });
+});
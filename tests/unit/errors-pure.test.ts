@@ -8,11 +8,13 @@
 import { describe, it, expect } from 'vitest';
 import {
   classifyError,
+  createCodedError,
   getRecoveryHints,
   extractFileContext,
   extractMatchLocations,
   buildEditStatus,
   createErrorEnvelope,
+  createValidationErrorEnvelope,
   isRetryable,
   RETRYABLE_CODES,
 } from '../../src/core/errors.js';
@@ -55,22 +57,16 @@ describe('classifyError', () => {
     expect(result.error_code).toBe('SYMLINK_LOOP');
   });
 
-  it('should classify error message containing "utf-8" as INVALID_ENCODING', () => {
-    const error = new Error('Invalid UTF-8 byte sequence');
-    const result = classifyError(error);
-    expect(result.error_code).toBe('INVALID_ENCODING');
+  it('should classify errors created with an error code under that code', () => {
+    expect(classifyError(createCodedError('INVALID_ENCODING', 'File contains invalid UTF-8 encoding: /a.txt')))
+      .toEqual({ error_code: 'INVALID_ENCODING', message: 'File contains invalid UTF-8 encoding: /a.txt' });
+    expect(classifyError(createCodedError('UNREPRESENTABLE_CHARACTER', 'cannot store it')).error_code)
+      .toBe('UNREPRESENTABLE_CHARACTER');
   });
 
-  it('should classify error message containing "encoding" as INVALID_ENCODING', () => {
-    const error = new Error('Bad encoding detected');
-    const result = classifyError(error);
-    expect(result.error_code).toBe('INVALID_ENCODING');
-  });
-
-  it('should classify error message containing "utf8" as INVALID_ENCODING', () => {
-    const error = new Error('Invalid utf8 data');
-    const result = classifyError(error);
-    expect(result.error_code).toBe('INVALID_ENCODING');
+  it('should not classify by message text', () => {
+    expect(classifyError(new Error('Invalid UTF-8 byte sequence')).error_code).toBe('UNKNOWN_ERROR');
+    expect(classifyError(new Error('Character cannot be encoded')).error_code).toBe('UNKNOWN_ERROR');
   });
 
   it('should classify generic Error (no code) as UNKNOWN_ERROR', () => {
@@ -120,6 +116,16 @@ describe('getRecoveryHints', () => {
     expect(hints[0]).toContain('permissions');
   });
 
+  it('should return hints for OPERATION_NOT_PERMITTED', () => {
+    const hints = getRecoveryHints('OPERATION_NOT_PERMITTED');
+    expect(hints[0]).toContain('ownership');
+  });
+
+  it('should return hints for FILE_ACCESS_ERROR', () => {
+    const hints = getRecoveryHints('FILE_ACCESS_ERROR');
+    expect(hints[0]).toContain('system error');
+  });
+
   it('should return hints for VALIDATION_FAILED', () => {
     const hints = getRecoveryHints('VALIDATION_FAILED');
     expect(hints.length).toBeGreaterThan(0);
@@ -256,6 +262,25 @@ describe('extractFileContext', () => {
     expect(result.snippet).toContain('line15');
     expect(result.snippet).not.toContain('line16');
   });
+
+  it('should center the snippet on the closest match and report it', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `line${i + 1}`);
+    lines[29] = "const label = 'Save changes';";
+    const result = extractFileContext(lines.join('\n'), 'const label = "Save changes";');
+
+    expect(result.closest_match).toMatchObject({
+      lines: { start: 30, end: 30 },
+      text: "const label = 'Save changes';",
+      differences: ['quote style: " in old_string, \' in the file'],
+    });
+    expect(result.snippet!.split('\n')).toEqual(lines.slice(22, 37));
+  });
+
+  it('should not look for a closest match when findClosest is false', () => {
+    const result = extractFileContext('const label = 1;', 'const labe1 = 1;', false);
+    expect(result.closest_match).toBeUndefined();
+    expect(result.snippet).toBe('const label = 1;');
+  });
 });
 
 describe('extractMatchLocations', () => {
@@ -393,6 +418,57 @@ describe('createErrorEnvelope', () => {
   });
 });
 
+describe('createValidationErrorEnvelope', () => {
+  const stale = {
+    code: 'STALE_CONTENT',
+    message: 'File changed since it was read',
+    recovery_hint: 'Re-read the file',
+    context: { current_sha256: 'abc', current_mtime: '2026-01-01T00:00:00.000Z' },
+  };
+
+  it('should use VALIDATION_FAILED for ordinary validation errors', () => {
+    const envelope = createValidationErrorEnvelope(
+      [{ code: 'RELATIVE_PATH', message: 'Path must be absolute', recovery_hint: 'Use absolute path' }],
+      'Input validation failed'
+    );
+    expect(envelope.error_code).toBe('VALIDATION_FAILED');
+    expect(envelope.message).toBe('Input validation failed');
+    expect(envelope.recovery_hints).toEqual(['RELATIVE_PATH: Path must be absolute (Use absolute path)']);
+  });
+
+  it('should use STALE_CONTENT with context when the only error is stale content', () => {
+    const envelope = createValidationErrorEnvelope([stale], 'Input validation failed');
+    expect(envelope.error_code).toBe('STALE_CONTENT');
+    expect(envelope.retryable).toBe(true);
+    expect(envelope.message).toBe('File changed since it was read');
+    expect(envelope.context).toEqual(stale.context);
+  });
+
+  it('should summarize several stale files without context', () => {
+    const envelope = createValidationErrorEnvelope([stale, stale], 'Validation failed');
+    expect(envelope.error_code).toBe('STALE_CONTENT');
+    expect(envelope.message).toBe('File changed since it was read (and 1 more)');
+    expect(envelope.context).toBeUndefined();
+  });
+
+  it('should keep PATH_OUTSIDE_WORKSPACE as the error code', () => {
+    const envelope = createValidationErrorEnvelope(
+      [{ code: 'PATH_OUTSIDE_WORKSPACE', message: 'outside', recovery_hint: 'stay inside' }],
+      'Input validation failed'
+    );
+    expect(envelope.error_code).toBe('PATH_OUTSIDE_WORKSPACE');
+    expect(envelope.retryable).toBe(false);
+  });
+
+  it('should fall back to VALIDATION_FAILED when stale content is mixed with other errors', () => {
+    const envelope = createValidationErrorEnvelope(
+      [stale, { code: 'FILE_NOT_FOUND', message: 'missing', recovery_hint: 'check path' }],
+      'Validation failed'
+    );
+    expect(envelope.error_code).toBe('VALIDATION_FAILED');
+  });
+});
+
 describe('isRetryable and RETRYABLE_CODES', () => {
   it('should return true for MATCH_NOT_FOUND', () => {
     expect(isRetryable('MATCH_NOT_FOUND')).toBe(true);
@@ -0,0 +1,128 @@
+/**
+ * Filesystem-mocked unit tests for history.ts: argument parsing and the journal file
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fs, vol } from 'memfs';
+
+// history.ts imports 'fs/promises' (no node: prefix)
+vi.mock('fs/promises', () => ({ default: fs.promises, ...fs.promises }));
+
+import {
+  parseHistoryArgs,
+  setHistoryConfig,
+  readEditHistory,
+  recordEditHistory,
+  removeEditHistoryEntries,
+  MAX_HISTORY_ENTRIES,
+  DEFAULT_HISTORY_FILE,
+} from '../../src/core/history.js';
+
+const JOURNAL = '/cache/history.jsonl';
+
+beforeEach(() => {
+  vol.reset();
+  setHistoryConfig({ file: JOURNAL });
+});
+
+afterEach(() => {
+  setHistoryConfig({ file: DEFAULT_HISTORY_FILE });
+  vi.restoreAllMocks();
+});
+
+describe('parseHistoryArgs', () => {
+  it('should parse --history-file in both forms', () => {
+    expect(parseHistoryArgs(['--history-file', '/a.jsonl'])).toEqual({ file: '/a.jsonl' });
+    expect(parseHistoryArgs(['--history-file=/b.jsonl', '--root', '/x'])).toEqual({ file: '/b.jsonl' });
+  });
+
+  it('should throw when the value is missing', () => {
+    expect(() => parseHistoryArgs(['--history-file'])).toThrow('Missing value for --history-file');
+  });
+});
+
+describe('edit history journal', () => {
+  const record = { file_path: '/work/a.ts', operation: 'edit' as const, before_sha256: 'a', after_sha256: 'b' };
+
+  it('should read a missing journal as empty', async () => {
+    expect(await readEditHistory()).toEqual([]);
+  });
+
+  it('should append entries and create the journal directory', async () => {
+    await recordEditHistory('multi_edit', [record]);
+    await recordEditHistory('multi_edit_files', [record]);
+
+    const entries = await readEditHistory();
+    expect(entries.map(entry => entry.tool)).toEqual(['multi_edit', 'multi_edit_files']);
+    expect(entries[0].files).toEqual([record]);
+    expect(entries[0].id).not.toBe(entries[1].id);
+  });
+
+  it('should skip lines that are not valid JSON', async () => {
+    await recordEditHistory('multi_edit', [record]);
+    vol.writeFileSync(JOURNAL, `${vol.readFileSync(JOURNAL, 'utf8')}{"id":"torn`);
+
+    expect(await readEditHistory()).toHaveLength(1);
+  });
+
+  it('should keep only the newest entries', async () => {
+    const entries = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, i) => ({
+      id: `id-${i}`,
+      tool: 'multi_edit' as const,
+      timestamp: '2026-10-19T10:00:00.000Z',
+      files: [record],
+    }));
+    vol.fromJSON({ [JOURNAL]: entries.map(entry => `${JSON.stringify(entry)}\n`).join('') });
+    await recordEditHistory('multi_edit', [record]);
+
+    const kept = await readEditHistory();
+    expect(kept).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(kept[0].id).toBe('id-1');
+  });
+
+  it('should keep entries appended after the caller read the journal when removing by id', async () => {
+    await recordEditHistory('multi_edit', [record]);
+    const [undone] = await readEditHistory();
+    await recordEditHistory('multi_edit_files', [record]);
+
+    const remaining = await removeEditHistoryEntries([undone.id]);
+
+    expect(remaining.map(entry => entry.tool)).toEqual(['multi_edit_files']);
+    expect(await readEditHistory()).toEqual(remaining);
+    expect(vol.existsSync(`${JOURNAL}.lock`)).toBe(false);
+  });
+
+  it('should wait for the lock held by another process', async () => {
+    vol.fromJSON({ [`${JOURNAL}.lock`]: '' });
+    setTimeout(() => vol.rmSync(`${JOURNAL}.lock`), 50);
+
+    await recordEditHistory('multi_edit', [record]);
+
+    expect(await readEditHistory()).toHaveLength(1);
+  });
+
+  it('should take over a lock left by a process that died holding it', async () => {
+    vol.fromJSON({ [`${JOURNAL}.lock`]: '' });
+    const longAgo = new Date(Date.now() - 60_000);
+    vol.utimesSync(`${JOURNAL}.lock`, longAgo, longAgo);
+
+    await recordEditHistory('multi_edit', [record]);
+
+    expect(await readEditHistory()).toHaveLength(1);
+    expect(vol.existsSync(`${JOURNAL}.lock`)).toBe(false);
+  });
+
+  it('should return nothing once the entry is recorded', async () => {
+    await expect(recordEditHistory('multi_edit', [record])).resolves.toBeUndefined();
+  });
+
+  it('should log and return a warning instead of throwing when the journal cannot be written', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vol.fromJSON({ '/cache': 'not a directory' });
+
+    const warning = await recordEditHistory('multi_edit', [record]);
+
+    expect(warning).toMatch(/^Edit history not recorded, so undo_edit cannot revert this edit: /);
+    expect(consoleError).toHaveBeenCalledWith('Failed to record edit history:', expect.anything());
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Unit tests for journal.ts: transaction journal lifecycle and crash recovery
+ * Uses real temp directories, since recovery works on files left behind by another process.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, readFile, readdir, rm, access } from 'node:fs/promises';
+import { spawnSync } from 'node:child_process';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { realpathSync } from 'node:fs';
+import {
+  beginTransaction,
+  journalStagedWrite,
+  journalFileChange,
+  endTransaction,
+  recoverTransactions,
+  setJournalDirectory,
+  DEFAULT_JOURNAL_DIRECTORY,
+} from '../../src/core/journal.js';
+import { computeSha256 } from '../../src/core/editor.js';
+
+let tempDir: string;
+let journalDir: string;
+
+/** pid of a process that has already exited */
+function deadPid(): number {
+  return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+function base64(content: string | Buffer): string {
+  return Buffer.from(content).toString('base64');
+}
+
+async function writeJournal(pid: number, records: object[], stagedPaths: string[] = []): Promise<void> {
+  const lines = [
+    { type: 'begin', id: 'tx-1', pid, host: hostname(), started_at: '2026-10-19T10:00:00.000Z' },
+    ...stagedPaths.map(stagedPath => ({ type: 'staged', staged_path: stagedPath })),
+    ...records.map(record => ({ type: 'file', ...record })),
+  ];
+  await writeFile(join(journalDir, 'tx-1.jsonl'), lines.map(line => `${JSON.stringify(line)}\n`).join(''));
+}
+
+beforeEach(async () => {
+  tempDir = realpathSync(await mkdtemp(join(tmpdir(), 'mcp-journal-')));
+  journalDir = join(tempDir, 'transactions');
+  setJournalDirectory(journalDir);
+});
+
+afterEach(async () => {
+  setJournalDirectory(DEFAULT_JOURNAL_DIRECTORY);
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('transaction journal', () => {
+  it('should keep the journal until the transaction ends', async () => {
+    const id = await beginTransaction();
+    await journalFileChange(id, { file_path: '/work/a.ts', original_bytes: base64('old') });
+
+    const lines = (await readFile(join(journalDir, `${id}.jsonl`), 'utf8')).trim().split('\n');
+    expect(JSON.parse(lines[0])).toMatchObject({ type: 'begin', id, pid: process.pid });
+    expect(JSON.parse(lines[1])).toEqual({ type: 'file', file_path: '/work/a.ts', original_bytes: base64('old') });
+
+    await endTransaction(id);
+    expect(await readdir(journalDir)).toEqual([]);
+  });
+
+  it('should journal staged temp files', async () => {
+    const id = await beginTransaction();
+    await journalStagedWrite(id, '/work/.a.ts.0123456789ab.tmp');
+
+    const lines = (await readFile(join(journalDir, `${id}.jsonl`), 'utf8')).trim().split('\n');
+    expect(JSON.parse(lines[1])).toEqual({ type: 'staged', staged_path: '/work/.a.ts.0123456789ab.tmp' });
+  });
+});
+
+describe('recoverTransactions', () => {
+  it('should return nothing when no journal directory exists', async () => {
+    expect(await recoverTransactions()).toEqual([]);
+  });
+
+  it('should roll back edited, created, deleted and moved files of a dead transaction', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    const created = join(tempDir, 'created.txt');
+    const deleted = join(tempDir, 'deleted.txt');
+    const moved = join(tempDir, 'moved.txt');
+    const movedTo = join(tempDir, 'renamed.txt');
+    await writeFile(edited, 'new content');
+    await writeFile(created, 'fresh');
+    await writeFile(movedTo, 'moved content');
+
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64('old content'), committed_sha256: computeSha256('new content') },
+      { file_path: created, committed_sha256: computeSha256('fresh') },
+      { file_path: deleted, original_bytes: base64('keep me') },
+      { file_path: moved, moved_to: movedTo, original_bytes: base64('moved content'), committed_sha256: computeSha256('moved content') },
+    ]);
+
+    const [recovered] = await recoverTransactions();
+
+    expect(recovered.transaction_id).toBe('tx-1');
+    expect(recovered.rollback.files_rolled_back).toBe(4);
+    expect(recovered.rollback.details.map(detail => detail.status))
+      .toEqual(['moved_back', 'restored', 'removed', 'restored']);
+    expect(await readFile(edited, 'utf8')).toBe('old content');
+    expect(await readFile(deleted, 'utf8')).toBe('keep me');
+    expect(await readFile(moved, 'utf8')).toBe('moved content');
+    await expect(access(created)).rejects.toThrow();
+    await expect(access(movedTo)).rejects.toThrow();
+    expect(await readdir(journalDir)).toEqual([]);
+  });
+
+  it('should leave journals of running processes alone', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    await writeFile(edited, 'new content');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(process.pid, [{ file_path: edited, original_bytes: base64('old content') }]);
+
+    expect(await recoverTransactions()).toEqual([]);
+    expect(await readFile(edited, 'utf8')).toBe('new content');
+    expect(await readdir(journalDir)).toEqual(['tx-1.jsonl']);
+  });
+
+  it('should ignore a torn last line', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    await writeFile(edited, 'new content');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64('old content'), committed_sha256: computeSha256('new content') },
+    ]);
+    await writeFile(join(journalDir, 'tx-1.jsonl'), '{"type":"file","file_path":"/tor', { flag: 'a' });
+
+    const [recovered] = await recoverTransactions();
+    expect(recovered.rollback.details).toEqual([{ file_path: edited, status: 'restored' }]);
+    expect(await readFile(edited, 'utf8')).toBe('old content');
+  });
+
+  it('should restore files already back in their original state', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    await writeFile(edited, 'old content');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64('old content'), committed_sha256: computeSha256('new content') },
+    ]);
+
+    const [recovered] = await recoverTransactions();
+    expect(recovered.rollback.details).toEqual([{ file_path: edited, status: 'restored' }]);
+    expect(await readFile(edited, 'utf8')).toBe('old content');
+  });
+
+  it('should remove temp files staged by a transaction that died before committing them', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    const committedTemp = join(tempDir, '.edited.txt.aaaaaaaaaaaa.tmp');
+    const stagedTemp = join(tempDir, '.other.txt.bbbbbbbbbbbb.tmp');
+    await writeFile(edited, 'new content');
+    await writeFile(stagedTemp, 'never committed');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64('old content'), committed_sha256: computeSha256('new content') },
+    ], [committedTemp, stagedTemp]);
+
+    const [recovered] = await recoverTransactions();
+
+    expect(recovered.rollback).toMatchObject({ files_rolled_back: 1, files_not_committed: 1 });
+    expect(await readFile(edited, 'utf8')).toBe('old content');
+    expect((await readdir(tempDir)).sort()).toEqual(['edited.txt', 'transactions']);
+    expect(await readdir(journalDir)).toEqual([]);
+  });
+
+  it('should remove temp files of a transaction that died while staging', async () => {
+    const stagedTemp = join(tempDir, '.edited.txt.aaaaaaaaaaaa.tmp');
+    await writeFile(stagedTemp, 'never committed');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [], [stagedTemp]);
+
+    const [recovered] = await recoverTransactions();
+
+    expect(recovered.rollback).toEqual({ files_rolled_back: 0, files_failed_rollback: 0, files_not_committed: 1, details: [] });
+    await expect(access(stagedTemp)).rejects.toThrow();
+  });
+
+  it('should restore the exact original bytes of Shift-JIS files', async () => {
+    // 0xFA 0x5B decodes to "∵" like 0x81 0xE6, which a fresh encode would pick
+    const original = Buffer.from([0xfa, 0x5b, 0x20, 0x6f, 0x6c, 0x64]);
+    const committed = Buffer.from([0xfa, 0x5b, 0x20, 0x6e, 0x65, 0x77]);
+    const edited = join(tempDir, 'edited.txt');
+    const untouched = join(tempDir, 'untouched.txt');
+    await writeFile(edited, committed);
+    await writeFile(untouched, original);
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64(original), encoding: 'shift_jis', committed_sha256: computeSha256(committed) },
+      { file_path: untouched, original_bytes: base64(original), encoding: 'shift_jis', committed_sha256: computeSha256(committed) },
+    ]);
+
+    const [recovered] = await recoverTransactions();
+
+    expect(recovered.rollback.details.map(detail => detail.status)).toEqual(['restored', 'restored']);
+    expect([...await readFile(edited)]).toEqual([...original]);
+    expect([...await readFile(untouched)]).toEqual([...original]);
+  });
+
+  it('should skip files changed since the transaction', async () => {
+    const edited = join(tempDir, 'edited.txt');
+    const created = join(tempDir, 'created.txt');
+    const deleted = join(tempDir, 'deleted.txt');
+    await writeFile(edited, 'edited by someone else');
+    await writeFile(created, 'rewritten by someone else');
+    await writeFile(deleted, 'recreated by someone else');
+    await beginTransaction().then(endTransaction);
+    await writeJournal(deadPid(), [
+      { file_path: edited, original_bytes: base64('old content'), committed_sha256: computeSha256('new content') },
+      { file_path: created, committed_sha256: computeSha256('fresh') },
+      { file_path: deleted, original_bytes: base64('keep me') },
+    ]);
+
+    const [recovered] = await recoverTransactions();
+
+    expect(recovered.rollback).toMatchObject({ files_rolled_back: 0, files_failed_rollback: 0 });
+    expect(recovered.rollback.details.map(detail => detail.status)).toEqual(['skipped', 'skipped', 'skipped']);
+    expect(await readFile(edited, 'utf8')).toBe('edited by someone else');
+    expect(await readFile(created, 'utf8')).toBe('rewritten by someone else');
+    expect(await readFile(deleted, 'utf8')).toBe('recreated by someone else');
+    expect(await readdir(journalDir)).toEqual([]);
+  });
+});
@@ -10,14 +10,15 @@ import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
 import { handleMultiEditFiles } from '../../src/tools/multi-edit-files.js';
 import { handleMultiEdit } from '../../src/tools/multi-edit.js';
 import * as editor from '../../src/core/editor.js';
-import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import type { EditOperation, RollbackReport } from '../../src/types/index.js';
+import { mkdtemp, writeFile, readFile, readdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { realpathSync } from 'node:fs';
 
-// Helper: parse tool result JSON
-const parse = (r: { content: Array<{ type: string; text: string }> }) =>
-  JSON.parse(r.content[0].text);
+// Helper: the tool's structured response
+const parse = (r: { structuredContent?: Record<string, unknown> }) =>
+  r.structuredContent as Record<string, unknown>;
 
 let tempDir: string;
 
@@ -31,21 +32,22 @@ afterEach(async () => {
 });
 
 // ============================================================
-// multi-edit-files.ts: classifyErrorCodeFromMessage BACKUP_FAILED
+// multi-edit-files.ts: failure code of the edit result
 // ============================================================
 
-describe('multi-edit-files classifyErrorCodeFromMessage BACKUP_FAILED', () => {
-  it('should classify "backup failed" in edit result error as BACKUP_FAILED', async () => {
+describe('multi-edit-files failure code of the edit result', () => {
+  it('should report the BACKUP_FAILED code of a failed edit result', async () => {
     const file1 = join(tempDir, 'backup-class.txt');
     await writeFile(file1, 'content here', 'utf-8');
 
-    // Mock applyEditsToContent to return failure with "backup failed" in message
+    // Mock applyEditsToContent to return a BACKUP_FAILED failure
     vi.spyOn(editor, 'applyEditsToContent').mockReturnValue({
       success: false,
       file_path: file1,
       edits_applied: 0,
       results: [],
       error: 'Backup failed for the given file',
+      failure: { code: 'BACKUP_FAILED' },
       dry_run: false,
     });
 
@@ -62,11 +64,11 @@ describe('multi-edit-files classifyErrorCodeFromMessage BACKUP_FAILED', () => {
 });
 
 // ============================================================
-// multi-edit-files.ts: backup failure on file 2 (with writtenFiles > 0)
+// multi-edit-files.ts: backup failure on file 2 (after file 1 was staged)
 // ============================================================
 
-describe('multi-edit-files backup failure with prior written files triggers rollback', () => {
-  it('should trigger rollback when backup fails on second file', async () => {
+describe('multi-edit-files backup failure after a staged file', () => {
+  it('should discard staged files without a rollback when backup fails on second file', async () => {
     const file1 = join(tempDir, 'f1.txt');
     const file2 = join(tempDir, 'f2.txt');
     await writeFile(file1, 'aaa', 'utf-8');
@@ -94,18 +96,20 @@ describe('multi-edit-files backup failure with prior written files triggers roll
     expect(result.isError).toBe(true);
     const parsed = parse(result);
     expect(parsed.error_code).toBe('BACKUP_FAILED');
-    // Should have triggered rollback since file1 was already written
-    expect(parsed.rollback).toBeDefined();
-    expect(parsed.rollback.files_rolled_back).toBe(1);
+    // Backups are made before any file is committed, so file1 was never written
+    expect(parsed.failed_phase).toBe('stage');
+    expect(parsed.rollback).toBeUndefined();
+    expect(await readFile(file1, 'utf-8')).toBe('aaa');
+    expect((await readdir(tempDir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
   });
 });
 
 // ============================================================
-// multi-edit-files.ts: unexpected exception with prior written files
+// multi-edit-files.ts: unexpected exceptions before and after commit
 // ============================================================
 
-describe('multi-edit-files outer catch with prior written files triggers rollback', () => {
-  it('should rollback written files on unexpected exception', async () => {
+describe('multi-edit-files outer catch', () => {
+  it('should not roll back on unexpected exception while preparing', async () => {
     const file1 = join(tempDir, 'g1.txt');
     const file2 = join(tempDir, 'g2.txt');
     await writeFile(file1, 'xxx', 'utf-8');
@@ -114,7 +118,7 @@ describe('multi-edit-files outer catch with prior written files triggers rollbac
     const originalApply = editor.applyEditsToContent;
     let applyCount = 0;
     vi.spyOn(editor, 'applyEditsToContent').mockImplementation(
-      (filePath: string, content: string, edits: any[], dryRun?: boolean) => {
+      (filePath: string, content: string, edits: EditOperation[], dryRun?: boolean) => {
         applyCount++;
         if (applyCount === 1) {
           return originalApply(filePath, content, edits, dryRun);
@@ -134,9 +138,41 @@ describe('multi-edit-files outer catch with prior written files triggers rollbac
     expect(result.isError).toBe(true);
     const parsed = parse(result);
     expect(parsed.error_code).toBe('UNKNOWN_ERROR');
-    // Rollback should have happened since file1 was already written
-    expect(parsed.rollback).toBeDefined();
-    expect(parsed.rollback.files_rolled_back).toBe(1);
+    // Nothing was written yet
+    expect(parsed.failed_phase).toBe('prepare');
+    expect(parsed.rollback).toBeUndefined();
+    expect(await readFile(file1, 'utf-8')).toBe('xxx');
+  });
+
+  it('should rollback committed files on unexpected exception after commit', async () => {
+    const file1 = join(tempDir, 'h1.txt');
+    const file2 = join(tempDir, 'h2.txt');
+    await writeFile(file1, 'xxx', 'utf-8');
+    await writeFile(file2, 'yyy', 'utf-8');
+
+    // The first two hashes are journaled before the commit; the third reports file1 after it
+    const originalSha256 = editor.computeSha256;
+    let hashCount = 0;
+    vi.spyOn(editor, 'computeSha256').mockImplementation((content) => {
+      if (++hashCount > 2) {
+        throw new TypeError('unexpected crash');
+      }
+      return originalSha256(content);
+    });
+
+    const result = await handleMultiEditFiles({
+      files: [
+        { file_path: file1, edits: [{ old_string: 'xxx', new_string: 'XXX' }] },
+        { file_path: file2, edits: [{ old_string: 'yyy', new_string: 'YYY' }] },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    const parsed = parse(result);
+    expect(parsed.error_code).toBe('UNKNOWN_ERROR');
+    expect((parsed.rollback as RollbackReport).files_rolled_back).toBe(2);
+    expect(await readFile(file1, 'utf-8')).toBe('xxx');
+    expect(await readFile(file2, 'utf-8')).toBe('yyy');
   });
 });
 
@@ -12,6 +12,10 @@ import {
   truncateForDisplay,
   formatMultiEditFilesResponse,
   createFilesSuccessResult,
+  createToolResult,
+  summarizeMultiEditResponse,
+  summarizeMultiEditFilesResponse,
+  summarizeErrorEnvelope,
 } from '../../src/core/reporter.js';
 import type { SuccessResponse } from '../../src/core/reporter.js';
 import type { MultiEditResult, MultiEditFilesResult, ErrorEnvelope } from '../../src/types/index.js';
@@ -40,6 +44,7 @@ function makeErrorResult(overrides: Partial<MultiEditResult> = {}): MultiEditRes
       { old_string: 'not_found_text', matches: 0, replaced: 0, success: false, error: 'old_string not found in file' },
     ],
     error: 'old_string not found in file',
+    failure: { code: 'MATCH_NOT_FOUND' },
     failed_edit_index: 0,
     dry_run: false,
     ...overrides,
@@ -69,24 +74,33 @@ describe('generateDiffPreview', () => {
   });
 
   it('should show changed line with diff markers', () => {
-    const result = generateDiffPreview('old line', 'new line', '/file.txt');
-    expect(result).toContain('--- /file.txt (original)');
-    expect(result).toContain('+++ /file.txt (modified)');
-    expect(result).toContain('L1: - old line');
-    expect(result).toContain('L1: + new line');
+    const result = generateDiffPreview('old line\n', 'new line\n', '/file.txt');
+    expect(result).toBe('--- /file.txt\n+++ /file.txt\n@@ -1 +1 @@\n-old line\n+new line\n');
   });
 
   it('should show added lines when newContent has more lines', () => {
-    const result = generateDiffPreview('line1', 'line1\nline2', '/file.txt');
-    // Line 2 is added (origLine is undefined, newLine is 'line2')
-    expect(result).toContain('L2: + line2');
-    // Line 1 is unchanged so should not appear in diff
-    expect(result).not.toContain('L1:');
+    const result = generateDiffPreview('line1\n', 'line1\nline2\n', '/file.txt');
+    expect(result).toContain('@@ -1 +1,2 @@\n line1\n+line2\n');
   });
 
   it('should show removed lines when originalContent has more lines', () => {
-    const result = generateDiffPreview('line1\nline2', 'line1', '/file.txt');
-    expect(result).toContain('L2: - line2');
+    const result = generateDiffPreview('line1\nline2\n', 'line1\n', '/file.txt');
+    expect(result).toContain('@@ -1,2 +1 @@\n line1\n-line2\n');
+  });
+
+  it('should honour context_lines', () => {
+    const result = generateDiffPreview('a\nb\nc\n', 'a\nB\nc\n', '/file.txt', { context_lines: 0 });
+    expect(result).toContain('@@ -2 +2 @@\n-b\n+B\n');
+  });
+
+  it('should show a move as a change of path', () => {
+    const result = generateDiffPreview('same\n', 'same\n', '/src/a.ts', { file_operation: 'move', moved_to: '/src/b.ts' });
+    expect(result).toBe('--- /src/a.ts\n+++ /src/b.ts\n');
+  });
+
+  it('should fall back to the unified format for git without workspace roots', () => {
+    const result = generateDiffPreview('', 'x\n', '/repo/new.ts', { file_operation: 'create', format: 'git' });
+    expect(result).toBe('--- /dev/null\n+++ /repo/new.ts\n@@ -0,0 +1 @@\n+x\n');
   });
 });
 
@@ -116,7 +130,7 @@ describe('formatMultiEditResponse - success paths', () => {
 
     expect(response.message).toBe('DRY RUN - No changes made to file');
     expect(response.diff_preview).toBeDefined();
-    expect(response.diff_preview).toContain('--- /tmp/test.txt (original)');
+    expect(response.diff_preview).toContain('--- /tmp/test.txt\n+++ /tmp/test.txt\n@@ -1 +1 @@');
   });
 
   it('should include final_content when includeContent=true', () => {
@@ -135,6 +149,32 @@ describe('formatMultiEditResponse - success paths', () => {
     expect(response.final_content).toBeUndefined();
   });
 
+  it('should echo line_range per edit and explain its numbering', () => {
+    const result = makeSuccessResult({
+      results: [{ old_string: 'old', matches: 1, replaced: 1, success: true, line_range: { start: 3, end: 5 } }],
+    });
+    const response = formatMultiEditResponse(result, false, 1) as SuccessResponse;
+    expect(response.edits[0].line_range).toEqual({ start: 3, end: 5 });
+    expect(response.line_range_note).toContain('earlier edits');
+  });
+
+  it('should report op for non-replace edits only', () => {
+    const result = makeSuccessResult({
+      results: [
+        { old_string: 'old', matches: 1, replaced: 1, success: true },
+        { old_string: 'anchor', matches: 1, replaced: 1, success: true, op: 'insert_after' },
+      ],
+    });
+    const response = formatMultiEditResponse(result, false, 2) as SuccessResponse;
+    expect('op' in response.edits[0]).toBe(false);
+    expect(response.edits[1].op).toBe('insert_after');
+  });
+
+  it('should omit line_range_note when no edit used line_range', () => {
+    const response = formatMultiEditResponse(makeSuccessResult(), false, 1) as SuccessResponse;
+    expect(response.line_range_note).toBeUndefined();
+  });
+
   it('should include backup_path when present', () => {
     const result = makeSuccessResult({
       backup_path: '/tmp/test.txt.bak',
@@ -162,6 +202,7 @@ describe('formatMultiEditResponse - error paths', () => {
     const fileContent = 'line1\nduplicate here\nline3\nduplicate again\nline5';
     const result = makeErrorResult({
       error: '2 matches at lines 2, 4',
+      failure: { code: 'AMBIGUOUS_MATCH' },
       results: [
         { old_string: 'duplicate', matches: 2, replaced: 0, success: false, error: '2 matches at lines 2, 4' },
       ],
@@ -174,9 +215,52 @@ describe('formatMultiEditResponse - error paths', () => {
     expect(response.context!.match_locations!.length).toBe(2);
   });
 
+  it('should produce OCCURRENCE_OUT_OF_RANGE ErrorEnvelope with match_locations', () => {
+    const fileContent = 'dup\nline2\ndup';
+    const result = makeErrorResult({
+      error: 'occurrence 3 is out of range, found 2 matches at lines 1, 3',
+      failure: { code: 'OCCURRENCE_OUT_OF_RANGE' },
+      results: [],
+    });
+    const edits = [{ old_string: 'dup', new_string: 'x', occurrence: 3 }];
+    const response = formatMultiEditResponse(result, false, 1, fileContent, undefined, edits) as ErrorEnvelope;
+
+    expect(response.error_code).toBe('OCCURRENCE_OUT_OF_RANGE');
+    expect(response.retryable).toBe(true);
+    expect(response.context!.match_locations!.map(l => l.line)).toEqual([1, 3]);
+  });
+
+  it('should list only the AMBIGUOUS_MATCH locations inside the edit line_range', () => {
+    const fileContent = 'a\nb\na\nc\na\nd\na';
+    const result = makeErrorResult({
+      error: 'Found 2 matches at lines 3, 5',
+      failure: { code: 'AMBIGUOUS_MATCH' },
+      results: [],
+    });
+    const edits = [{ old_string: 'a', new_string: 'x', line_range: { start: 2, end: 5 } }];
+    const response = formatMultiEditResponse(result, false, 1, fileContent, undefined, edits) as ErrorEnvelope;
+
+    expect(response.context!.match_locations!.map(l => l.line)).toEqual([3, 5]);
+  });
+
+  it('should build AMBIGUOUS_MATCH context from the submitted edit when results lack it', () => {
+    const fileContent = 'a\nb\na';
+    const result = makeErrorResult({
+      error: 'Found 2 matches at lines 1, 3. Use replace_all: true to replace all occurrences.',
+      failure: { code: 'AMBIGUOUS_MATCH' },
+      results: [],
+    });
+    const edits = [{ old_string: 'a', new_string: 'x' }];
+    const response = formatMultiEditResponse(result, false, 1, fileContent, undefined, edits) as ErrorEnvelope;
+
+    expect(response.error_code).toBe('AMBIGUOUS_MATCH');
+    expect(response.context!.match_locations).toHaveLength(2);
+  });
+
   it('should produce PERMISSION_DENIED ErrorEnvelope', () => {
     const result = makeErrorResult({
       error: 'permission denied eacces',
+      failure: { code: 'PERMISSION_DENIED' },
       results: [
         { old_string: 'text', matches: 0, replaced: 0, success: false, error: 'permission denied eacces' },
       ],
@@ -188,6 +272,7 @@ describe('formatMultiEditResponse - error paths', () => {
   it('should produce INVALID_ENCODING ErrorEnvelope', () => {
     const result = makeErrorResult({
       error: 'invalid utf-8 encoding',
+      failure: { code: 'INVALID_ENCODING' },
       results: [
         { old_string: 'text', matches: 0, replaced: 0, success: false, error: 'invalid utf-8 encoding' },
       ],
@@ -199,6 +284,7 @@ describe('formatMultiEditResponse - error paths', () => {
   it('should produce BACKUP_FAILED ErrorEnvelope', () => {
     const result = makeErrorResult({
       error: 'backup failed',
+      failure: { code: 'BACKUP_FAILED' },
       results: [
         { old_string: 'text', matches: 0, replaced: 0, success: false, error: 'backup failed' },
       ],
@@ -207,9 +293,10 @@ describe('formatMultiEditResponse - error paths', () => {
     expect(response.error_code).toBe('BACKUP_FAILED');
   });
 
-  it('should produce UNKNOWN_ERROR ErrorEnvelope for unrecognized message', () => {
+  it('should produce UNKNOWN_ERROR ErrorEnvelope when the result has no failure code', () => {
     const result = makeErrorResult({
       error: 'something completely unknown',
+      failure: undefined,
       results: [
         { old_string: 'text', matches: 0, replaced: 0, success: false, error: 'something completely unknown' },
       ],
@@ -218,6 +305,18 @@ describe('formatMultiEditResponse - error paths', () => {
     expect(response.error_code).toBe('UNKNOWN_ERROR');
   });
 
+  it('should take the error code from the result, not from its message', () => {
+    const result = makeErrorResult({
+      error: 'Permission denied: /tmp/not found/test.txt. Check file permissions.',
+      failure: { code: 'PERMISSION_DENIED' },
+      results: [],
+    });
+    const response = formatMultiEditResponse(result, false, 1, 'content') as ErrorEnvelope;
+
+    expect(response.error_code).toBe('PERMISSION_DENIED');
+    expect(response.context).toBeUndefined();
+  });
+
   it('should include edit_status when edits param provided', () => {
     const result = makeErrorResult();
     const edits = [{ old_string: 'not_found_text' }, { old_string: 'another' }];
@@ -264,16 +363,14 @@ describe('formatMultiEditFilesResponse', () => {
 
   it('should strip final_content when includeContent=false', () => {
     const result = makeFilesResult();
-    const json = formatMultiEditFilesResponse(result, false);
-    const parsed = JSON.parse(json);
-    expect(parsed.file_results[0].final_content).toBeUndefined();
+    const response = formatMultiEditFilesResponse(result, false);
+    expect(response.file_results[0].final_content).toBeUndefined();
   });
 
   it('should preserve final_content when includeContent=true', () => {
     const result = makeFilesResult();
-    const json = formatMultiEditFilesResponse(result, true);
-    const parsed = JSON.parse(json);
-    expect(parsed.file_results[0].final_content).toBe('new content');
+    const response = formatMultiEditFilesResponse(result, true);
+    expect(response.file_results[0].final_content).toBe('new content');
   });
 });
 
@@ -316,3 +413,219 @@ describe('createFilesSuccessResult', () => {
     expect(result.dry_run).toBe(false);
   });
 });
+
+describe('tool result summaries', () => {
+  it('should summarize a multi_edit success with its changed lines', () => {
+    const response = formatMultiEditResponse(
+      makeSuccessResult({
+        edits_applied: 2,
+        sha256: 'abc123',
+        changes: [
+          { edit_index: 0, start_line: 4, start_column: 1, end_line: 6, end_column: 1 },
+          { edit_index: 1, start_line: 9, start_column: 3, end_line: 9, end_column: 8 },
+        ],
+      }),
+      false,
+      2
+    );
+
+    expect(summarizeMultiEditResponse(response)).toBe(
+      'Applied 2 edits to /tmp/test.txt\nChanged lines: 4-5, 9\nsha256: abc123'
+    );
+  });
+
+  it('should put the error code and recovery hints in an error summary', () => {
+    const response = formatMultiEditResponse(
+      makeSuccessResult({
+        success: false,
+        edits_applied: 0,
+        error: 'old_string not found in file',
+        failure: { code: 'MATCH_NOT_FOUND' },
+        failed_edit_index: 0,
+        results: [{ old_string: 'old', matches: 0, replaced: 0, success: false }],
+      }),
+      false,
+      1
+    );
+
+    const summary = summarizeMultiEditResponse(response);
+    expect(summary.split('\n')[0]).toBe('MATCH_NOT_FOUND: Edit 1 of 1 failed: old_string not found in file');
+    expect(summary).toContain('- Re-read the file');
+  });
+
+  it('should list each file of a multi_edit_files response', () => {
+    const response = createFilesSuccessResult([
+      makeSuccessResult({ file_path: '/tmp/a.ts', edits_applied: 1 }),
+      makeSuccessResult({ file_path: '/tmp/b.ts', edits_applied: 0, results: [], file_operation: 'create' }),
+      makeSuccessResult({
+        file_path: '/tmp/c.ts', edits_applied: 0, results: [], file_operation: 'move', moved_to: '/tmp/d.ts',
+      }),
+    ], false);
+
+    expect(summarizeMultiEditFilesResponse(response)).toBe([
+      'Changed 3 files with 1 edit',
+      '- /tmp/a.ts: 1 edit',
+      '- /tmp/b.ts: created',
+      '- /tmp/c.ts: moved to /tmp/d.ts',
+    ].join('\n'));
+  });
+
+  it('should return the response as structuredContent beside the summary', () => {
+    const response = formatMultiEditResponse(makeSuccessResult(), false, 1);
+    const result = createToolResult(response, 'summary');
+
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'summary' }],
+      structuredContent: response,
+      isError: false,
+    });
+  });
+});
+
+describe('response verbosity', () => {
+  const changed = makeSuccessResult({
+    edits_applied: 2,
+    results: [
+      { old_string: 'a', matches: 3, replaced: 3, success: true },
+      { old_string: 'b', matches: 1, replaced: 1, success: true },
+    ],
+    changes: [
+      { edit_index: 0, start_line: 12, start_column: 1, end_line: 12, end_column: 4 },
+      { edit_index: 1, start_line: 40, start_column: 1, end_line: 41, end_column: 1 },
+    ],
+    sha256: 'abc123',
+    final_content: 'new',
+  });
+
+  it('should reduce a minimal multi_edit success to one line and the hash', () => {
+    const response = formatMultiEditResponse(changed, false, 2, 'old', 'old', undefined, {}, 'minimal');
+
+    expect(response).toEqual({
+      success: true,
+      file_path: '/tmp/test.txt',
+      edits_applied: 2,
+      dry_run: false,
+      summary_line: 'ok: 2 edits, 4 replacements, lines 12-40',
+      sha256: 'abc123',
+    });
+    expect(summarizeMultiEditResponse(response, 'minimal')).toBe('ok: 2 edits, 4 replacements, lines 12-40');
+  });
+
+  it('should add the content and a diff at full verbosity', () => {
+    const response = formatMultiEditResponse(changed, false, 2, 'old', 'old', undefined, {}, 'full') as SuccessResponse;
+
+    expect(response.final_content).toBe('new');
+    expect(response.diff_preview).toContain('-old');
+    expect(response.diff_preview).toContain('+new');
+  });
+
+  it('should keep only the code and first hint of a minimal error', () => {
+    const failed = makeSuccessResult({
+      success: false,
+      edits_applied: 0,
+      error: 'old_string not found in file',
+      failure: { code: 'MATCH_NOT_FOUND' },
+      failed_edit_index: 1,
+      results: [],
+    });
+    const response = formatMultiEditResponse(
+      failed, false, 2, 'content', 'content',
+      [{ old_string: 'a', new_string: 'b' }, { old_string: 'zzz', new_string: 'y' }],
+      {}, 'minimal'
+    ) as ErrorEnvelope;
+
+    expect(response.context).toBeUndefined();
+    expect(response.edit_status).toBeUndefined();
+    expect(response.recovery_hints).toHaveLength(1);
+    expect(summarizeErrorEnvelope(response, 'minimal')).toBe(
+      `MATCH_NOT_FOUND (edit 2): ${response.recovery_hints[0]}`
+    );
+  });
+
+  it('should summarize the closest match of a missing old_string', () => {
+    const failed = makeSuccessResult({
+      success: false,
+      edits_applied: 0,
+      error: 'old_string not found in file',
+      failure: { code: 'MATCH_NOT_FOUND' },
+      failed_edit_index: 0,
+      results: [],
+    });
+    const content = 'function getUserById(id) {\n  return id;\n}\n';
+    const edits = [{ old_string: 'function getUser(id) {', new_string: 'x' }];
+
+    const normal = summarizeErrorEnvelope(
+      formatMultiEditResponse(failed, false, 1, content, content, edits) as ErrorEnvelope
+    );
+    expect(normal).toContain(
+      'Closest match at line 1 (92% similar): identifier: "getUser" in old_string, "getUserById" in the file'
+    );
+    expect(normal).not.toContain('{+ById+}');
+
+    const full = summarizeErrorEnvelope(
+      formatMultiEditResponse(failed, false, 1, content, content, edits, {}, 'full') as ErrorEnvelope,
+      'full'
+    );
+    expect(full).toContain('function getUser{+ById+}(id) {');
+  });
+
+  it('should list every failed edit of a validate_all run', () => {
+    const failed = makeSuccessResult({
+      success: false,
+      edits_applied: 1,
+      error: 'Edit 1 of 3 failed: old_string not found in file',
+      failure: { code: 'MATCH_NOT_FOUND' },
+      failed_edit_index: 0,
+      failed_edits: [
+        { edit_index: 0, code: 'MATCH_NOT_FOUND', message: 'Edit 1 of 3 failed: old_string not found in file' },
+        { edit_index: 2, code: 'AMBIGUOUS_MATCH', message: 'Edit 3 of 3 failed: Found 2 matches at lines 2, 3' },
+      ],
+      results: [],
+    });
+    const content = 'const total = 1;\nlet x;\nlet x;\n';
+    const edits = [
+      { old_string: 'const totals = 1;', new_string: 'a' },
+      { old_string: 'const total', new_string: 'b' },
+      { old_string: 'let x;', new_string: 'c' },
+    ];
+
+    const response = formatMultiEditResponse(failed, false, 3, content, content, edits) as ErrorEnvelope;
+    expect(response.message).toBe('2 of 3 edits failed (edits 1, 3). Edit 1 of 3 failed: old_string not found in file');
+    expect(response.edit_status!.map(entry => [entry.edit_index, entry.status, entry.error_code])).toEqual([
+      [0, 'failed', 'MATCH_NOT_FOUND'],
+      [2, 'failed', 'AMBIGUOUS_MATCH'],
+    ]);
+    expect(response.edit_status![0].context!.closest_match!.text).toBe('const total = 1;');
+    expect(response.edit_status![1].context!.match_locations!.map(location => location.line)).toEqual([2, 3]);
+    expect(summarizeErrorEnvelope(response)).toContain(
+      'Failed edits:\n  MATCH_NOT_FOUND: Edit 1 of 3 failed: old_string not found in file (closest match at line 1'
+    );
+
+    const minimal = formatMultiEditResponse(failed, false, 3, content, content, edits, {}, 'minimal') as ErrorEnvelope;
+    expect(minimal.edit_status).toEqual([
+      { edit_index: 0, status: 'failed', error_code: 'MATCH_NOT_FOUND' },
+      { edit_index: 2, status: 'failed', error_code: 'AMBIGUOUS_MATCH' },
+    ]);
+    expect(summarizeErrorEnvelope(minimal, 'minimal')).toBe(
+      '2 edits failed: MATCH_NOT_FOUND (edit 1), AMBIGUOUS_MATCH (edit 3)'
+    );
+  });
+
+  it('should reduce a minimal multi_edit_files success to one line and per-file hashes', () => {
+    const result = createFilesSuccessResult([
+      { ...changed, file_path: '/tmp/a.ts' },
+      makeSuccessResult({ file_path: '/tmp/b.ts', sha256: 'def456' }),
+    ], true);
+
+    expect(formatMultiEditFilesResponse(result, false, 'minimal')).toEqual({
+      success: true,
+      files_edited: 2,
+      dry_run: true,
+      summary_line: 'dry run ok: 2 files, 3 edits, 5 replacements',
+      file_results: [
+        { file_path: '/tmp/a.ts', sha256: 'abc123' },
+        { file_path: '/tmp/b.ts', sha256: 'def456' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for similarity.ts: fuzzy search for the closest match to old_string
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findClosestMatch } from '../../src/core/similarity.js';
+
+const source = [
+  "import { db } from './db';",
+  '',
+  'function getUserById(id) {',
+  "  return db.find('users', id);",
+  '}',
+  '',
+  "const greeting = 'hello';",
+].join('\n');
+
+describe('findClosestMatch', () => {
+  it('should find a multi-line region with a renamed identifier, quotes and indentation', () => {
+    const match = findClosestMatch(source, 'function getUser(id) {\n    return db.find("users", id);\n}');
+
+    expect(match).toBeDefined();
+    expect(match!.lines).toEqual({ start: 3, end: 5 });
+    expect(match!.text).toBe("function getUserById(id) {\n  return db.find('users', id);\n}");
+    expect(match!.similarity).toBeGreaterThan(0.85);
+    expect(match!.similarity).toBeLessThan(1);
+    expect(match!.diff).toBe(
+      'function getUser{+ById+}(id) {\n  [-  -]return db.find([-"-]{+\'+}users[-"-]{+\'+}, id);\n}'
+    );
+    expect(match!.differences).toEqual([
+      'identifier: "getUser" in old_string, "getUserById" in the file',
+      'whitespace',
+      'quote style: " in old_string, \' in the file',
+    ]);
+  });
+
+  it('should trim a single-line match to the part of the line that lines up', () => {
+    const match = findClosestMatch(source, "db.find('user', id)");
+
+    expect(match!.lines).toEqual({ start: 4, end: 4 });
+    expect(match!.text).toBe("db.find('users', id)");
+    expect(match!.diff).toBe("db.find('user{+s+}', id)");
+  });
+
+  it('should report a difference in case', () => {
+    const match = findClosestMatch(source, 'function getUserByID(id) {');
+
+    expect(match!.differences).toEqual(['case: "getUserByID" in old_string, "getUserById" in the file']);
+  });
+
+  it('should compare Windows line endings as newlines', () => {
+    const match = findClosestMatch(source.replace(/\n/g, '\r\n'), 'function getUserById(id)  {\n  return');
+
+    expect(match!.lines).toEqual({ start: 3, end: 4 });
+    expect(match!.text).toBe('function getUserById(id) {\n  return');
+    expect(match!.differences).toEqual(['whitespace']);
+  });
+
+  it('should return undefined when nothing is similar enough', () => {
+    expect(findClosestMatch(source, 'completely unrelated text')).toBeUndefined();
+    expect(findClosestMatch(source, 'ZZZZZZ')).toBeUndefined();
+  });
+
+  it('should return undefined for very short search strings', () => {
+    expect(findClosestMatch(source, 'db')).toBeUndefined();
+    expect(findClosestMatch(source, '   \n  ')).toBeUndefined();
+  });
+
+  it('should find the closest line in a large file', () => {
+    const lines = Array.from({ length: 5000 }, (_, i) => `  const value${i} = compute(${i}, 'item');`);
+    const match = findClosestMatch(lines.join('\n'), 'const value4321 = compute(4321, "item");');
+
+    expect(match!.lines).toEqual({ start: 4322, end: 4322 });
+    expect(match!.text).toBe("const value4321 = compute(4321, 'item');");
+  });
+});
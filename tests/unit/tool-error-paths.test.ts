@@ -9,14 +9,16 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { handleMultiEditFiles } from '../../src/tools/multi-edit-files.js';
 import { handleMultiEdit } from '../../src/tools/multi-edit.js';
 import * as editor from '../../src/core/editor.js';
-import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { setJournalDirectory, DEFAULT_JOURNAL_DIRECTORY } from '../../src/core/journal.js';
+import type { MultiEditFilesErrorEnvelope } from '../../src/types/index.js';
+import { mkdtemp, writeFile, readFile, readdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { realpathSync } from 'node:fs';
 
-// Helper: parse tool result JSON
-const parse = (r: { content: Array<{ type: string; text: string }> }) =>
-  JSON.parse(r.content[0].text);
+// Helper: the tool's structured response (an error envelope in every test here)
+const parse = (r: { structuredContent?: unknown }) =>
+  r.structuredContent as MultiEditFilesErrorEnvelope;
 
 let tempDir: string;
 
@@ -26,6 +28,7 @@ beforeEach(async () => {
 
 afterEach(async () => {
   vi.restoreAllMocks();
+  setJournalDirectory(DEFAULT_JOURNAL_DIRECTORY);
   await rm(tempDir, { recursive: true, force: true });
 });
 
@@ -34,7 +37,7 @@ afterEach(async () => {
 // ============================================================
 
 describe('handleMultiEditFiles error paths', () => {
-  it('should handle read failure on file 2 of 3 with rollback of file 1', async () => {
+  it('should handle read failure on file 2 of 3 without writing file 1', async () => {
     const file1 = join(tempDir, 'file1.txt');
     const file2 = join(tempDir, 'file2.txt');
     const file3 = join(tempDir, 'file3.txt');
@@ -42,13 +45,12 @@ describe('handleMultiEditFiles error paths', () => {
     await writeFile(file2, 'beta content', 'utf-8');
     await writeFile(file3, 'gamma content', 'utf-8');
 
-    const originalRead = editor.readFileValidated;
+    const originalRead = editor.readTextFile;
     let callCount = 0;
-    vi.spyOn(editor, 'readFileValidated').mockImplementation(async (path: string) => {
+    vi.spyOn(editor, 'readTextFile').mockImplementation(async (path: string) => {
       callCount++;
       // First call is file1 read -- let it through
       // Second call is file2 read -- fail it
-      // Any subsequent calls (rollback reading .bak) -- let them through
       if (callCount === 2) {
         throw Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' });
       }
@@ -69,16 +71,41 @@ describe('handleMultiEditFiles error paths', () => {
     expect(parsed.error_code).toBe('FILE_NOT_FOUND');
     expect(parsed.message).toContain('file 2 of 3');
 
-    // file_statuses should show file1 rolled_back, file2 failed, file3 skipped
+    // Files are read before anything is written: file1 untouched, file2 failed, file3 skipped
     expect(parsed.file_statuses).toBeDefined();
     expect(parsed.file_statuses).toHaveLength(3);
-    expect(parsed.file_statuses[0].status).toBe('rolled_back');
-    expect(parsed.file_statuses[1].status).toBe('failed');
-    expect(parsed.file_statuses[2].status).toBe('skipped');
+    expect(parsed.file_statuses![0].status).toBe('skipped');
+    expect(parsed.file_statuses![1].status).toBe('failed');
+    expect(parsed.file_statuses![2].status).toBe('skipped');
 
-    // rollback report should be present
-    expect(parsed.rollback).toBeDefined();
-    expect(parsed.rollback.files_rolled_back).toBe(1);
+    // Nothing to roll back
+    expect(parsed.failed_phase).toBe('prepare');
+    expect(parsed.rollback).toBeUndefined();
+    expect(await readFile(file1, 'utf-8')).toBe('alpha content');
+  });
+
+  it('should fail with STALE_CONTENT when the file changes after validation', async () => {
+    const file1 = join(tempDir, 'file1.txt');
+    await writeFile(file1, 'alpha content', 'utf-8');
+    const sha256 = editor.computeSha256('alpha content');
+
+    // A concurrent write lands between the validation check and the edit's own read
+    const originalRead = editor.readTextFile;
+    vi.spyOn(editor, 'readTextFile').mockImplementation(async (path: string) => {
+      await writeFile(path, 'alpha content, edited elsewhere', 'utf-8');
+      return originalRead(path);
+    });
+
+    const result = await handleMultiEditFiles({
+      files: [
+        { file_path: file1, expected_sha256: sha256, edits: [{ old_string: 'alpha', new_string: 'ALPHA' }] },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(parse(result).error_code).toBe('STALE_CONTENT');
+    expect(parse(result).context?.current_sha256).toBe(editor.computeSha256('alpha content, edited elsewhere'));
+    expect(await readFile(file1, 'utf-8')).toBe('alpha content, edited elsewhere');
   });
 
   it('should handle backup failure on file 1', async () => {
@@ -105,26 +132,19 @@ describe('handleMultiEditFiles error paths', () => {
     expect(parsed.rollback).toBeUndefined();
   });
 
-  it('should handle write failure on file 2 after file 1 succeeds and rollback', async () => {
+  it('should handle rename failure on file 2 after file 1 is committed and rollback', async () => {
     const file1 = join(tempDir, 'file1.txt');
     const file2 = join(tempDir, 'file2.txt');
     await writeFile(file1, 'first file', 'utf-8');
     await writeFile(file2, 'second file', 'utf-8');
 
-    const originalWrite = editor.atomicWrite;
-    let writeCount = 0;
-    vi.spyOn(editor, 'atomicWrite').mockImplementation(async (path: string, content: string) => {
-      writeCount++;
-      if (writeCount === 1) {
-        // First write (file1) succeeds
-        return originalWrite(path, content);
-      }
-      // Second write (file2) fails -- but also rollback writes must succeed
-      // The rollback calls atomicWrite too, so we need to let those through
+    const originalCommit = editor.commitStagedWrite;
+    vi.spyOn(editor, 'commitStagedWrite').mockImplementation(async (tempPath: string, path: string) => {
+      // file1 rename succeeds, file2 rename fails
       if (path === file2) {
         throw Object.assign(new Error('ENOSPC: no space left'), { code: 'ENOSPC' });
       }
-      return originalWrite(path, content);
+      return originalCommit(tempPath, path);
     });
 
     const result = await handleMultiEditFiles({
@@ -142,12 +162,42 @@ describe('handleMultiEditFiles error paths', () => {
 
     // Rollback should have restored file1
     expect(parsed.rollback).toBeDefined();
-    expect(parsed.rollback.files_rolled_back).toBe(1);
+    expect(parsed.rollback!.files_rolled_back).toBe(1);
 
     // file_statuses: file1 rolled_back, file2 failed
     expect(parsed.file_statuses).toHaveLength(2);
-    expect(parsed.file_statuses[0].status).toBe('rolled_back');
-    expect(parsed.file_statuses[1].status).toBe('failed');
+    expect(parsed.file_statuses![0].status).toBe('rolled_back');
+    expect(parsed.file_statuses![1].status).toBe('failed');
+    expect(await readFile(file1, 'utf-8')).toBe('first file');
+  });
+
+  it('should discard staged files when staging fails, without a rollback', async () => {
+    const file1 = join(tempDir, 'file1.txt');
+    const file2 = join(tempDir, 'file2.txt');
+    await writeFile(file1, 'first file', 'utf-8');
+    await writeFile(file2, 'second file', 'utf-8');
+
+    const originalStage = editor.stageWrite;
+    vi.spyOn(editor, 'stageWrite').mockImplementation(async (path: string, content: string) => {
+      if (path === file2) {
+        throw Object.assign(new Error('ENOSPC: no space left'), { code: 'ENOSPC' });
+      }
+      return originalStage(path, content);
+    });
+
+    const result = await handleMultiEditFiles({
+      files: [
+        { file_path: file1, edits: [{ old_string: 'first', new_string: 'FIRST' }] },
+        { file_path: file2, edits: [{ old_string: 'second', new_string: 'SECOND' }] },
+      ],
+    });
+
+    const parsed = parse(result);
+    expect(parsed.error_code).toBe('DISK_FULL');
+    expect(parsed.failed_phase).toBe('stage');
+    expect(parsed.rollback).toBeUndefined();
+    expect(await readFile(file1, 'utf-8')).toBe('first file');
+    expect((await readdir(tempDir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
   });
 
   it('should handle unexpected exception in outer try/catch', async () => {
@@ -174,33 +224,33 @@ describe('handleMultiEditFiles error paths', () => {
   it('should handle rollback failure when backup file is unreadable', async () => {
     const file1 = join(tempDir, 'file1.txt');
     const file2 = join(tempDir, 'file2.txt');
+    const journalDir = join(tempDir, 'transactions');
+    setJournalDirectory(journalDir);
     await writeFile(file1, 'file one data', 'utf-8');
     await writeFile(file2, 'file two data', 'utf-8');
 
-    const originalRead = editor.readFileValidated;
-    const originalWrite = editor.atomicWrite;
+    const originalRead = editor.readTextFile;
+    const originalCommit = editor.commitStagedWrite;
 
     // We need: file1 read succeeds, file2 read succeeds,
-    // file1 write succeeds, file2 write fails,
+    // file1 rename succeeds, file2 rename fails,
     // then rollback: reading file1.bak fails (rollback failure)
-    let readCallCount = 0;
-    vi.spyOn(editor, 'readFileValidated').mockImplementation(async (path: string) => {
-      readCallCount++;
-      // During rollback, readFileValidated is called to read the .bak file
+    vi.spyOn(editor, 'readTextFile').mockImplementation(async (path: string) => {
+      // During rollback, readTextFile is called to read the .bak file
       if (path.endsWith('.bak')) {
         throw new Error('Cannot read backup file');
       }
       return originalRead(path);
     });
 
-    let writeCallCount = 0;
-    vi.spyOn(editor, 'atomicWrite').mockImplementation(async (path: string, content: string) => {
-      writeCallCount++;
-      if (writeCallCount === 1) {
-        // file1 write succeeds
-        return originalWrite(path, content);
+    let commitCallCount = 0;
+    vi.spyOn(editor, 'commitStagedWrite').mockImplementation(async (tempPath: string, path: string) => {
+      commitCallCount++;
+      if (commitCallCount === 1) {
+        // file1 rename succeeds
+        return originalCommit(tempPath, path);
       }
-      // file2 write fails
+      // file2 rename fails
       throw Object.assign(new Error('ENOSPC: no space'), { code: 'ENOSPC' });
     });
 
@@ -216,12 +266,23 @@ describe('handleMultiEditFiles error paths', () => {
     const parsed = parse(result);
     // Rollback should report failure
     expect(parsed.rollback).toBeDefined();
-    expect(parsed.rollback.files_failed_rollback).toBe(1);
-    expect(parsed.rollback.details[0].status).toBe('failed');
-    expect(parsed.rollback.details[0].error).toContain('Cannot read backup file');
+    expect(parsed.rollback!.files_failed_rollback).toBe(1);
+    expect(parsed.rollback!.details[0].status).toBe('failed');
+    expect(parsed.rollback!.details[0].error).toContain('Cannot read backup file');
+
+    // file1 is still committed, so its journal stays for the next start to retry
+    const [journalName] = await readdir(journalDir);
+    expect(parsed.rollback!.journal_path).toBe(join(journalDir, journalName));
+    const records = (await readFile(parsed.rollback!.journal_path!, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(records.map(record => record.type)).toEqual(['begin', 'staged', 'staged', 'file', 'file']);
+    expect(records[3]).toMatchObject({
+      file_path: file1,
+      original_bytes: Buffer.from('file one data').toString('base64'),
+      committed_sha256: editor.computeSha256('FILE ONE data'),
+    });
   });
 
-  it('should classify ambiguous match error code from message', async () => {
+  it('should report the ambiguous match code of the edit result', async () => {
     const file1 = join(tempDir, 'dup.txt');
     // Create a file with duplicate content to trigger ambiguous match
     await writeFile(file1, 'aaa bbb aaa', 'utf-8');
@@ -241,17 +302,18 @@ describe('handleMultiEditFiles error paths', () => {
     expect(parsed.error_code).toBe('AMBIGUOUS_MATCH');
   });
 
-  it('should classify encoding error code from message', async () => {
+  it('should take the error code from the edit result, not its message', async () => {
     const file1 = join(tempDir, 'enc.txt');
     await writeFile(file1, 'valid content', 'utf-8');
 
-    // applyEditsToContent returning a result with encoding-related error
+    // The message mentions "not found", which a message classifier would misread
     vi.spyOn(editor, 'applyEditsToContent').mockReturnValue({
       success: false,
       file_path: file1,
       edits_applied: 0,
       results: [],
-      error: 'File contains invalid UTF-8 encoding',
+      error: 'File contains invalid UTF-8 encoding: /tmp/not found/enc.txt',
+      failure: { code: 'INVALID_ENCODING' },
       dry_run: false,
     });
 
@@ -267,7 +329,7 @@ describe('handleMultiEditFiles error paths', () => {
     expect(parsed.error_code).toBe('INVALID_ENCODING');
   });
 
-  it('should classify unknown error code for unrecognized message', async () => {
+  it('should report UNKNOWN_ERROR for a failed result without a failure code', async () => {
     const file1 = join(tempDir, 'unknown.txt');
     await writeFile(file1, 'valid content', 'utf-8');
 
@@ -318,9 +380,9 @@ describe('handleMultiEditFiles error paths', () => {
     const parsed = parse(result);
     // file1 failed, file2 and file3 skipped
     expect(parsed.file_statuses).toHaveLength(3);
-    expect(parsed.file_statuses[0].status).toBe('failed');
-    expect(parsed.file_statuses[1].status).toBe('skipped');
-    expect(parsed.file_statuses[2].status).toBe('skipped');
+    expect(parsed.file_statuses![0].status).toBe('failed');
+    expect(parsed.file_statuses![1].status).toBe('skipped');
+    expect(parsed.file_statuses![2].status).toBe('skipped');
   });
 });
 
@@ -350,6 +412,30 @@ describe('handleMultiEdit error paths', () => {
     expect(parsed.file_path).toBe(filePath);
   });
 
+  it('should fail with STALE_CONTENT when the file changes after validation', async () => {
+    const file = join(tempDir, 'stale.txt');
+    await writeFile(file, 'original', 'utf-8');
+    const sha256 = editor.computeSha256('original');
+
+    // readFileValidated runs after validation and before applyEdits reads the file
+    const originalRead = editor.readFileValidated;
+    vi.spyOn(editor, 'readFileValidated').mockImplementation(async (path: string) => {
+      await writeFile(path, 'original, edited elsewhere', 'utf-8');
+      return originalRead(path);
+    });
+
+    const result = await handleMultiEdit({
+      file_path: file,
+      expected_sha256: sha256,
+      edits: [{ old_string: 'original', new_string: 'replaced' }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(parse(result).error_code).toBe('STALE_CONTENT');
+    expect(parse(result).context?.current_sha256).toBe(editor.computeSha256('original, edited elsewhere'));
+    expect(await readFile(file, 'utf-8')).toBe('original, edited elsewhere');
+  });
+
   it('should catch EACCES error from applyEdits and return PERMISSION_DENIED', async () => {
     const filePath = join(tempDir, 'test2.txt');
     await writeFile(filePath, 'hello world', 'utf-8');
@@ -411,8 +497,7 @@ describe('server.ts handler catch block', () => {
         },
       });
 
-      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
-      const parsed = JSON.parse(text);
+      const parsed = result.structuredContent as Record<string, unknown>;
 
       expect(result.isError).toBe(true);
       expect(parsed.error_code).toBe('UNKNOWN_ERROR');
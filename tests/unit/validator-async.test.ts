@@ -63,7 +63,87 @@ describe('validateFileExists (memfs)', () => {
   });
 });
 
+describe('validateFileAbsent (memfs)', () => {
+  it('should return resolvedPath when the file does not exist', async () => {
+    vol.fromJSON({ '/test/existing.txt': 'content' });
+    const { validateFileAbsent } = await import('../../src/core/validator.js');
+    const result = await validateFileAbsent('/test/new.txt');
+    expect(result).toEqual({ resolvedPath: '/test/new.txt' });
+  });
+
+  it('should return FILE_ALREADY_EXISTS for an existing file', async () => {
+    vol.fromJSON({ '/test/existing.txt': 'content' });
+    const { validateFileAbsent } = await import('../../src/core/validator.js');
+    const result = await validateFileAbsent('/test/existing.txt');
+    expect(result).toHaveProperty('code', 'FILE_ALREADY_EXISTS');
+  });
+
+  it('should return FILE_NOT_FOUND when the parent directory is missing', async () => {
+    const { validateFileAbsent } = await import('../../src/core/validator.js');
+    const result = await validateFileAbsent('/missing/dir/new.txt');
+    expect(result).toHaveProperty('code', 'FILE_NOT_FOUND');
+    expect((result as { message: string }).message).toContain('Parent directory');
+  });
+});
+
+describe('checkExpectedContent (memfs)', () => {
+  // sha256('content')
+  const CONTENT_SHA256 = 'ed7002b439e9ac845f22357d822bac1444730fbdb6016d3ec9432297b9ec9f73';
+
+  it('should return null when no expectation is given', async () => {
+    vol.fromJSON({ '/test/file.txt': 'content' });
+    const { checkExpectedContent } = await import('../../src/core/validator.js');
+    expect(await checkExpectedContent('/test/file.txt', {})).toBeNull();
+  });
+
+  it('should return null when expected_sha256 matches (case-insensitive)', async () => {
+    vol.fromJSON({ '/test/file.txt': 'content' });
+    const { checkExpectedContent } = await import('../../src/core/validator.js');
+    const result = await checkExpectedContent('/test/file.txt', {
+      expected_sha256: CONTENT_SHA256.toUpperCase(),
+    });
+    expect(result).toBeNull();
+  });
+
+  it('should return STALE_CONTENT with the current hash when expected_sha256 differs', async () => {
+    vol.fromJSON({ '/test/file.txt': 'changed' });
+    const { checkExpectedContent } = await import('../../src/core/validator.js');
+    const result = await checkExpectedContent('/test/file.txt', { expected_sha256: CONTENT_SHA256 });
+    expect(result?.code).toBe('STALE_CONTENT');
+    expect(result?.context?.current_sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(result?.context?.current_sha256).not.toBe(CONTENT_SHA256);
+  });
+
+  it('should compare expected_mtime at millisecond precision', async () => {
+    vol.fromJSON({ '/test/file.txt': 'content' });
+    const mtime = new Date('2026-03-01T12:00:00.123Z');
+    vol.utimesSync('/test/file.txt', mtime, mtime);
+    const { checkExpectedContent } = await import('../../src/core/validator.js');
+
+    expect(await checkExpectedContent('/test/file.txt', {
+      expected_mtime: '2026-03-01T13:00:00.123+01:00',
+    })).toBeNull();
+
+    const stale = await checkExpectedContent('/test/file.txt', {
+      expected_mtime: '2026-03-01T12:00:00.000Z',
+    });
+    expect(stale?.code).toBe('STALE_CONTENT');
+    expect(stale?.context?.current_mtime).toBe('2026-03-01T12:00:00.123Z');
+  });
+});
+
 describe('detectDuplicateFilePaths (memfs)', () => {
+  it('should detect two create entries for the same new path', async () => {
+    vol.fromJSON({ '/test/a.txt': 'a' });
+    const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
+    const errors = await detectDuplicateFilePaths([
+      { file_path: '/test/new.txt', create: { content: 'x' } },
+      { file_path: '/test/new.txt', create: { content: 'y' } },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('DUPLICATE_FILE_PATH');
+  });
+
   it('should return empty array for unique file paths', async () => {
     vol.fromJSON({ '/test/a.txt': 'a', '/test/b.txt': 'b' });
     const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
@@ -85,6 +165,40 @@ describe('detectDuplicateFilePaths (memfs)', () => {
     expect(errors[0].code).toBe('DUPLICATE_FILE_PATH');
   });
 
+  it('should detect a move_to destination used by another entry', async () => {
+    vol.fromJSON({ '/test/a.txt': 'a', '/test/b.txt': 'b' });
+    const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
+    const errors = await detectDuplicateFilePaths([
+      { file_path: '/test/a.txt', move_to: '/test/c.txt' },
+      { file_path: '/test/b.txt', move_to: '/test/c.txt' },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('DUPLICATE_FILE_PATH');
+    expect(errors[0].path).toEqual(['files', '1', 'move_to']);
+  });
+
+  it('should detect a move_to destination that collides with a create entry', async () => {
+    vol.fromJSON({ '/test/a.txt': 'a' });
+    const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
+    const errors = await detectDuplicateFilePaths([
+      { file_path: '/test/a.txt', move_to: '/test/c.txt' },
+      { file_path: '/test/c.txt', create: { content: '' } },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toEqual(['files', '0', 'move_to']);
+  });
+
+  it('should reject a move_to destination that already exists', async () => {
+    vol.fromJSON({ '/test/a.txt': 'a', '/test/b.txt': 'b' });
+    const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
+    const errors = await detectDuplicateFilePaths([
+      { file_path: '/test/a.txt', move_to: '/test/b.txt' },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('FILE_ALREADY_EXISTS');
+    expect(errors[0].path).toEqual(['files', '0', 'move_to']);
+  });
+
   it('should skip non-existent files in duplicate detection', async () => {
     vol.fromJSON({ '/test/exists.txt': 'yes' });
     const { detectDuplicateFilePaths } = await import('../../src/core/validator.js');
@@ -148,6 +262,31 @@ describe('validateMultiEditInputFull (memfs)', () => {
     }
   });
 
+  it('should return INVALID_REGEX error for uncompilable pattern (Layer 3)', async () => {
+    const { validateMultiEditInputFull } = await import('../../src/core/validator.js');
+    const result = await validateMultiEditInputFull({
+      file_path: '/test/file.ts',
+      edits: [{ old_string: '(foo', new_string: 'bar', regex: true }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0].code).toBe('INVALID_REGEX');
+    }
+  });
+
+  it('should return schema error for unsupported regex flags (Layer 1)', async () => {
+    const { validateMultiEditInputFull } = await import('../../src/core/validator.js');
+    const result = await validateMultiEditInputFull({
+      file_path: '/test/file.ts',
+      edits: [{ old_string: 'foo', new_string: 'bar', regex: true, flags: 'y' }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0].code).toMatch(/^SCHEMA_/);
+      expect(result.errors[0].path).toEqual(['edits', '0', 'flags']);
+    }
+  });
+
   it('should return FILE_NOT_FOUND for non-existent file (Layer 4)', async () => {
     const { validateMultiEditInputFull } = await import('../../src/core/validator.js');
     const result = await validateMultiEditInputFull({
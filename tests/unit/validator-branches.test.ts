@@ -2,8 +2,7 @@
  * Tests for remaining uncovered validator.ts branches:
  * - validateFileExists: EPERM, ELOOP, and default error code branches
  * - formatZodErrors: invalid_type and default branches
- * - Also covers multi-edit-files.ts classifyErrorCodeFromMessage BACKUP_FAILED branch
- *   and multi-edit-files.ts rollback ternary branches (writtenFiles.length > 0)
+ * - Also covers multi-edit-files.ts rollback ternary branches (writtenFiles.length > 0)
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
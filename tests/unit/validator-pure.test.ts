@@ -9,6 +9,7 @@ import { describe, it, expect } from 'vitest';
 import {
   validatePath,
   detectDuplicateOldStrings,
+  detectInvalidRegexPatterns,
   formatZodErrors,
   MultiEditInputSchema,
   MultiEditFilesInputSchema,
@@ -102,6 +103,49 @@ describe('detectDuplicateOldStrings', () => {
     expect(errors.every((e) => e.code === 'DUPLICATE_OLD_STRING')).toBe(true);
   });
 
+  it('should accept one old_string reused with different occurrence or line_hint selectors', () => {
+    const edits = [
+      { old_string: 'foo', new_string: '1', occurrence: 1 },
+      { old_string: 'foo', new_string: '3', occurrence: 3 },
+      { old_string: 'foo', new_string: 'x', line_hint: 40 },
+    ];
+    expect(detectDuplicateOldStrings(edits)).toEqual([]);
+  });
+
+  it('should accept one old_string reused with different line_ranges', () => {
+    const edits = [
+      { old_string: 'foo', new_string: '1', line_range: { start: 1, end: 10 } },
+      { old_string: 'foo', new_string: '2', line_range: { start: 20, end: 30 } },
+    ];
+    expect(detectDuplicateOldStrings(edits)).toEqual([]);
+  });
+
+  it('should accept different ops on the same anchor', () => {
+    const edits = [
+      { op: 'insert_before' as const, old_string: 'anchor', new_string: 'above\n' },
+      { op: 'insert_after' as const, old_string: 'anchor', new_string: '\nbelow' },
+      { op: 'delete' as const, old_string: 'old', new_string: '' },
+      { old_string: 'old', new_string: 'new' },
+    ];
+    expect(detectDuplicateOldStrings(edits)).toEqual([]);
+  });
+
+  it('should flag an old_string repeated with the same selectors', () => {
+    const edits = [
+      { old_string: 'foo', new_string: '1', occurrence: [1, 2] },
+      { old_string: 'foo', new_string: '2', occurrence: [1, 2] },
+    ];
+    expect(detectDuplicateOldStrings(edits)).toHaveLength(1);
+  });
+
+  it('should ignore prepend_file and append_file edits', () => {
+    const edits = [
+      { op: 'append_file' as const, old_string: '', new_string: 'a' },
+      { op: 'prepend_file' as const, old_string: '', new_string: 'b' },
+    ];
+    expect(detectDuplicateOldStrings(edits)).toEqual([]);
+  });
+
   it('should return 2 errors for three identical old_strings', () => {
     const edits = [
       { old_string: 'dup', new_string: '1' },
@@ -116,6 +160,30 @@ describe('detectDuplicateOldStrings', () => {
   });
 });
 
+describe('detectInvalidRegexPatterns', () => {
+  it('should ignore literal edits even if they are not valid patterns', () => {
+    const edits = [{ old_string: 'foo(', new_string: 'bar' }];
+    expect(detectInvalidRegexPatterns(edits)).toEqual([]);
+  });
+
+  it('should accept valid regex edits', () => {
+    const edits = [{ old_string: 'foo\\((\\w+)\\)', new_string: '$1', regex: true, flags: 'm' }];
+    expect(detectInvalidRegexPatterns(edits)).toEqual([]);
+  });
+
+  it('should return INVALID_REGEX with path for an invalid pattern', () => {
+    const edits = [
+      { old_string: 'ok', new_string: 'x', regex: true },
+      { old_string: '[unclosed', new_string: 'y', regex: true },
+    ];
+    const errors = detectInvalidRegexPatterns(edits);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('INVALID_REGEX');
+    expect(errors[0].path).toEqual(['edits', '1', 'old_string']);
+    expect(errors[0].message).toContain('Edit 2 of 2');
+  });
+});
+
 describe('formatZodErrors', () => {
   it('should return error with SCHEMA_ code for empty edits array', () => {
     const result = MultiEditInputSchema.safeParse({
@@ -202,6 +270,106 @@ describe('formatZodErrors', () => {
   });
 });
 
+describe('EditOperationSchema op variants', () => {
+  const parseEdit = (edit: Record<string, unknown>) =>
+    MultiEditInputSchema.safeParse({ file_path: '/test.ts', edits: [edit] });
+
+  it('should default op to replace for edits without op', () => {
+    const result = parseEdit({ old_string: 'a', new_string: 'b' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.edits[0].op).toBe('replace');
+    }
+  });
+
+  it('should accept insert_before and insert_after with anchor and text', () => {
+    expect(parseEdit({ op: 'insert_before', old_string: 'a', new_string: 'b' }).success).toBe(true);
+    expect(parseEdit({ op: 'insert_after', old_string: 'a', new_string: 'b' }).success).toBe(true);
+  });
+
+  it('should reject inserts with empty text', () => {
+    expect(parseEdit({ op: 'insert_after', old_string: 'a', new_string: '' }).success).toBe(false);
+  });
+
+  it('should accept delete without new_string and default it to empty', () => {
+    const result = parseEdit({ op: 'delete', old_string: 'a' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.edits[0].new_string).toBe('');
+    }
+  });
+
+  it('should reject delete with a non-empty new_string', () => {
+    expect(parseEdit({ op: 'delete', old_string: 'a', new_string: 'b' }).success).toBe(false);
+  });
+
+  it('should accept append_file without old_string', () => {
+    const result = parseEdit({ op: 'append_file', new_string: 'tail' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.edits[0].old_string).toBe('');
+    }
+  });
+
+  it('should reject prepend_file with an old_string', () => {
+    expect(parseEdit({ op: 'prepend_file', old_string: 'x', new_string: 'head' }).success).toBe(false);
+  });
+
+  it('should reject an unknown op', () => {
+    const result = parseEdit({ op: 'rename', old_string: 'a', new_string: 'b' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['edits', 0, 'op']);
+    }
+  });
+});
+
+describe('MultiEditFilesInputSchema file entries', () => {
+  it('should accept create and delete entries', () => {
+    const result = MultiEditFilesInputSchema.safeParse({
+      files: [
+        { file_path: '/new.ts', create: { content: '' } },
+        { file_path: '/old.ts', delete: true },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject an entry with both edits and delete', () => {
+    const result = MultiEditFilesInputSchema.safeParse({
+      files: [{ file_path: '/a.ts', edits: [{ old_string: 'a', new_string: 'b' }], delete: true }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject an entry with neither edits, create nor delete', () => {
+    const result = MultiEditFilesInputSchema.safeParse({ files: [{ file_path: '/a.ts' }] });
+    expect(result.success).toBe(false);
+  });
+
+  it('should accept move_to with or without edits', () => {
+    const result = MultiEditFilesInputSchema.safeParse({
+      files: [
+        { file_path: '/a.ts', move_to: '/b.ts' },
+        { file_path: '/c.ts', move_to: '/d.ts', edits: [{ old_string: 'a', new_string: 'b' }] },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject move_to combined with delete', () => {
+    const result = MultiEditFilesInputSchema.safeParse({
+      files: [{ file_path: '/a.ts', move_to: '/b.ts', delete: true }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject delete: false', () => {
+    const result = MultiEditFilesInputSchema.safeParse({ files: [{ file_path: '/a.ts', delete: false }] });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe('MultiEditInputSchema defaults', () => {
   it('should default include_content to false', () => {
     const result = MultiEditInputSchema.safeParse({
@@ -246,4 +414,64 @@ describe('MultiEditInputSchema defaults', () => {
       expect(result.data.edits[0].replace_all).toBe(false);
     }
   });
+
+  it('should keep case_insensitive and preserve_case instead of stripping them', () => {
+    const result = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [{ old_string: 'a', new_string: 'b', case_insensitive: true, preserve_case: true }],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.edits[0].case_insensitive).toBe(true);
+      expect(result.data.edits[0].preserve_case).toBe(true);
+    }
+  });
+
+  it('should accept occurrence as a number or array and line_hint as a positive integer', () => {
+    const result = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [
+        { old_string: 'a', new_string: 'b', occurrence: -1 },
+        { old_string: 'c', new_string: 'd', occurrence: [1, 2] },
+        { old_string: 'e', new_string: 'f', line_hint: 10 },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a line_range whose end is before its start', () => {
+    const result = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [{ old_string: 'a', new_string: 'b', line_range: { start: 5, end: 2 } }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['edits', 0, 'line_range', 'end']);
+    }
+  });
+
+  it('should reject occurrence 0 and line_hint 0', () => {
+    const occurrence = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [{ old_string: 'a', new_string: 'b', occurrence: 0 }],
+    });
+    const lineHint = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [{ old_string: 'a', new_string: 'b', line_hint: 0 }],
+    });
+    expect(occurrence.success).toBe(false);
+    expect(lineHint.success).toBe(false);
+  });
+
+  it('should default case_insensitive and preserve_case to false', () => {
+    const result = MultiEditInputSchema.safeParse({
+      file_path: '/test.ts',
+      edits: [{ old_string: 'a', new_string: 'b' }],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.edits[0].case_insensitive).toBe(false);
+      expect(result.data.edits[0].preserve_case).toBe(false);
+    }
+  });
 });
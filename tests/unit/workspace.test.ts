@@ -0,0 +1,126 @@
+/**
+ * Unit tests for workspace.ts: deny globs, CLI argument parsing and policy checks
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  globToRegExp,
+  parseWorkspaceArgs,
+  checkWorkspacePolicy,
+  setWorkspacePolicy,
+  getWorkspacePolicy,
+  setClientRoots,
+  getEffectiveRoots,
+  rootUrisToPaths,
+} from '../../src/core/workspace.js';
+
+afterEach(() => {
+  setWorkspacePolicy({ roots: [], deny: [] });
+  setClientRoots(null);
+});
+
+describe('globToRegExp', () => {
+  it('should match directory globs at any depth', () => {
+    const regex = globToRegExp('**/.git/**');
+    expect(regex.test('/repo/.git/config')).toBe(true);
+    expect(regex.test('/repo/sub/.git/objects/ab/cd')).toBe(true);
+    expect(regex.test('/repo/.github/workflows/ci.yml')).toBe(false);
+  });
+
+  it('should match slash-free globs against the file name', () => {
+    const regex = globToRegExp('.env*');
+    expect(regex.test('/repo/.env')).toBe(true);
+    expect(regex.test('/repo/config/.env.local')).toBe(true);
+    expect(regex.test('/repo/src/env.ts')).toBe(false);
+  });
+
+  it('should keep * and ? within one path segment', () => {
+    const regex = globToRegExp('/repo/src/*.ts');
+    expect(regex.test('/repo/src/index.ts')).toBe(true);
+    expect(regex.test('/repo/src/core/index.ts')).toBe(false);
+    expect(globToRegExp('/repo/?.txt').test('/repo/a.txt')).toBe(true);
+  });
+
+  it('should let relative globs with a slash match at any depth', () => {
+    const regex = globToRegExp('node_modules/**');
+    expect(regex.test('/repo/node_modules/pkg/index.js')).toBe(true);
+    expect(regex.test('/repo/src/index.js')).toBe(false);
+  });
+});
+
+describe('parseWorkspaceArgs', () => {
+  it('should collect repeated --root and --deny values', () => {
+    expect(parseWorkspaceArgs(['--root', '/a', '--deny', '.env*', '--root=/b', '--deny=**/.git/**'])).toEqual({
+      roots: ['/a', '/b'],
+      deny: ['.env*', '**/.git/**'],
+    });
+  });
+
+  it('should ignore unrelated arguments', () => {
+    expect(parseWorkspaceArgs(['--verbose', 'x'])).toEqual({ roots: [], deny: [] });
+  });
+
+  it('should throw when a value is missing', () => {
+    expect(() => parseWorkspaceArgs(['--root'])).toThrow('Missing value for --root');
+  });
+});
+
+describe('rootUrisToPaths', () => {
+  it('should convert file URIs and skip other schemes', () => {
+    expect(rootUrisToPaths(['file:///work/my%20project', 'https://example.com/repo'])).toEqual(['/work/my project']);
+  });
+});
+
+describe('getEffectiveRoots', () => {
+  it('should use client roots when no --root is configured', () => {
+    setClientRoots(['/client']);
+    expect(getEffectiveRoots()).toEqual(['/client']);
+  });
+
+  it('should prefer --root over client roots', () => {
+    setClientRoots(['/client']);
+    setWorkspacePolicy({ roots: ['/cli'] });
+    expect(getEffectiveRoots()).toEqual(['/cli']);
+    expect(checkWorkspacePolicy('/client/file.ts')?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+  });
+  it('should restrict nothing for a client without roots', () => {
+    setClientRoots(null);
+    expect(getEffectiveRoots()).toBeNull();
+    expect(checkWorkspacePolicy('/tmp/file.ts')).toBeNull();
+  });
+
+  it('should refuse every path when the client has no usable roots', () => {
+    // A client offering only non-file roots, or whose roots/list failed
+    setClientRoots(rootUrisToPaths(['https://example.com/repo']));
+    expect(getEffectiveRoots()).toEqual([]);
+    expect(checkWorkspacePolicy('/tmp/file.ts')?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+  });
+});
+
+describe('checkWorkspacePolicy', () => {
+  it('should allow everything with an empty policy', () => {
+    expect(checkWorkspacePolicy('/etc/passwd')).toBeNull();
+  });
+
+  it('should reject paths outside every root', () => {
+    setWorkspacePolicy({ roots: ['/work/a', '/work/b'] });
+    expect(checkWorkspacePolicy('/work/a/src/file.ts')).toBeNull();
+    expect(checkWorkspacePolicy('/work/b')).toBeNull();
+    expect(checkWorkspacePolicy('/work/abc/file.ts')?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+    expect(checkWorkspacePolicy('/etc/passwd')?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+  });
+
+  it('should reject denied paths inside a root', () => {
+    setWorkspacePolicy({ roots: ['/work'], deny: ['**/node_modules/**', '.env*'] });
+    const error = checkWorkspacePolicy('/work/node_modules/pkg/index.js');
+    expect(error?.code).toBe('PATH_DENIED');
+    expect(error?.message).toContain('**/node_modules/**');
+    expect(checkWorkspacePolicy('/work/.env.production')?.code).toBe('PATH_DENIED');
+  });
+
+  it('should keep the other part of the policy when updating one part', () => {
+    setWorkspacePolicy({ roots: ['/work'], deny: ['.env*'] });
+    setWorkspacePolicy({ roots: ['/other'] });
+    expect(getWorkspacePolicy()).toEqual({ roots: ['/other'], deny: ['.env*'] });
+  });
+});
@@ -1,8 +1,14 @@
 import { defineConfig } from 'vitest/config'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 
 export default defineConfig({
   test: {
     globals: true,
+    // Keep the edit history journal and directory backups out of the real cache
+    env: {
+      XDG_CACHE_HOME: join(tmpdir(), 'mcp-multi-edit-test-cache'),
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],